@@ -17,15 +17,16 @@ export interface AgentConfig {
 
 export class BaseAgent {
   protected config: AgentConfig;
-  protected promptTemplate: string | null = null;
+  // Loaded prompt files, keyed by agent name
+  protected promptTemplates: Record<string, string> = {};
 
   constructor(config: AgentConfig) {
     this.config = config;
   }
 
   protected async loadPromptTemplate(agentName: string): Promise<string> {
-    if (this.promptTemplate) {
-      return this.promptTemplate;
+    if (this.promptTemplates[agentName]) {
+      return this.promptTemplates[agentName];
     }
 
     // In the worker, prompt files are in ../agents relative to dist/
@@ -36,8 +37,8 @@ export class BaseAgent {
     );
 
     try {
-      this.promptTemplate = await readFile(promptPath, "utf-8");
-      return this.promptTemplate;
+      this.promptTemplates[agentName] = await readFile(promptPath, "utf-8");
+      return this.promptTemplates[agentName];
     } catch (error) {
       throw new Error(`Failed to load prompt template for ${agentName}: ${error}`);
     }
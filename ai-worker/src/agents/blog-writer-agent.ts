@@ -3,11 +3,67 @@ import { ChatPromptTemplate } from "@langchain/core/prompts";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { getOpikHandler } from "../utils/opik";
 
+/**
+ * The writer sees what each source actually says (excerpts and quotes from the
+ * fetched page) rather than just its URL and scores.
+ */
+function formatSources(sources: any[]): string {
+  return JSON.stringify(
+    (sources || []).filter((source: any) => !source.excluded).map((source: any) => ({
+      id: source.id,
+      title: source.title,
+      url: source.url,
+      sections: source.sectionMapping || [],
+      required: Boolean(source.required),
+      ...(source.notes ? { authorNotes: source.notes } : {}),
+      excerpts: source.excerpts || (source.snippet ? [source.snippet] : []),
+      quotes: source.quotes || [],
+    })),
+    null,
+    2
+  );
+}
+
 export class BlogWriterAgent extends BaseAgent {
   constructor(config: AgentConfig) {
     super(config);
   }
 
+  private async buildDraftChain() {
+    const promptTemplate = await this.loadPromptTemplate("blog_writer");
+
+    const prompt = ChatPromptTemplate.fromTemplate(promptTemplate);
+    const model = this.getModel();
+    const parser = new StringOutputParser();
+
+    return prompt.pipe(model).pipe(parser);
+  }
+
+  private buildDraftInputs(
+    blogType: string,
+    thesis: string,
+    outline: any[],
+    sources: any[],
+    voiceTone: string,
+    styleGuidelines: any
+  ) {
+    console.log("[BlogWriterAgent] Writing draft with inputs:");
+    console.log("  Blog Type:", blogType || "N/A");
+    console.log("  Thesis:", thesis?.substring(0, 100) || "N/A");
+    console.log("  Outline sections:", outline?.length || 0);
+    console.log("  Sources:", sources?.length || 0);
+    console.log("  Voice/Tone:", voiceTone || "N/A");
+
+    return {
+      blogType,
+      thesis,
+      outline: JSON.stringify(outline, null, 2),
+      sources: formatSources(sources),
+      voiceTone,
+      styleGuidelines: styleGuidelines ? JSON.stringify(styleGuidelines, null, 2) : "",
+    };
+  }
+
   async writeDraft(
     blogType: string,
     thesis: string,
@@ -16,36 +72,145 @@ export class BlogWriterAgent extends BaseAgent {
     voiceTone: string,
     styleGuidelines: any = null
   ): Promise<string> {
-    const promptTemplate = await this.loadPromptTemplate("blog_writer");
-    
+    const chain = await this.buildDraftChain();
+
+    const opikHandler = getOpikHandler();
+    const callbacks = opikHandler ? [opikHandler] : undefined;
+
+    const result = await chain.invoke(
+      this.buildDraftInputs(blogType, thesis, outline, sources, voiceTone, styleGuidelines),
+      {
+        callbacks: callbacks,
+      }
+    );
+
+    return result;
+  }
+
+  /**
+   * Stream the draft as it is generated. Yields text chunks in order;
+   * aborting the signal stops generation.
+   */
+  async *streamDraft(
+    blogType: string,
+    thesis: string,
+    outline: any[],
+    sources: any[],
+    voiceTone: string,
+    styleGuidelines: any = null,
+    signal?: AbortSignal
+  ): AsyncGenerator<string> {
+    const chain = await this.buildDraftChain();
+
+    const opikHandler = getOpikHandler();
+    const callbacks = opikHandler ? [opikHandler] : undefined;
+
+    const stream = await chain.stream(
+      this.buildDraftInputs(blogType, thesis, outline, sources, voiceTone, styleGuidelines),
+      {
+        callbacks: callbacks,
+        signal,
+      }
+    );
+
+    for await (const chunk of stream) {
+      if (chunk) {
+        yield chunk;
+      }
+    }
+  }
+
+  /**
+   * Revise an existing draft from editor feedback. sectionNotes are keyed to the
+   * outline's sectionNumber.
+   */
+  async reviseDraft(
+    draft: string,
+    feedback: string,
+    sectionNotes: { sectionNumber: number; note: string }[],
+    outline: any[],
+    sources: any[],
+    voiceTone: string,
+    styleGuidelines: any = null
+  ): Promise<string> {
+    const promptTemplate = await this.loadPromptTemplate("blog_writer_revision");
+
     const prompt = ChatPromptTemplate.fromTemplate(promptTemplate);
     const model = this.getModel();
     const parser = new StringOutputParser();
 
     const chain = prompt.pipe(model).pipe(parser);
 
-    console.log("[BlogWriterAgent] Writing draft with inputs:");
-    console.log("  Blog Type:", blogType || "N/A");
-    console.log("  Thesis:", thesis?.substring(0, 100) || "N/A");
-    console.log("  Outline sections:", outline?.length || 0);
+    console.log("[BlogWriterAgent] Revising draft:");
+    console.log("  Feedback:", feedback?.substring(0, 100) || "N/A");
+    console.log("  Section notes:", sectionNotes?.length || 0);
+
+    const opikHandler = getOpikHandler();
+    const callbacks = opikHandler ? [opikHandler] : undefined;
+
+    const result = await chain.invoke(
+      {
+        draft,
+        feedback: feedback || "None",
+        sectionNotes: sectionNotes?.length ? JSON.stringify(sectionNotes, null, 2) : "None",
+        outline: JSON.stringify(outline, null, 2),
+        sources: formatSources(sources),
+        voiceTone,
+        styleGuidelines: styleGuidelines ? JSON.stringify(styleGuidelines, null, 2) : "",
+      },
+      {
+        callbacks: callbacks,
+      }
+    );
+
+    return result;
+  }
+
+  /**
+   * Rewrite a single outline section. Returns the section body without its heading.
+   */
+  async writeSection(
+    blogType: string,
+    thesis: string,
+    outline: any[],
+    section: any,
+    currentSection: string,
+    draft: string,
+    sources: any[],
+    voiceTone: string,
+    styleGuidelines: any = null
+  ): Promise<string> {
+    const promptTemplate = await this.loadPromptTemplate("blog_writer_section");
+
+    const prompt = ChatPromptTemplate.fromTemplate(promptTemplate);
+    const model = this.getModel();
+    const parser = new StringOutputParser();
+
+    const chain = prompt.pipe(model).pipe(parser);
+
+    console.log("[BlogWriterAgent] Rewriting section:", section?.sectionNumber, section?.title || "N/A");
     console.log("  Sources:", sources?.length || 0);
-    console.log("  Voice/Tone:", voiceTone || "N/A");
 
     const opikHandler = getOpikHandler();
     const callbacks = opikHandler ? [opikHandler] : undefined;
 
-    const result = await chain.invoke({
-      blogType,
-      thesis,
-      outline: JSON.stringify(outline, null, 2),
-      sources: JSON.stringify(sources, null, 2),
-      voiceTone,
-      styleGuidelines: styleGuidelines ? JSON.stringify(styleGuidelines, null, 2) : "",
-    }, {
-      callbacks: callbacks,
-    });
+    const result = await chain.invoke(
+      {
+        blogType,
+        thesis,
+        outline: JSON.stringify(outline, null, 2),
+        section: JSON.stringify(section, null, 2),
+        currentSection,
+        draft,
+        sources: formatSources(sources),
+        voiceTone,
+        styleGuidelines: styleGuidelines ? JSON.stringify(styleGuidelines, null, 2) : "",
+      },
+      {
+        callbacks: callbacks,
+      }
+    );
 
     return result;
   }
 }
-
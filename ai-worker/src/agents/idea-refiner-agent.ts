@@ -39,6 +39,15 @@ const thesisOptionsSchema = z.object({
   ).min(2).max(3),
 });
 
+/**
+ * Optional structure from a saved template: the outline sections to follow and
+ * the source types research should favour
+ */
+export interface TemplateGuidance {
+  outlineTemplate?: { sectionNumber: number; title: string; purpose: string; evidenceType: string }[];
+  preferredSourceTypes?: string[];
+}
+
 export class IdeaRefinerAgent extends BaseAgent {
   constructor(config: AgentConfig) {
     super(config);
@@ -79,14 +88,15 @@ export class IdeaRefinerAgent extends BaseAgent {
     idea: string,
     blogType: string,
     voiceTone: string,
-    selectedThesisOption?: string
+    selectedThesisOption?: string,
+    guidance: TemplateGuidance = {}
   ): Promise<z.infer<typeof thesisSchema>> {
     const promptTemplate = await this.loadPromptTemplate("idea_refiner");
     
     const parser = StructuredOutputParser.fromZodSchema(thesisSchema);
     const prompt = ChatPromptTemplate.fromMessages([
       ["system", `{formatInstructions}\n${promptTemplate}`],
-      ["user", "Idea: {idea}\nBlog Type: {blogType}\nVoice/Tone: {voiceTone}\nSelected Thesis Option: {selectedThesis}"],
+      ["user", "Idea: {idea}\nBlog Type: {blogType}\nVoice/Tone: {voiceTone}\nSelected Thesis Option: {selectedThesis}\nOutline Template: {outlineTemplate}\nPreferred Source Types: {preferredSourceTypes}"],
     ]);
 
     const model = this.getModel();
@@ -101,6 +111,12 @@ export class IdeaRefinerAgent extends BaseAgent {
       blogType,
       voiceTone,
       selectedThesis: selectedThesisOption || "Generate new thesis",
+      outlineTemplate: guidance.outlineTemplate?.length
+        ? JSON.stringify(guidance.outlineTemplate, null, 2)
+        : "None",
+      preferredSourceTypes: guidance.preferredSourceTypes?.length
+        ? guidance.preferredSourceTypes.join(", ")
+        : "None",
     }, {
       callbacks: callbacks,
     });
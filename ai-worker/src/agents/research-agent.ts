@@ -3,6 +3,16 @@ import { z } from "zod";
 import { StructuredOutputParser } from "@langchain/core/output_parsers";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import { getOpikHandler } from "../utils/opik";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { normalizeUrl } from "../utils/url";
+import { fetchSourceContent, keywords } from "../utils/content-fetcher";
+import { scoreSources } from "../utils/source-scoring";
+import { SearchProvider, SearchCitation } from "../search";
+
+// Section queries in flight at once against the search API
+const SEARCH_CONCURRENCY = 3;
+// Source pages downloaded at once when extracting content
+const FETCH_CONCURRENCY = 4;
 
 const sourceSchema = z.object({
   id: z.string(),
@@ -26,177 +36,207 @@ const researchSchema = z.object({
   }).optional(),
 });
 
+function buildSectionMapping(sources: any[]): Record<string, string[]> {
+  const mapping: Record<string, string[]> = {};
+  for (const source of sources) {
+    for (const sectionNumber of source.sectionMapping || []) {
+      const key = String(sectionNumber);
+      mapping[key] = mapping[key] || [];
+      mapping[key].push(source.id);
+    }
+  }
+  return mapping;
+}
+
 export class ResearchAgent extends BaseAgent {
-  private perplexityApiKey?: string;
-  private exaApiKey?: string;
+  private searchProvider: SearchProvider;
 
-  constructor(config: AgentConfig, perplexityApiKey?: string, exaApiKey?: string) {
+  constructor(config: AgentConfig, searchProvider: SearchProvider) {
     super(config);
-    this.perplexityApiKey = perplexityApiKey;
-    this.exaApiKey = exaApiKey;
+    this.searchProvider = searchProvider;
   }
 
-  private async searchPerplexity(query: string): Promise<any> {
-    console.log("[ResearchAgent] searchPerplexity called, has key:", !!this.perplexityApiKey);
-    if (!this.perplexityApiKey) {
-      if (this.exaApiKey) {
-        console.log("[ResearchAgent] No Perplexity key, falling back to Exa");
-        return this.searchExa(query);
-      }
-      console.warn("[ResearchAgent] No Perplexity API key configured, returning empty results");
-      throw new Error("Perplexity API key is not configured");
-    }
+  /**
+   * One source per unique URL; sectionMapping lists every section whose query
+   * returned it.
+   */
+  private citationsToSources(citations: { citation: any; sectionNumber: number | null }[]): any[] {
+    const byUrl = new Map<string, any>();
 
-    try {
-      const response = await fetch("https://api.perplexity.ai/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${this.perplexityApiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "sonar",
-          messages: [
-            {
-              role: "system",
-              content: "You are a research assistant. Provide citations and sources.",
-            },
-            {
-              role: "user",
-              content: query,
-            },
-          ],
-        }),
-      });
+    for (const { citation, sectionNumber } of citations) {
+      if (!citation.url) continue;
+      const key = normalizeUrl(citation.url);
+      let source = byUrl.get(key);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("[ResearchAgent] Perplexity API error:", response.status, errorText);
-        if (this.exaApiKey) {
-          console.log("[ResearchAgent] Falling back to Exa.ai");
-          return this.searchExa(query);
-        }
-        throw new Error(`Perplexity API error: ${response.status} - ${errorText}`);
+      if (!source) {
+        source = {
+          id: `source-${byUrl.size + 1}`,
+          title: citation.title || "Source",
+          url: citation.url,
+          qualityRationale: `Source from ${this.searchProvider.name} search`,
+          sectionMapping: [] as number[],
+          snippet: citation.snippet || "",
+          publishedDate: citation.date || undefined,
+        };
+        byUrl.set(key, source);
       }
 
-      const data = await response.json();
-      console.log("[ResearchAgent] Perplexity API response received, checking for citations...");
-      
-      if (data.search_results && Array.isArray(data.search_results) && data.search_results.length > 0) {
-        console.log("[ResearchAgent] Found search_results array with", data.search_results.length, "items");
-        const citations = data.search_results.map((result: any) => ({
-          title: result.title || "",
-          url: result.url || "",
-          snippet: result.snippet || "",
-          date: result.date || "",
-        }));
-        return { citations };
+      if (sectionNumber !== null && !source.sectionMapping.includes(sectionNumber)) {
+        source.sectionMapping.push(sectionNumber);
       }
-      
-      if (data.citations && Array.isArray(data.citations) && data.citations.length > 0) {
-        console.log("[ResearchAgent] Found citations array (URL strings) with", data.citations.length, "items");
-        const citations = data.citations.map((url: string) => ({
-          title: "",
-          url: url,
-          snippet: "",
-        }));
-        return { citations };
-      }
-      
-      console.warn("[ResearchAgent] No citations or search_results found in Perplexity response");
-      return { citations: [] };
-    } catch (error) {
-      console.error("Perplexity search error:", error);
-      if (this.exaApiKey) {
-        try {
-          return await this.searchExa(query);
-        } catch (exaError) {
-          console.error("Exa.ai also failed:", exaError);
-        }
-      }
-      return { citations: [] };
     }
+
+    return Array.from(byUrl.values());
   }
 
-  private async searchExa(query: string): Promise<any> {
-    if (!this.exaApiKey) {
-      throw new Error("Exa API key not configured");
+  private async search(query: string): Promise<{ citations: SearchCitation[] }> {
+    try {
+      console.log(`[ResearchAgent] Searching with ${this.searchProvider.name}:`, query.substring(0, 100));
+      const citations = await this.searchProvider.search(query);
+      console.log("[ResearchAgent] Search completed, citations count:", citations.length);
+      return { citations };
+    } catch (error: any) {
+      console.error("[ResearchAgent] Search failed:", error?.message || error);
+      return { citations: [] };
     }
+  }
 
-    try {
-      const response = await fetch("https://api.exa.ai/search", {
-        method: "POST",
-        headers: {
-          "x-api-key": this.exaApiKey,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          query,
-          num_results: 10,
-          contents: {
-            text: true,
-            highlights: true,
-          },
-        }),
-      });
+  /**
+   * The searches to run: each section's evidenceExpectations.searchQueries,
+   * hinted with its preferred sourceTypes. Sections without expectations fall
+   * back to their title and purpose.
+   */
+  private buildSectionQueries(
+    thesis: string,
+    outline: any[],
+    evidenceExpectations: any[]
+  ): { query: string; sectionNumber: number | null }[] {
+    const queries: { query: string; sectionNumber: number | null }[] = [];
+
+    for (const section of outline) {
+      const expectation = evidenceExpectations.find(
+        (e: any) => e?.sectionNumber === section.sectionNumber
+      );
+      const sourceTypes = Array.isArray(expectation?.sourceTypes) && expectation.sourceTypes.length > 0
+        ? ` (prefer ${expectation.sourceTypes.join(", ")})`
+        : "";
+      const sectionQueries: string[] = (Array.isArray(expectation?.searchQueries) ? expectation.searchQueries : [])
+        .filter((q: any) => typeof q === "string" && q.trim());
 
-      if (!response.ok) {
-        throw new Error(`Exa API error: ${response.statusText}`);
+      if (sectionQueries.length === 0) {
+        sectionQueries.push(`${section.title}: ${section.purpose}`);
       }
 
-      return await response.json();
-    } catch (error) {
-      throw new Error(`Research API failed: ${error}`);
+      for (const query of sectionQueries) {
+        queries.push({ query: `${query}${sourceTypes}`, sectionNumber: section.sectionNumber });
+      }
+    }
+
+    if (queries.length === 0) {
+      queries.push({ query: thesis, sectionNumber: null });
     }
+
+    return queries;
   }
 
-  async research(
+  /**
+   * Search terms for the sections a source supports (the thesis when unmapped)
+   */
+  private sourceTerms(source: any, thesis: string, outline: any[], evidenceExpectations: any[]): string[] {
+    const sections: number[] = source.sectionMapping || [];
+    if (sections.length === 0) {
+      return keywords(thesis);
+    }
+
+    return keywords(sections.map((sectionNumber) => {
+      const section = outline.find((s: any) => s.sectionNumber === sectionNumber);
+      const expectation = evidenceExpectations.find((e: any) => e?.sectionNumber === sectionNumber);
+      return [
+        section?.title,
+        section?.purpose,
+        ...(expectation?.keyDataPoints || []),
+        ...(expectation?.searchQueries || []),
+      ].filter(Boolean).join(" ");
+    }).join(" "));
+  }
+
+  /**
+   * Fetch source content, then replace any LLM-guessed numbers with
+   * deterministic scores. The LLM's qualityRationale is kept.
+   */
+  private async enrichSources(
+    sources: any[],
     thesis: string,
     outline: any[],
     evidenceExpectations: any[]
-  ): Promise<z.infer<typeof researchSchema>> {
-    const promptTemplate = await this.loadPromptTemplate("research");
-    
-    const searchQueries = [
-      thesis,
-      ...outline.map((section: any) => `${section.title}: ${section.purpose}`),
-    ].join(" ");
+  ): Promise<any[]> {
+    const fetched = await this.fetchSourceContents(sources, thesis, outline, evidenceExpectations);
+    return scoreSources(
+      fetched,
+      (source) => this.sourceTerms(source, thesis, outline, evidenceExpectations),
+      new Date()
+    );
+  }
 
-    let searchResults: any = { citations: [] };
-    try {
-      console.log("[ResearchAgent] Starting search with Perplexity...");
-      searchResults = await this.searchPerplexity(searchQueries);
-      console.log("[ResearchAgent] Search completed, citations count:", searchResults?.citations?.length || 0);
-      if (!searchResults || !searchResults.citations) {
-        console.warn("[ResearchAgent] Search returned no citations");
-        searchResults = { citations: [] };
-      }
-    } catch (error: any) {
-      console.error("[ResearchAgent] Search failed:", error?.message || error);
-      searchResults = { citations: [] };
+  /**
+   * Download each source and attach verbatim excerpts and quotes relevant to
+   * the sections it supports. Sources that can't be fetched keep the search
+   * snippet as their only excerpt. Set FETCH_SOURCE_CONTENT=false to skip.
+   */
+  private async fetchSourceContents(
+    sources: any[],
+    thesis: string,
+    outline: any[],
+    evidenceExpectations: any[]
+  ): Promise<any[]> {
+    if (process.env.FETCH_SOURCE_CONTENT === "false") {
+      return sources.map((source) => ({ ...source, excerpts: source.snippet ? [source.snippet] : [], quotes: [] }));
     }
 
-    const sources: any[] = [];
-    
-    if (searchResults.citations && Array.isArray(searchResults.citations)) {
-      console.log("[ResearchAgent] Found", searchResults.citations.length, "citations");
-      searchResults.citations.forEach((citation: any, index: number) => {
-        sources.push({
-          id: `source-${index + 1}`,
-          title: citation.title || "Source",
-          url: citation.url || "",
-          qualityScore: 4,
-          qualityRationale: "Source from Perplexity API",
-          authority: 4,
-          relevance: 5,
-          recency: 4,
-          credibility: 4,
-          sectionMapping: [1],
-        });
-      });
+    return mapWithConcurrency(sources, FETCH_CONCURRENCY, async (source: any) => {
+      const terms = this.sourceTerms(source, thesis, outline, evidenceExpectations);
+
+      try {
+        const content = await fetchSourceContent(source.url, terms);
+        return {
+          ...source,
+          title: source.title && source.title !== "Source" ? source.title : content.title || source.title,
+          excerpts: content.excerpts.length > 0 ? content.excerpts : (source.snippet ? [source.snippet] : []),
+          quotes: content.quotes,
+          publishedDate: source.publishedDate || content.publishedDate,
+          paywalled: content.paywalled,
+          contentFetchedAt: new Date().toISOString(),
+        };
+      } catch (error: any) {
+        console.warn(`[ResearchAgent] Could not fetch ${source.url}:`, error?.message || error);
+        return {
+          ...source,
+          excerpts: source.snippet ? [source.snippet] : [],
+          quotes: [],
+          contentError: error?.message || "Fetch failed",
+        };
+      }
+    });
+  }
+
+  /**
+   * Have the LLM score and map the raw search results. Falls back to the
+   * unscored citation sources if the LLM call fails.
+   */
+  private async structureSources(
+    thesis: string,
+    outline: any[],
+    evidenceExpectations: any[],
+    searchResults: any,
+    sources: any[]
+  ): Promise<z.infer<typeof researchSchema>> {
+    // With no search results the LLM could only invent sources
+    if (sources.length === 0) {
+      console.log("[ResearchAgent] Search returned no sources, skipping LLM scoring");
+      return { sources: [], sectionMapping: {}, suggestedRevisions: {} };
     }
-    
-    console.log("[ResearchAgent] Created", sources.length, "sources from citations");
+
+    const promptTemplate = await this.loadPromptTemplate("research");
 
     const parser = StructuredOutputParser.fromZodSchema(researchSchema);
     
@@ -204,7 +244,7 @@ export class ResearchAgent extends BaseAgent {
     
     const prompt = ChatPromptTemplate.fromMessages([
       ["system", `{formatInstructions}\n${promptTemplate}\n\nYou have access to these search results: {searchResults}`],
-      ["user", "Thesis: {thesis}\nOutline: {outline}\nEvidence Expectations: {evidenceExpectations}\n\nAnalyze the search results and provide structured sources with quality scores."],
+      ["user", "Thesis: {thesis}\nOutline: {outline}\nEvidence Expectations: {evidenceExpectations}\n\nSearch results tagged with a sectionNumber were found for that outline section. Analyze the search results and provide structured sources with quality scores."],
     ]);
 
     const model = this.getModel();
@@ -226,34 +266,101 @@ export class ResearchAgent extends BaseAgent {
         callbacks: callbacks,
       });
 
-      if (result.sources && sources.length > 0) {
-        console.log("[ResearchAgent] Merging LLM sources with search URLs");
-        result.sources = result.sources.map((source: any, index: number) => ({
-          ...source,
-          url: sources[index]?.url || source.url || "",
-        }));
-      }
+      // Keep the LLM's scores but only for URLs the search actually returned,
+      // and keep the sections each source was found for
+      const searchByUrl = new Map(sources.map((source: any) => [normalizeUrl(source.url), source]));
+      const scoredSources = (Array.isArray(result.sources) ? result.sources : [])
+        .filter((source: any) => source.url && searchByUrl.has(normalizeUrl(source.url)))
+        .map((source: any, index: number) => {
+          const found = searchByUrl.get(normalizeUrl(source.url || ""));
+          return {
+            ...source,
+            id: `source-${index + 1}`,
+            url: found?.url || source.url,
+            snippet: found?.snippet || "",
+            publishedDate: found?.publishedDate,
+            sectionMapping: Array.from(new Set([
+              ...(found?.sectionMapping || []),
+              ...(source.sectionMapping || []),
+            ])),
+          };
+        });
 
-      const finalSources = Array.isArray(result.sources) ? result.sources : (sources.length > 0 ? sources.slice(0, 5) : []);
+      const finalSources = scoredSources.length > 0 ? scoredSources : sources;
       console.log("[ResearchAgent] Returning", finalSources.length, "final sources");
       
       return {
         sources: finalSources,
-        sectionMapping: result.sectionMapping || {},
+        sectionMapping: buildSectionMapping(finalSources),
         suggestedRevisions: result.suggestedRevisions || {},
       };
     } catch (error: any) {
       console.error("[ResearchAgent] LLM processing failed:", error?.message || error);
       
-      const fallbackSources = sources.length > 0 ? sources.slice(0, 5) : [];
-      console.log("[ResearchAgent] Returning", fallbackSources.length, "fallback sources after LLM failure");
+      console.log("[ResearchAgent] Returning", sources.length, "fallback sources after LLM failure");
       
       return {
-        sources: fallbackSources,
-        sectionMapping: {},
+        sources,
+        sectionMapping: buildSectionMapping(sources),
         suggestedRevisions: {},
       };
     }
   }
-}
 
+  async research(
+    thesis: string,
+    outline: any[],
+    evidenceExpectations: any[]
+  ): Promise<z.infer<typeof researchSchema>> {
+    const queries = this.buildSectionQueries(thesis, outline, evidenceExpectations);
+    console.log("[ResearchAgent] Running", queries.length, "section queries");
+
+    const results = await mapWithConcurrency(queries, SEARCH_CONCURRENCY, async ({ query, sectionNumber }) => {
+      const searchResults = await this.search(query);
+      return (searchResults.citations || []).map((citation: any) => ({ citation, sectionNumber }));
+    });
+
+    const tagged = results.flat();
+    const sources = this.citationsToSources(tagged);
+    console.log("[ResearchAgent] Created", sources.length, "sources from citations");
+
+    // Tag each citation with the section whose query found it so the LLM sees provenance
+    const searchResults = {
+      citations: tagged.map(({ citation, sectionNumber }) => ({ ...citation, sectionNumber })),
+    };
+
+    const result = await this.structureSources(thesis, outline, evidenceExpectations, searchResults, sources);
+    result.sources = await this.enrichSources(result.sources, thesis, outline, evidenceExpectations);
+    return result;
+  }
+
+  /**
+   * Supplemental search for a user-supplied query, optionally scoped to one
+   * outline section. Returns only the new sources; merging is up to the caller.
+   */
+  async researchMore(
+    thesis: string,
+    outline: any[],
+    query: string,
+    sectionNumber?: number
+  ): Promise<z.infer<typeof researchSchema>> {
+    const section = sectionNumber
+      ? outline.find((s: any) => s.sectionNumber === sectionNumber)
+      : undefined;
+
+    const searchResults = await this.search(section ? `${section.title}: ${query}` : query);
+    const sources = this.citationsToSources(
+      (searchResults.citations || []).map((citation: any) => ({ citation, sectionNumber: sectionNumber ?? null }))
+    );
+    console.log("[ResearchAgent] Created", sources.length, "supplemental sources from citations");
+
+    const evidenceExpectations = [{
+      sectionNumber: sectionNumber ?? null,
+      expectation: `Additional research requested by the author: ${query}`,
+    }];
+
+    const result = await this.structureSources(thesis, outline, evidenceExpectations, searchResults, sources);
+    result.sources = await this.enrichSources(result.sources, thesis, outline, evidenceExpectations);
+    return result;
+  }
+}
@@ -0,0 +1,121 @@
+import { BaseAgent, AgentConfig } from "./base";
+import { z } from "zod";
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import { getOpikHandler } from "../utils/opik";
+import type { TextMetrics } from "../utils/text-metrics";
+
+// Same shape as a voice/tone preset's style, plus do/dont rules
+const learnedVoiceSchema = z.object({
+  name: z.string().describe("Short name for the voice, 2-4 words"),
+  description: z.string().describe("One sentence describing the voice"),
+  style: z.object({
+    writingStyle: z.string(),
+    formality: z.string(),
+    emotionalPosture: z.string(),
+    do: z.array(z.string()).describe("3-6 concrete habits to follow"),
+    dont: z.array(z.string()).describe("2-5 concrete things to avoid"),
+  }),
+});
+
+export type LearnedVoice = z.infer<typeof learnedVoiceSchema>;
+
+const judgedDimensionSchema = z.enum(["writingStyle", "formality", "emotionalPosture", "rules"]);
+
+const conformanceSchema = z.object({
+  dimensions: z.array(
+    z.object({
+      dimension: judgedDimensionSchema,
+      score: z.number().describe("0-100, how closely the draft matches this part of the voice"),
+      notes: z.string().describe("One or two sentences explaining the score"),
+    })
+  ),
+  flaggedPassages: z.array(
+    z.object({
+      excerpt: z.string().describe("The passage, copied exactly from the draft"),
+      dimension: judgedDimensionSchema,
+      issue: z.string().describe("How the passage drifts from the voice"),
+      suggestion: z.string().describe("A concrete fix, ideally a rewrite of the passage"),
+    })
+  ).describe("Up to 8 passages where the voice drifts the most"),
+});
+
+export type VoiceConformance = z.infer<typeof conformanceSchema>;
+
+// Characters kept per sample; enough to judge a voice without blowing the context
+const MAX_SAMPLE_CHARS = 12000;
+
+export class VoiceToneAgent extends BaseAgent {
+  constructor(config: AgentConfig) {
+    super(config);
+  }
+
+  /**
+   * Derive a voice profile from an author's writing samples. The metrics are
+   * computed beforehand so the model describes the voice consistently with them.
+   */
+  async learnFromSamples(samples: string[], metrics: TextMetrics): Promise<LearnedVoice> {
+    const promptTemplate = await this.loadPromptTemplate("voice_sample_analysis");
+
+    const parser = StructuredOutputParser.fromZodSchema(learnedVoiceSchema);
+    const prompt = ChatPromptTemplate.fromMessages([
+      ["system", `{formatInstructions}\n${promptTemplate}`],
+      ["user", "Measured Metrics:\n{metrics}\n\nWriting Samples:\n{samples}"],
+    ]);
+
+    const model = this.getModel();
+    const chain = prompt.pipe(model).pipe(parser);
+
+    const opikHandler = getOpikHandler();
+    const callbacks = opikHandler ? [opikHandler] : undefined;
+
+    const result = await chain.invoke({
+      formatInstructions: parser.getFormatInstructions(),
+      metrics: JSON.stringify(metrics, null, 2),
+      samples: samples
+        .map((sample, index) => `--- Sample ${index + 1} ---\n${sample.slice(0, MAX_SAMPLE_CHARS)}`)
+        .join("\n\n"),
+    }, {
+      callbacks: callbacks,
+    });
+
+    return result;
+  }
+
+  /**
+   * Judge how well a draft matches the selected voice. Measured metrics are
+   * passed as evidence; the metric scores themselves are computed outside the model.
+   */
+  async judgeConformance(
+    content: string,
+    voiceTone: string,
+    styleGuidelines: any,
+    metrics: TextMetrics
+  ): Promise<VoiceConformance> {
+    const promptTemplate = await this.loadPromptTemplate("voice_conformance");
+
+    const parser = StructuredOutputParser.fromZodSchema(conformanceSchema);
+    const prompt = ChatPromptTemplate.fromMessages([
+      ["system", `{formatInstructions}\n${promptTemplate}`],
+      ["user", "Voice/Tone: {voiceTone}\nStyle Guidelines:\n{styleGuidelines}\n\nDraft Metrics:\n{metrics}\n\nDraft:\n{content}"],
+    ]);
+
+    const model = this.getModel();
+    const chain = prompt.pipe(model).pipe(parser);
+
+    const opikHandler = getOpikHandler();
+    const callbacks = opikHandler ? [opikHandler] : undefined;
+
+    const result = await chain.invoke({
+      formatInstructions: parser.getFormatInstructions(),
+      voiceTone: voiceTone || "Not named",
+      styleGuidelines: JSON.stringify(styleGuidelines, null, 2),
+      metrics: JSON.stringify(metrics, null, 2),
+      content,
+    }, {
+      callbacks: callbacks,
+    });
+
+    return result;
+  }
+}
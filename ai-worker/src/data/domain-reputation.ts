@@ -0,0 +1,84 @@
+export interface DomainReputation {
+  // Authority score 1-5 keyed by domain or top-level suffix (".gov"). The
+  // longest matching key wins, so "blog.example.com" can override "example.com".
+  authority: Record<string, number>;
+  // Domains known to put most articles behind a paywall
+  paywalled: string[];
+}
+
+export const DEFAULT_DOMAIN_REPUTATION: DomainReputation = {
+  authority: {
+    // Government, academic and intergovernmental
+    ".gov": 5,
+    ".mil": 5,
+    ".edu": 5,
+    ".ac.uk": 5,
+    ".gov.uk": 5,
+    "who.int": 5,
+    "oecd.org": 5,
+    "worldbank.org": 5,
+    "imf.org": 5,
+    "un.org": 5,
+    "europa.eu": 5,
+
+    // Journals and research publishers
+    "nature.com": 5,
+    "science.org": 5,
+    "thelancet.com": 5,
+    "nejm.org": 5,
+    "springer.com": 5,
+    "sciencedirect.com": 5,
+    "wiley.com": 5,
+    "arxiv.org": 4,
+    "ssrn.com": 4,
+    "pewresearch.org": 5,
+
+    // Established news and industry publications
+    "reuters.com": 4,
+    "apnews.com": 4,
+    "bbc.co.uk": 4,
+    "bbc.com": 4,
+    "nytimes.com": 4,
+    "wsj.com": 4,
+    "ft.com": 4,
+    "economist.com": 4,
+    "bloomberg.com": 4,
+    "washingtonpost.com": 4,
+    "theguardian.com": 4,
+    "hbr.org": 4,
+    "mckinsey.com": 4,
+    "gartner.com": 4,
+    "forrester.com": 4,
+    "technologyreview.com": 4,
+    "wired.com": 4,
+    "arstechnica.com": 4,
+
+    // Reference and community
+    "wikipedia.org": 3,
+    "github.com": 3,
+    "stackoverflow.com": 3,
+    "medium.com": 2,
+    "substack.com": 2,
+    "reddit.com": 2,
+    "linkedin.com": 2,
+
+    // Content farms and Q&A aggregators
+    "quora.com": 1,
+    "answers.com": 1,
+    "ehow.com": 1,
+    "wikihow.com": 1,
+    "livestrong.com": 1,
+    "buzzfeed.com": 1,
+  },
+  paywalled: [
+    "wsj.com",
+    "ft.com",
+    "economist.com",
+    "bloomberg.com",
+    "nytimes.com",
+    "washingtonpost.com",
+    "theathletic.com",
+    "barrons.com",
+    "hbr.org",
+  ],
+};
@@ -1,5 +1,5 @@
 import { drizzle } from "drizzle-orm/neon-http";
-import { neon } from "@neondatabase/serverless";
+import { neon, type NeonQueryFunction } from "@neondatabase/serverless";
 import * as schema from "./schema";
 
 if (!process.env.DATABASE_URL) {
@@ -7,7 +7,7 @@ if (!process.env.DATABASE_URL) {
 }
 
 const sql = neon(process.env.DATABASE_URL);
-export const db = drizzle(sql, { schema });
+export const db = drizzle(sql as NeonQueryFunction<boolean, boolean>, { schema });
 
 export type Database = typeof db;
 export * from "./schema";
@@ -3,6 +3,7 @@ import { BlogWriterAgent } from "../agents/blog-writer-agent";
 import { getAgentConfig } from "../utils/api-keys";
 import { countWords } from "../utils/word-count";
 import { flushOpikTraces } from "../utils/opik";
+import { initSSE, sendSSE } from "../utils/sse";
 
 const router = Router();
 
@@ -67,5 +68,205 @@ router.post("/", async (req: Request, res: Response) => {
   }
 });
 
+router.post("/revise", async (req: Request, res: Response) => {
+  try {
+    const {
+      userId,
+      draft,
+      feedback,
+      sectionNotes,
+      outline,
+      sources,
+      voiceTone,
+      styleGuidelines,
+    } = req.body;
+
+    const notes = Array.isArray(sectionNotes) ? sectionNotes : [];
+
+    if (!userId || !draft || !outline || (!feedback && notes.length === 0)) {
+      return res.status(400).json({
+        error: {
+          code: "VALIDATION_ERROR",
+          message:
+            "Missing required fields: userId, draft, outline, and feedback or sectionNotes",
+        },
+      });
+    }
+
+    const config = await getAgentConfig(userId);
+    const agent = new BlogWriterAgent(config);
+
+    const content = await agent.reviseDraft(
+      draft,
+      feedback || "",
+      notes,
+      outline,
+      sources || [],
+      voiceTone || "",
+      styleGuidelines
+    );
+
+    const wordCount = countWords(content);
+
+    await flushOpikTraces();
+
+    res.json({
+      content,
+      wordCount,
+    });
+  } catch (error: any) {
+    console.error("[Draft Route] Revision error:", error);
+    await flushOpikTraces();
+    res.status(500).json({
+      error: {
+        code: "AGENT_ERROR",
+        message: error.message || "Failed to revise draft",
+      },
+    });
+  }
+});
+
+router.post("/section", async (req: Request, res: Response) => {
+  try {
+    const {
+      userId,
+      blogType,
+      thesis,
+      outline,
+      section,
+      currentSection,
+      draft,
+      sources,
+      voiceTone,
+      styleGuidelines,
+    } = req.body;
+
+    if (!userId || !thesis || !outline || !section || !draft) {
+      return res.status(400).json({
+        error: {
+          code: "VALIDATION_ERROR",
+          message:
+            "Missing required fields: userId, thesis, outline, section, draft",
+        },
+      });
+    }
+
+    const config = await getAgentConfig(userId);
+    const agent = new BlogWriterAgent(config);
+
+    const content = await agent.writeSection(
+      blogType || "",
+      thesis,
+      outline,
+      section,
+      currentSection || "",
+      draft,
+      sources || [],
+      voiceTone || "",
+      styleGuidelines
+    );
+
+    await flushOpikTraces();
+
+    res.json({
+      content,
+    });
+  } catch (error: any) {
+    console.error("[Draft Route] Section error:", error);
+    await flushOpikTraces();
+    res.status(500).json({
+      error: {
+        code: "AGENT_ERROR",
+        message: error.message || "Failed to rewrite section",
+      },
+    });
+  }
+});
+
+/**
+ * Stream the draft as Server-Sent Events:
+ *   event: token  data: { content }     - next chunk of markdown
+ *   event: done   data: { wordCount }   - generation finished
+ *   event: error  data: { code, message }
+ */
+router.post("/stream", async (req: Request, res: Response) => {
+  const {
+    userId,
+    blogType,
+    thesis,
+    outline,
+    sources,
+    voiceTone,
+    styleGuidelines,
+  } = req.body;
+
+  if (
+    !userId ||
+    !blogType ||
+    !thesis ||
+    !outline ||
+    !sources ||
+    !voiceTone
+  ) {
+    return res.status(400).json({
+      error: {
+        code: "VALIDATION_ERROR",
+        message:
+          "Missing required fields: userId, blogType, thesis, outline, sources, voiceTone",
+      },
+    });
+  }
+
+  // Stop generating if the caller goes away
+  const abortController = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      abortController.abort();
+    }
+  });
+
+  try {
+    const config = await getAgentConfig(userId);
+    const agent = new BlogWriterAgent(config);
+
+    initSSE(res);
+
+    let content = "";
+    for await (const chunk of agent.streamDraft(
+      blogType,
+      thesis,
+      outline,
+      sources,
+      voiceTone,
+      styleGuidelines,
+      abortController.signal
+    )) {
+      content += chunk;
+      sendSSE(res, "token", { content: chunk });
+    }
+
+    sendSSE(res, "done", { wordCount: countWords(content) });
+    res.end();
+  } catch (error: any) {
+    if (abortController.signal.aborted) {
+      console.log("[Draft Route] Stream cancelled by client");
+    } else {
+      console.error("[Draft Route] Stream error:", error);
+      const payload = {
+        code: "AGENT_ERROR",
+        message: error.message || "Failed to write draft",
+      };
+      if (res.headersSent) {
+        sendSSE(res, "error", payload);
+        res.end();
+      } else {
+        res.status(500).json({ error: payload });
+      }
+    }
+  } finally {
+    await flushOpikTraces();
+  }
+});
+
 export { router as draftRoutes };
 
@@ -2,6 +2,7 @@ import { Router, Request, Response } from "express";
 import { EditorialSEOAgent } from "../agents/editorial-seo-agent";
 import { getAgentConfig } from "../utils/api-keys";
 import { flushOpikTraces } from "../utils/opik";
+import { verifyCitations } from "../utils/citation-verifier";
 
 const router = Router();
 
@@ -42,5 +43,35 @@ router.post("/", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Check the links in a final post against the research sources
+ */
+router.post("/verify", async (req: Request, res: Response) => {
+  try {
+    const { content, sources } = req.body;
+
+    if (!content) {
+      return res.status(400).json({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Missing required field: content",
+        },
+      });
+    }
+
+    const report = await verifyCitations(content, Array.isArray(sources) ? sources : []);
+
+    res.json(report);
+  } catch (error: any) {
+    console.error("[Editorial Route] Verify error:", error);
+    res.status(500).json({
+      error: {
+        code: "VERIFICATION_ERROR",
+        message: error.message || "Failed to verify citations",
+      },
+    });
+  }
+});
+
 export { router as editorialRoutes };
 
@@ -2,9 +2,50 @@ import { Router, Request, Response } from "express";
 import { ResearchAgent } from "../agents/research-agent";
 import { getAgentConfig } from "../utils/api-keys";
 import { flushOpikTraces } from "../utils/opik";
+import { getUserSearchProvider } from "../utils/user-settings";
+import { createSearchProvider, SearchConfigurationError, SearchProvider } from "../search";
 
 const router = Router();
 
+/**
+ * For research, we need an LLM provider for structuring results.
+ * We'll use the userId if provided, otherwise fall back to env.
+ */
+async function getResearchConfig(userId?: string) {
+  const envConfig = {
+    provider: (process.env.DEFAULT_LLM_PROVIDER as "openai" | "anthropic") || "openai",
+    apiKey: process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY || "",
+  };
+
+  try {
+    return userId ? await getAgentConfig(userId) : envConfig;
+  } catch {
+    // Fallback to environment variables
+    return envConfig;
+  }
+}
+
+/**
+ * The user's search provider setting wins over SEARCH_PROVIDER; request keys
+ * override the environment keys.
+ */
+async function getSearchProvider(
+  userId: string | undefined,
+  perplexityApiKey?: string,
+  exaApiKey?: string
+): Promise<SearchProvider> {
+  let provider: string | null = null;
+  if (userId) {
+    try {
+      provider = await getUserSearchProvider(userId);
+    } catch (error) {
+      console.warn("[Research Route] Failed to load user search setting:", error);
+    }
+  }
+
+  return createSearchProvider({ provider, perplexityApiKey, exaApiKey });
+}
+
 router.post("/", async (req: Request, res: Response) => {
   try {
     const {
@@ -24,52 +65,80 @@ router.post("/", async (req: Request, res: Response) => {
       });
     }
 
-    // Get API keys from request or environment
-    const perplexityKey =
-      perplexityApiKey || process.env.PERPLEXITY_API_KEY;
-    const exaKey = exaApiKey || process.env.EXA_API_KEY;
+    const searchProvider = await getSearchProvider(req.body.userId, perplexityApiKey, exaApiKey);
+    const config = await getResearchConfig(req.body.userId);
+    const agent = new ResearchAgent(config, searchProvider);
+
+    const result = await agent.research(thesis, outline, evidenceExpectations);
+
+    await flushOpikTraces();
 
-    if (!perplexityKey && !exaKey) {
+    res.json({
+      sources: result.sources || [],
+      sectionMapping: result.sectionMapping || {},
+      suggestedRevisions: result.suggestedRevisions || {},
+    });
+  } catch (error: any) {
+    console.error("[Research Route] Error:", error);
+    await flushOpikTraces();
+    if (error instanceof SearchConfigurationError) {
       return res.status(400).json({
-        error: {
-          code: "CONFIGURATION_ERROR",
-          message:
-            "Research API keys are not configured. Please set PERPLEXITY_API_KEY or EXA_API_KEY.",
-        },
+        error: { code: "CONFIGURATION_ERROR", message: error.message },
       });
     }
+    res.status(500).json({
+      error: {
+        code: "AGENT_ERROR",
+        message: error.message || "Failed to perform research",
+      },
+    });
+  }
+});
 
-    // For research, we need an LLM provider for structuring results
-    // We'll use the userId if provided, otherwise fall back to env
-    const userId = req.body.userId;
-    let config;
-    try {
-      config = userId ? await getAgentConfig(userId) : {
-        provider: (process.env.DEFAULT_LLM_PROVIDER as "openai" | "anthropic") || "openai",
-        apiKey: process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY || "",
-      };
-    } catch {
-      // Fallback to environment variables
-      config = {
-        provider: (process.env.DEFAULT_LLM_PROVIDER as "openai" | "anthropic") || "openai",
-        apiKey: process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY || "",
-      };
+/**
+ * Supplemental search for "research more". Returns only the new sources; the
+ * caller merges them into the stored research.
+ */
+router.post("/more", async (req: Request, res: Response) => {
+  try {
+    const {
+      thesis,
+      outline,
+      query,
+      sectionNumber,
+      perplexityApiKey,
+      exaApiKey,
+    } = req.body;
+
+    if (!thesis || !outline || !query) {
+      return res.status(400).json({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Missing required fields: thesis, outline, query",
+        },
+      });
     }
 
-    const agent = new ResearchAgent(config, perplexityKey, exaKey);
+    const searchProvider = await getSearchProvider(req.body.userId, perplexityApiKey, exaApiKey);
+    const config = await getResearchConfig(req.body.userId);
+    const agent = new ResearchAgent(config, searchProvider);
 
-    const result = await agent.research(thesis, outline, evidenceExpectations);
+    const result = await agent.researchMore(thesis, outline, query, sectionNumber);
 
     await flushOpikTraces();
 
     res.json({
       sources: result.sources || [],
       sectionMapping: result.sectionMapping || {},
-      suggestedRevisions: result.suggestedRevisions || {},
     });
   } catch (error: any) {
     console.error("[Research Route] Error:", error);
     await flushOpikTraces();
+    if (error instanceof SearchConfigurationError) {
+      return res.status(400).json({
+        error: { code: "CONFIGURATION_ERROR", message: error.message },
+      });
+    }
     res.status(500).json({
       error: {
         code: "AGENT_ERROR",
@@ -7,7 +7,16 @@ const router = Router();
 
 router.post("/", async (req: Request, res: Response) => {
   try {
-    const { blogPostId, userId, idea, blogType, voiceTone, selectedThesisOption } = req.body;
+    const {
+      blogPostId,
+      userId,
+      idea,
+      blogType,
+      voiceTone,
+      selectedThesisOption,
+      outlineTemplate,
+      preferredSourceTypes,
+    } = req.body;
 
     if (!blogPostId || !userId || !idea || !blogType || !voiceTone) {
       return res.status(400).json({
@@ -25,7 +34,8 @@ router.post("/", async (req: Request, res: Response) => {
       idea,
       blogType,
       voiceTone,
-      selectedThesisOption
+      selectedThesisOption,
+      { outlineTemplate, preferredSourceTypes }
     );
 
     await flushOpikTraces();
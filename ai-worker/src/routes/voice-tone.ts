@@ -1,5 +1,10 @@
 import { Router, Request, Response } from "express";
 import { getVoiceToneOptionsForBlogType } from "../data/voice-tone-presets";
+import { VoiceToneAgent } from "../agents/voice-tone-agent";
+import { getAgentConfig } from "../utils/api-keys";
+import { flushOpikTraces } from "../utils/opik";
+import { computeTextMetrics } from "../utils/text-metrics";
+import { buildVoiceScore } from "../utils/voice-score";
 
 const router = Router();
 
@@ -39,5 +44,103 @@ router.post("/", async (req: Request, res: Response) => {
   }
 });
 
+const MAX_SAMPLES = 10;
+// Below this the metrics and traits are too noisy to describe a voice
+const MIN_SAMPLE_WORDS = 300;
+
+/**
+ * Learn a voice from writing samples: measured metrics plus LLM-extracted
+ * style traits, in the shape of a preset's style
+ */
+router.post("/learn", async (req: Request, res: Response) => {
+  try {
+    const { userId, samples } = req.body;
+
+    if (!userId || !Array.isArray(samples) || samples.some((sample: any) => typeof sample !== "string")) {
+      return res.status(400).json({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Missing required fields: userId, samples (array of strings)",
+        },
+      });
+    }
+
+    const cleanSamples = samples.map((sample: string) => sample.trim()).filter(Boolean);
+    if (cleanSamples.length === 0 || cleanSamples.length > MAX_SAMPLES) {
+      return res.status(400).json({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: `Provide between 1 and ${MAX_SAMPLES} writing samples`,
+        },
+      });
+    }
+
+    const metrics = computeTextMetrics(cleanSamples);
+    if (metrics.wordCount < MIN_SAMPLE_WORDS) {
+      return res.status(400).json({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: `Samples are too short to learn a voice from (${metrics.wordCount} words, at least ${MIN_SAMPLE_WORDS} needed)`,
+        },
+      });
+    }
+
+    const config = await getAgentConfig(userId);
+    const agent = new VoiceToneAgent(config);
+
+    const profile = await agent.learnFromSamples(cleanSamples, metrics);
+
+    await flushOpikTraces();
+
+    res.json({ metrics, profile });
+  } catch (error: any) {
+    console.error("[VoiceTone Route] Learn error:", error);
+    await flushOpikTraces();
+    res.status(500).json({
+      error: {
+        code: "AGENT_ERROR",
+        message: error.message || "Failed to learn voice from samples",
+      },
+    });
+  }
+});
+
+/**
+ * Score how well a draft matches a voice: an LLM judge per dimension, plus
+ * measured metrics compared against the voice's own when it has them
+ */
+router.post("/score", async (req: Request, res: Response) => {
+  try {
+    const { userId, content, voiceTone, styleGuidelines } = req.body;
+
+    if (!userId || !content || !styleGuidelines) {
+      return res.status(400).json({
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Missing required fields: userId, content, styleGuidelines",
+        },
+      });
+    }
+
+    const config = await getAgentConfig(userId);
+    const agent = new VoiceToneAgent(config);
+
+    const judged = await agent.judgeConformance(content, voiceTone, styleGuidelines, computeTextMetrics([content]));
+
+    await flushOpikTraces();
+
+    res.json(buildVoiceScore(content, styleGuidelines, judged));
+  } catch (error: any) {
+    console.error("[VoiceTone Route] Score error:", error);
+    await flushOpikTraces();
+    res.status(500).json({
+      error: {
+        code: "AGENT_ERROR",
+        message: error.message || "Failed to score voice",
+      },
+    });
+  }
+});
+
 export { router as voiceToneRoutes };
 
@@ -0,0 +1,38 @@
+import { SearchCitation, SearchProvider } from "./types";
+
+export class ExaSearchProvider implements SearchProvider {
+  readonly name = "exa";
+
+  constructor(private apiKey: string) {}
+
+  async search(query: string): Promise<SearchCitation[]> {
+    const response = await fetch("https://api.exa.ai/search", {
+      method: "POST",
+      headers: {
+        "x-api-key": this.apiKey,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        query,
+        num_results: 10,
+        contents: {
+          text: true,
+          highlights: true,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Exa API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data: any = await response.json();
+
+    return (Array.isArray(data.results) ? data.results : []).map((result: any) => ({
+      title: result.title || "",
+      url: result.url || "",
+      snippet: result.highlights?.join(" ") || result.text?.substring(0, 500) || "",
+      date: result.publishedDate || "",
+    }));
+  }
+}
@@ -0,0 +1,27 @@
+import { SearchCitation, SearchProvider } from "./types";
+
+/**
+ * Tries each provider in order and returns the first successful response
+ */
+export class FallbackSearchProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(private providers: SearchProvider[]) {
+    this.name = providers.map((provider) => provider.name).join("+");
+  }
+
+  async search(query: string): Promise<SearchCitation[]> {
+    let lastError: unknown;
+
+    for (const provider of this.providers) {
+      try {
+        return await provider.search(query);
+      } catch (error) {
+        console.error(`[FallbackSearchProvider] ${provider.name} search failed:`, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+}
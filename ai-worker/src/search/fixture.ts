@@ -0,0 +1,55 @@
+import { createHash } from "crypto";
+import { readFile, writeFile, mkdir } from "fs/promises";
+import path from "path";
+import { SearchCitation, SearchProvider } from "./types";
+
+// Replayed when no recording exists for a query
+const DEFAULT_FIXTURE = "_default.json";
+
+/**
+ * Replays recorded search responses from disk so research can run offline.
+ * Each query maps to <dir>/<hash>.json ({ query, citations }). When a
+ * recorder is given, missing queries are searched live and written to disk.
+ */
+export class FixtureSearchProvider implements SearchProvider {
+  readonly name = "fixture";
+
+  constructor(private dir: string, private recorder?: SearchProvider) {}
+
+  static fixtureName(query: string): string {
+    const hash = createHash("sha256").update(query.trim().toLowerCase()).digest("hex");
+    return `${hash.slice(0, 16)}.json`;
+  }
+
+  private async read(file: string): Promise<SearchCitation[] | null> {
+    try {
+      const data = JSON.parse(await readFile(path.join(this.dir, file), "utf-8"));
+      return Array.isArray(data.citations) ? data.citations : [];
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw new Error(`Failed to read search fixture ${file}: ${error.message}`);
+    }
+  }
+
+  async search(query: string): Promise<SearchCitation[]> {
+    const file = FixtureSearchProvider.fixtureName(query);
+    const recorded = await this.read(file);
+    if (recorded) {
+      return recorded;
+    }
+
+    if (this.recorder) {
+      const citations = await this.recorder.search(query);
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(
+        path.join(this.dir, file),
+        JSON.stringify({ query, provider: this.recorder.name, citations }, null, 2)
+      );
+      console.log(`[FixtureSearchProvider] Recorded ${citations.length} citations to ${file}`);
+      return citations;
+    }
+
+    console.warn(`[FixtureSearchProvider] No fixture for query, replaying ${DEFAULT_FIXTURE}:`, query.substring(0, 100));
+    return (await this.read(DEFAULT_FIXTURE)) || [];
+  }
+}
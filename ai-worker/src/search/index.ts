@@ -0,0 +1,73 @@
+import path from "path";
+import { SearchProvider, SearchProviderName } from "./types";
+import { PerplexitySearchProvider } from "./perplexity";
+import { ExaSearchProvider } from "./exa";
+import { FixtureSearchProvider } from "./fixture";
+import { FallbackSearchProvider } from "./fallback";
+
+export * from "./types";
+export { PerplexitySearchProvider, ExaSearchProvider, FixtureSearchProvider, FallbackSearchProvider };
+
+export const SEARCH_PROVIDERS: SearchProviderName[] = ["perplexity", "exa", "fixture"];
+
+export class SearchConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchConfigurationError";
+  }
+}
+
+export interface SearchProviderOptions {
+  // Explicit choice (e.g. the user's setting); otherwise SEARCH_PROVIDER, then whichever key is set
+  provider?: string | null;
+  perplexityApiKey?: string;
+  exaApiKey?: string;
+}
+
+/**
+ * Build the search provider for a research request.
+ *
+ * - perplexity: falls back to Exa when an Exa key is also configured
+ * - fixture: replays recordings from SEARCH_FIXTURES_DIR (default ./fixtures/search);
+ *   set SEARCH_FIXTURE_RECORD=perplexity|exa to record missing queries
+ */
+export function createSearchProvider(options: SearchProviderOptions = {}): SearchProvider {
+  const perplexityKey = options.perplexityApiKey || process.env.PERPLEXITY_API_KEY;
+  const exaKey = options.exaApiKey || process.env.EXA_API_KEY;
+
+  const name = options.provider
+    || process.env.SEARCH_PROVIDER
+    || (perplexityKey ? "perplexity" : exaKey ? "exa" : undefined);
+
+  switch (name) {
+    case "perplexity": {
+      if (!perplexityKey) {
+        throw new SearchConfigurationError("Perplexity search is selected but PERPLEXITY_API_KEY is not configured.");
+      }
+      const perplexity = new PerplexitySearchProvider(perplexityKey);
+      return exaKey
+        ? new FallbackSearchProvider([perplexity, new ExaSearchProvider(exaKey)])
+        : perplexity;
+    }
+    case "exa": {
+      if (!exaKey) {
+        throw new SearchConfigurationError("Exa search is selected but EXA_API_KEY is not configured.");
+      }
+      return new ExaSearchProvider(exaKey);
+    }
+    case "fixture": {
+      const dir = process.env.SEARCH_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "search");
+      const recordWith = process.env.SEARCH_FIXTURE_RECORD;
+      const recorder = recordWith
+        ? createSearchProvider({ ...options, provider: recordWith })
+        : undefined;
+      return new FixtureSearchProvider(dir, recorder);
+    }
+    case undefined:
+      throw new SearchConfigurationError(
+        "Research API keys are not configured. Please set PERPLEXITY_API_KEY or EXA_API_KEY."
+      );
+    default:
+      throw new SearchConfigurationError(`Unknown search provider: ${name}`);
+  }
+}
@@ -0,0 +1,58 @@
+import { SearchCitation, SearchProvider } from "./types";
+
+export class PerplexitySearchProvider implements SearchProvider {
+  readonly name = "perplexity";
+
+  constructor(private apiKey: string) {}
+
+  async search(query: string): Promise<SearchCitation[]> {
+    const response = await fetch("https://api.perplexity.ai/chat/completions", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: "sonar",
+        messages: [
+          {
+            role: "system",
+            content: "You are a research assistant. Provide citations and sources.",
+          },
+          {
+            role: "user",
+            content: query,
+          },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Perplexity API error: ${response.status} - ${errorText}`);
+    }
+
+    const data: any = await response.json();
+
+    // search_results carries titles and snippets; citations is a bare URL list
+    if (Array.isArray(data.search_results) && data.search_results.length > 0) {
+      return data.search_results.map((result: any) => ({
+        title: result.title || "",
+        url: result.url || "",
+        snippet: result.snippet || "",
+        date: result.date || "",
+      }));
+    }
+
+    if (Array.isArray(data.citations) && data.citations.length > 0) {
+      return data.citations.map((url: string) => ({
+        title: "",
+        url,
+        snippet: "",
+      }));
+    }
+
+    console.warn("[PerplexitySearchProvider] No citations or search_results found in response");
+    return [];
+  }
+}
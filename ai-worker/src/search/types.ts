@@ -0,0 +1,17 @@
+export type SearchProviderName = "perplexity" | "exa" | "fixture";
+
+export interface SearchCitation {
+  title: string;
+  url: string;
+  snippet: string;
+  date?: string;
+}
+
+/**
+ * A web search backend for research. Implementations throw on API failures;
+ * callers decide whether to fall back or continue with no results.
+ */
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string): Promise<SearchCitation[]>;
+}
@@ -0,0 +1,183 @@
+import { fetchPage, keywords } from "./content-fetcher";
+import { mapWithConcurrency } from "./concurrency";
+import { normalizeUrl } from "./url";
+
+const FETCH_CONCURRENCY = 4;
+// Share of the sentence's terms that must appear in one passage of the source
+const SUPPORT_THRESHOLD = 0.5;
+const MAX_EVIDENCE_LENGTH = 400;
+
+export type CitationStatus = "verified" | "unsupported" | "not_in_research" | "unreachable";
+
+export interface CitationCheck {
+  text: string;
+  url: string;
+  sentence: string;
+  sourceId: string | null;
+  status: CitationStatus;
+  matchScore: number;
+  evidence?: string;
+  note?: string;
+}
+
+export interface CitationReport {
+  checkedAt: string;
+  summary: Record<CitationStatus, number> & { total: number };
+  citations: CitationCheck[];
+}
+
+interface ExtractedCitation {
+  text: string;
+  url: string;
+  sentence: string;
+}
+
+const LINK_PATTERN = /(!?)\[([^\]]+)\]\(\s*<?(https?:\/\/[^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`>#]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Every markdown link in the content (images excluded) with the sentence it
+ * appears in
+ */
+export function extractCitations(markdown: string): ExtractedCitation[] {
+  const citations: ExtractedCitation[] = [];
+
+  for (const match of Array.from(markdown.matchAll(LINK_PATTERN))) {
+    if (match[1] === "!") continue;
+
+    const start = match.index!;
+    const end = start + match[0].length;
+
+    // Sentence bounds: nearest terminator or line break on either side
+    const before = markdown.slice(0, start);
+    const sentenceStart = Math.max(
+      before.lastIndexOf("\n") + 1,
+      ...[". ", "! ", "? "].map((t) => {
+        const i = before.lastIndexOf(t);
+        return i === -1 ? 0 : i + 2;
+      })
+    );
+    const after = markdown.slice(end);
+    const endMatch = /[.!?](\s|$)|\n/.exec(after);
+    const sentenceEnd = endMatch ? end + endMatch.index + 1 : markdown.length;
+
+    citations.push({
+      text: match[2],
+      url: match[3],
+      sentence: toPlainText(markdown.slice(sentenceStart, sentenceEnd)),
+    });
+  }
+
+  return citations;
+}
+
+function numbersIn(text: string): string[] {
+  return (text.match(/\d[\d,]*(?:\.\d+)?%?/g) || []).map((n) => n.replace(/,/g, ""));
+}
+
+/**
+ * Compare a cited sentence with the source's passages. The score is the best
+ * share of the sentence's terms found in a single passage (or two adjacent
+ * ones); every number in the sentence must also appear in the source.
+ */
+export function checkClaim(sentence: string, passages: string[]): Pick<CitationCheck, "status" | "matchScore" | "evidence" | "note"> {
+  const terms = keywords(sentence);
+  const windows = passages.flatMap((passage, i) =>
+    i + 1 < passages.length ? [passage, `${passage} ${passages[i + 1]}`] : [passage]
+  );
+
+  let best = { score: 0, text: "" };
+  for (const window of windows) {
+    const lower = window.toLowerCase();
+    const score = terms.length > 0
+      ? terms.filter((term) => lower.includes(term)).length / terms.length
+      : 0;
+    if (score > best.score) best = { score, text: window };
+  }
+
+  const sourceNumbers = new Set(numbersIn(passages.join(" ")));
+  const missingNumbers = numbersIn(sentence).filter((n) => !sourceNumbers.has(n));
+  const matchScore = Math.round(best.score * 100) / 100;
+  const evidence = best.text ? best.text.slice(0, MAX_EVIDENCE_LENGTH) : undefined;
+
+  if (missingNumbers.length > 0) {
+    return { status: "unsupported", matchScore, evidence, note: `Figures not found in source: ${missingNumbers.join(", ")}` };
+  }
+  if (best.score < SUPPORT_THRESHOLD) {
+    return { status: "unsupported", matchScore, evidence, note: "The source text doesn't appear to support this sentence" };
+  }
+  return { status: "verified", matchScore, evidence };
+}
+
+/**
+ * Check every link in the final content against the research set. Sources are
+ * re-fetched for their full text; when that fails the stored excerpts are used.
+ */
+export async function verifyCitations(content: string, sources: any[]): Promise<CitationReport> {
+  const citations = extractCitations(content);
+  const sourcesByUrl = new Map<string, any>(
+    sources.filter((s) => s.url).map((s) => [normalizeUrl(s.url), s])
+  );
+
+  const citedSources = Array.from(new Set(
+    citations
+      .map((c) => sourcesByUrl.get(normalizeUrl(c.url)))
+      .filter(Boolean)
+  ));
+
+  const fetchEnabled = process.env.FETCH_SOURCE_CONTENT !== "false";
+  const passagesBySource = new Map<any, string[]>();
+  await mapWithConcurrency(citedSources, FETCH_CONCURRENCY, async (source: any) => {
+    const stored = [...(source.excerpts || []), ...(source.quotes || []), source.snippet].filter(Boolean);
+    try {
+      const page = fetchEnabled ? await fetchPage(source.url) : null;
+      passagesBySource.set(source, page && page.paragraphs.length > 0 ? page.paragraphs : stored);
+    } catch (error: any) {
+      console.warn(`[CitationVerifier] Could not fetch ${source.url}:`, error?.message || error);
+      passagesBySource.set(source, stored);
+    }
+  });
+
+  const checks: CitationCheck[] = citations.map((citation) => {
+    const source = sourcesByUrl.get(normalizeUrl(citation.url));
+
+    if (!source) {
+      return {
+        ...citation,
+        sourceId: null,
+        status: "not_in_research",
+        matchScore: 0,
+        note: "This URL is not one of the research sources",
+      };
+    }
+
+    const passages = passagesBySource.get(source) || [];
+    if (passages.length === 0) {
+      return {
+        ...citation,
+        sourceId: source.id,
+        status: "unreachable",
+        matchScore: 0,
+        note: "The source could not be fetched and has no stored excerpts",
+      };
+    }
+
+    return { ...citation, sourceId: source.id, ...checkClaim(citation.sentence, passages) };
+  });
+
+  const summary = { total: checks.length, verified: 0, unsupported: 0, not_in_research: 0, unreachable: 0 };
+  for (const check of checks) summary[check.status]++;
+
+  return {
+    checkedAt: new Date().toISOString(),
+    summary,
+    citations: checks,
+  };
+}
@@ -0,0 +1,186 @@
+import { extractParagraphs, extractTitle, extractPublishedDate, detectPaywall } from "./html-text";
+import { assertPublicUrl } from "./public-host";
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 5;
+const MAX_CONTENT_BYTES = 2 * 1024 * 1024;
+const MAX_EXCERPTS = 3;
+const MAX_QUOTES = 3;
+const MAX_EXCERPT_LENGTH = 700;
+
+export interface SourceContent {
+  title: string;
+  excerpts: string[];
+  quotes: string[];
+  publishedDate?: string;
+  paywalled: boolean;
+}
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "that", "with", "this", "from", "are", "was", "were", "have", "has",
+  "you", "your", "our", "their", "its", "into", "about", "what", "when", "how", "why", "which",
+  "will", "can", "not", "but", "all", "more", "than", "they", "them", "these", "those",
+]);
+
+export function keywords(text: string): string[] {
+  return Array.from(new Set(
+    text.toLowerCase()
+      .split(/[^a-z0-9%]+/)
+      .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+  ));
+}
+
+function relevance(text: string, terms: string[]): number {
+  const lower = text.toLowerCase();
+  return terms.reduce((score, term) => score + (lower.includes(term) ? 1 : 0), 0);
+}
+
+function truncate(text: string, length: number): string {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length);
+  const sentenceEnd = cut.lastIndexOf(". ");
+  return (sentenceEnd > length / 2 ? cut.slice(0, sentenceEnd + 1) : cut.trimEnd() + "…");
+}
+
+/**
+ * Pick the paragraphs most related to the search terms as excerpts, and
+ * quotable sentences (direct quotes or statistics) as quotes. Both are verbatim
+ * text from the page.
+ */
+export function selectExcerpts(paragraphs: string[], terms: string[]): Pick<SourceContent, "excerpts" | "quotes"> {
+  const ranked = paragraphs
+    .map((text, index) => ({ text, index, score: relevance(text, terms) }))
+    .filter((p) => p.score > 0 || terms.length === 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const excerpts = ranked
+    .slice(0, MAX_EXCERPTS)
+    .sort((a, b) => a.index - b.index)
+    .map((p) => truncate(p.text, MAX_EXCERPT_LENGTH));
+
+  const quotes = ranked
+    .flatMap((p) => p.text.match(/[^.!?]+[.!?]+/g) || [])
+    .map((sentence) => sentence.trim())
+    .filter((sentence) =>
+      sentence.length >= 40 && sentence.length <= 300 &&
+      (/[“"][^”"]{15,}[”"]/.test(sentence) || /\d/.test(sentence))
+    )
+    .filter((sentence, index, all) => all.indexOf(sentence) === index)
+    .slice(0, MAX_QUOTES);
+
+  return { excerpts, quotes };
+}
+
+export interface FetchedPage {
+  title: string;
+  paragraphs: string[];
+  publishedDate?: string;
+  paywalled: boolean;
+}
+
+/**
+ * Fetch a URL, following redirects by hand so every hop is checked to be a
+ * public host before it is requested
+ */
+async function fetchPublic(url: string): Promise<Response> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let target = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(target);
+
+    const response = await fetch(target, {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (compatible; PrimalMarcResearch/1.0)",
+        "Accept": "text/html,application/xhtml+xml,text/plain;q=0.9",
+      },
+      redirect: "manual",
+      signal,
+    });
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error("Too many redirects");
+    }
+    target = new URL(location, target);
+  }
+}
+
+/**
+ * Read at most `maxBytes` of a response body as text, cancelling the download
+ * there. Content-Length can be missing or wrong, so the bytes are counted.
+ */
+async function readCapped(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = "";
+
+  try {
+    while (received < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      const chunk = value.subarray(0, maxBytes - received);
+      received += chunk.length;
+      text += decoder.decode(chunk, { stream: true });
+    }
+    return text + decoder.decode();
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Download a page and extract its readable paragraphs. Only public hosts are
+ * fetched. Throws on network errors, non-2xx responses and non-text content.
+ */
+export async function fetchPage(url: string): Promise<FetchedPage> {
+  const response = await fetchPublic(url);
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const contentType = response.headers.get("content-type") || "";
+  if (!/text\/html|application\/xhtml|text\/plain/.test(contentType)) {
+    throw new Error(`Unsupported content type: ${contentType || "unknown"}`);
+  }
+
+  const contentLength = Number(response.headers.get("content-length") || 0);
+  if (contentLength > MAX_CONTENT_BYTES) {
+    throw new Error(`Page too large: ${contentLength} bytes`);
+  }
+
+  const body = await readCapped(response, MAX_CONTENT_BYTES);
+
+  if (contentType.includes("text/plain")) {
+    return {
+      title: "",
+      paragraphs: body.split(/\n\s*\n/).map((p) => p.replace(/\s+/g, " ").trim()).filter((p) => p.length >= 40),
+      paywalled: false,
+    };
+  }
+
+  return {
+    title: extractTitle(body),
+    paragraphs: extractParagraphs(body),
+    publishedDate: extractPublishedDate(body),
+    paywalled: detectPaywall(body),
+  };
+}
+
+/**
+ * Download a source page and extract excerpts relevant to the search terms
+ */
+export async function fetchSourceContent(url: string, terms: string[]): Promise<SourceContent> {
+  const { paragraphs, ...page } = await fetchPage(url);
+  return { ...page, ...selectExcerpts(paragraphs, terms) };
+}
@@ -0,0 +1,93 @@
+/**
+ * Dependency-free readable-text extraction from HTML. Good enough for grounding
+ * excerpts: drops scripts and page chrome, prefers <article>/<main>, and keeps
+ * paragraph breaks.
+ */
+
+// Elements whose content is never part of the readable text
+const BOILERPLATE_TAGS = [
+  "script", "style", "noscript", "template", "svg", "iframe", "form",
+  "nav", "header", "footer", "aside", "button", "select",
+];
+
+const BLOCK_TAGS = /<\/?(p|div|section|article|main|h[1-6]|li|ul|ol|blockquote|pre|table|tr|td|th|br|hr|figure|figcaption|dd|dt)\b[^>]*>/gi;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ",
+  mdash: "—", ndash: "–", hellip: "…", rsquo: "’", lsquo: "‘", rdquo: "”", ldquo: "“",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function innerOf(html: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, "i").exec(html);
+  return match ? match[1] : null;
+}
+
+export function extractTitle(html: string): string {
+  const title = innerOf(html, "title");
+  return title ? decodeEntities(title).replace(/\s+/g, " ").trim() : "";
+}
+
+/**
+ * Publication date from common article metadata (Open Graph, schema.org, <time>)
+ */
+export function extractPublishedDate(html: string): string | undefined {
+  const patterns = [
+    /<meta[^>]+(?:property|name|itemprop)=["'](?:article:published_time|datePublished|date|dc\.date|pubdate)["'][^>]*content=["']([^"']+)["']/i,
+    /<meta[^>]+content=["']([^"']+)["'][^>]*(?:property|name|itemprop)=["'](?:article:published_time|datePublished|date|dc\.date|pubdate)["']/i,
+    /"datePublished"\s*:\s*"([^"]+)"/i,
+    /<time[^>]+datetime=["']([^"']+)["']/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = pattern.exec(html);
+    if (match && !Number.isNaN(Date.parse(match[1]))) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether the page declares or shows a paywall
+ */
+export function detectPaywall(html: string): boolean {
+  return /"isAccessibleForFree"\s*:\s*"?false"?/i.test(html)
+    || /class=["'][^"']*\b(paywall|subscriber-only|premium-content)\b/i.test(html)
+    || /subscribe (now )?to (continue|keep) reading/i.test(html);
+}
+
+/**
+ * Readable paragraphs of an HTML page. Lines too short to be prose (menus,
+ * bylines, share links) are dropped.
+ */
+export function extractParagraphs(html: string, minLength = 40): string[] {
+  let body = html.replace(/<!--[\s\S]*?-->/g, "");
+  for (const tag of BOILERPLATE_TAGS) {
+    body = body.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}>`, "gi"), " ");
+  }
+
+  body = innerOf(body, "article") || innerOf(body, "main") || innerOf(body, "body") || body;
+
+  const text = decodeEntities(
+    body
+      .replace(BLOCK_TAGS, "\n")
+      .replace(/<[^>]+>/g, " ")
+  );
+
+  return text
+    .split(/\n+/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line) => line.length >= minLength);
+}
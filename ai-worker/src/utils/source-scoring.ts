@@ -0,0 +1,184 @@
+import { readFileSync } from "fs";
+import { DEFAULT_DOMAIN_REPUTATION, DomainReputation } from "../data/domain-reputation";
+import { normalizeUrl } from "./url";
+
+// Used when a dimension can't be judged: unlisted domain, unknown date, no terms
+const NEUTRAL_SCORE = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weights for the overall quality score
+const QUALITY_WEIGHTS = {
+  authority: 0.35,
+  relevance: 0.3,
+  credibility: 0.2,
+  recency: 0.15,
+};
+
+export interface SourceScores {
+  qualityScore: number;
+  authority: number;
+  relevance: number;
+  recency: number;
+  credibility: number;
+  paywalled: boolean;
+  duplicateOf?: string;
+}
+
+let reputation: DomainReputation | null = null;
+
+/**
+ * The default reputation list, with DOMAIN_REPUTATION_FILE (JSON with the same
+ * shape) merged on top when set
+ */
+export function getDomainReputation(): DomainReputation {
+  if (reputation) return reputation;
+
+  reputation = DEFAULT_DOMAIN_REPUTATION;
+  const file = process.env.DOMAIN_REPUTATION_FILE;
+  if (file) {
+    try {
+      const custom = JSON.parse(readFileSync(file, "utf-8"));
+      reputation = {
+        authority: { ...DEFAULT_DOMAIN_REPUTATION.authority, ...(custom.authority || {}) },
+        paywalled: Array.from(new Set([...DEFAULT_DOMAIN_REPUTATION.paywalled, ...(custom.paywalled || [])])),
+      };
+    } catch (error) {
+      console.error(`[SourceScoring] Failed to load ${file}, using defaults:`, error);
+    }
+  }
+
+  return reputation;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+function matchesDomain(host: string, key: string): boolean {
+  return key.startsWith(".")
+    ? host.endsWith(key)
+    : host === key || host.endsWith(`.${key}`);
+}
+
+function clamp(score: number): number {
+  return Math.min(5, Math.max(1, Math.round(score)));
+}
+
+export function scoreAuthority(url: string, domains = getDomainReputation()): number {
+  const host = hostOf(url);
+  const key = Object.keys(domains.authority)
+    .filter((k) => matchesDomain(host, k))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return key ? domains.authority[key] : NEUTRAL_SCORE;
+}
+
+/**
+ * 5 within a year of `now`, stepping down to 1 for material over eight years old
+ */
+export function scoreRecency(publishedDate: string | undefined, now: Date): number {
+  const published = publishedDate ? Date.parse(publishedDate) : NaN;
+  if (Number.isNaN(published)) return NEUTRAL_SCORE;
+
+  const ageYears = (now.getTime() - published) / (365 * DAY_MS);
+  if (ageYears <= 1) return 5;
+  if (ageYears <= 2) return 4;
+  if (ageYears <= 4) return 3;
+  if (ageYears <= 8) return 2;
+  return 1;
+}
+
+/**
+ * Share of the section's search terms that appear in the source's title,
+ * snippet and excerpts, mapped onto 1-5
+ */
+export function scoreRelevance(source: any, terms: string[]): number {
+  if (terms.length === 0) return NEUTRAL_SCORE;
+
+  const text = [source.title, source.snippet, ...(source.excerpts || [])]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  const matched = terms.filter((term) => text.includes(term)).length;
+
+  return clamp(1 + 4 * Math.min(1, matched / Math.min(terms.length, 8)));
+}
+
+/**
+ * Starts from neutral and rewards verifiable sources: a known published date
+ * and readable content. Paywalls and low-authority domains count against it.
+ */
+export function scoreCredibility(source: any, authority: number, paywalled: boolean): number {
+  let score = NEUTRAL_SCORE;
+  if (source.publishedDate) score += 1;
+  if (source.contentFetchedAt && (source.excerpts || []).length > 0) score += 1;
+  if (paywalled) score -= 1;
+  if (authority <= 1) score -= 1;
+  return clamp(score);
+}
+
+export function isPaywalled(source: any, domains = getDomainReputation()): boolean {
+  if (source.paywalled) return true;
+  const host = hostOf(source.url || "");
+  return domains.paywalled.some((domain) => matchesDomain(host, domain));
+}
+
+function normalizeTitle(title: string): string {
+  return (title || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Score every source. Scores depend only on the source fields, its terms and
+ * `now`, so the same research always produces the same numbers. Sources with
+ * the same URL or the same title as an earlier source are flagged with
+ * duplicateOf.
+ */
+export function scoreSources(
+  sources: any[],
+  termsFor: (source: any) => string[],
+  now: Date
+): (any & SourceScores)[] {
+  const seenUrls = new Map<string, string>();
+  const seenTitles = new Map<string, string>();
+
+  return sources.map((source) => {
+    const authority = scoreAuthority(source.url || "");
+    const recency = scoreRecency(source.publishedDate, now);
+    const relevance = scoreRelevance(source, termsFor(source));
+    const paywalled = isPaywalled(source);
+    const credibility = scoreCredibility(source, authority, paywalled);
+
+    const qualityScore = Math.round((
+      authority * QUALITY_WEIGHTS.authority +
+      relevance * QUALITY_WEIGHTS.relevance +
+      credibility * QUALITY_WEIGHTS.credibility +
+      recency * QUALITY_WEIGHTS.recency
+    ) * 10) / 10;
+
+    const urlKey = source.url ? normalizeUrl(source.url) : "";
+    const titleKey = normalizeTitle(source.title);
+    const duplicateOf = (urlKey && seenUrls.get(urlKey))
+      || (titleKey.length > 10 ? seenTitles.get(titleKey) : undefined);
+
+    if (urlKey && !seenUrls.has(urlKey)) seenUrls.set(urlKey, source.id);
+    if (titleKey && !seenTitles.has(titleKey)) seenTitles.set(titleKey, source.id);
+
+    const { duplicateOf: _previous, ...rest } = source;
+
+    return {
+      ...rest,
+      qualityScore,
+      authority,
+      relevance,
+      recency,
+      credibility,
+      paywalled,
+      ...(duplicateOf ? { duplicateOf } : {}),
+    };
+  });
+}
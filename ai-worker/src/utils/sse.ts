@@ -0,0 +1,20 @@
+import { Response } from "express";
+
+/**
+ * Prepare an Express response for Server-Sent Events
+ */
+export function initSSE(res: Response): void {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+}
+
+/**
+ * Write a single SSE event with a JSON payload
+ */
+export function sendSSE(res: Response, event: string, data: any): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
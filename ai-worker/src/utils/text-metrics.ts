@@ -0,0 +1,113 @@
+/**
+ * Measurable, deterministic traits of a piece of writing. Used to describe a
+ * voice learned from samples alongside the LLM's qualitative traits.
+ */
+
+export interface TextMetrics {
+  sampleCount: number;
+  wordCount: number;
+  avgSentenceLength: number; // words per sentence
+  sentenceLengthStdDev: number;
+  avgParagraphLength: number; // sentences per paragraph
+  avgWordLength: number; // characters per word
+  readingGrade: number; // Flesch-Kincaid grade level
+  readingEase: number; // Flesch reading ease, 0-100 (higher is easier)
+  firstPersonRate: number; // first-person pronouns per 100 words
+  secondPersonRate: number; // "you" forms per 100 words
+  contractionRate: number; // contractions per 100 words
+  questionRate: number; // share of sentences that are questions, 0-1
+  exclamationRate: number; // share of sentences that end with "!", 0-1
+}
+
+const FIRST_PERSON = new Set(["i", "me", "my", "mine", "myself", "we", "us", "our", "ours", "ourselves"]);
+const SECOND_PERSON = new Set(["you", "your", "yours", "yourself", "yourselves"]);
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Markdown down to prose: code, links, images, emphasis and heading markers go;
+ * headings, list items and table rows are dropped since they aren't sentences.
+ */
+export function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, "\n")
+    .replace(/`[^`]*`/g, "code")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/\[\^[^\]]+\]/g, "")
+    .replace(/^\s{0,3}(#{1,6}\s.*|\|.*\||[-*_]{3,})\s*$/gm, "")
+    .replace(/^\s*([-*+]|\d+\.)\s+/gm, "")
+    .replace(/^\s*>\s?/gm, "")
+    .replace(/(\*\*|__|\*|_|~~)/g, "")
+    .replace(/<[^>]+>/g, " ");
+}
+
+export function splitParagraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map((paragraph) => paragraph.replace(/\s+/g, " ").trim()).filter(Boolean);
+}
+
+export function splitSentences(paragraph: string): string[] {
+  return (paragraph.match(/[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)/g) || [])
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => /[a-z0-9]/i.test(sentence));
+}
+
+function words(text: string): string[] {
+  return text.match(/[a-z0-9]+(?:['’][a-z]+)*/gi) || [];
+}
+
+/**
+ * Syllable estimate by vowel groups, good enough for readability formulas
+ */
+export function countSyllables(word: string): number {
+  const lower = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (lower.length <= 3) return 1;
+
+  const trimmed = lower.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "");
+  const groups = trimmed.match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups ? groups.length : 1);
+}
+
+/**
+ * Metrics over all samples together, so longer samples weigh more
+ */
+export function computeTextMetrics(samples: string[]): TextMetrics {
+  const paragraphs = samples.flatMap((sample) => splitParagraphs(stripMarkdown(sample)));
+  const sentencesPerParagraph = paragraphs.map((paragraph) => splitSentences(paragraph));
+  const sentences = sentencesPerParagraph.flat();
+  const sentenceLengths = sentences.map((sentence) => words(sentence).length).filter((n) => n > 0);
+  const allWords = sentences.flatMap(words);
+
+  const wordCount = allWords.length;
+  const sentenceCount = Math.max(1, sentenceLengths.length);
+  const per100 = (count: number) => (wordCount > 0 ? (count / wordCount) * 100 : 0);
+
+  const avgSentenceLength = wordCount / sentenceCount;
+  const variance = sentenceLengths.reduce((sum, n) => sum + (n - avgSentenceLength) ** 2, 0) / sentenceCount;
+  const syllables = allWords.reduce((sum, word) => sum + countSyllables(word), 0);
+  const syllablesPerWord = wordCount > 0 ? syllables / wordCount : 0;
+
+  const lowerWords = allWords.map((word) => word.toLowerCase().replace(/’/g, "'"));
+  const firstPerson = lowerWords.filter((word) => FIRST_PERSON.has(word.split("'")[0])).length;
+  const secondPerson = lowerWords.filter((word) => SECOND_PERSON.has(word.split("'")[0])).length;
+  const contractions = lowerWords.filter((word) => word.includes("'") && !word.endsWith("'s")).length;
+
+  return {
+    sampleCount: samples.length,
+    wordCount,
+    avgSentenceLength: round(avgSentenceLength),
+    sentenceLengthStdDev: round(Math.sqrt(variance)),
+    avgParagraphLength: round(sentences.length / Math.max(1, sentencesPerParagraph.filter((s) => s.length > 0).length)),
+    avgWordLength: round(allWords.reduce((sum, word) => sum + word.length, 0) / Math.max(1, wordCount), 2),
+    readingGrade: round(0.39 * avgSentenceLength + 11.8 * syllablesPerWord - 15.59),
+    readingEase: round(Math.min(100, Math.max(0, 206.835 - 1.015 * avgSentenceLength - 84.6 * syllablesPerWord))),
+    firstPersonRate: round(per100(firstPerson), 2),
+    secondPersonRate: round(per100(secondPerson), 2),
+    contractionRate: round(per100(contractions), 2),
+    questionRate: round(sentences.filter((s) => /\?["'”’)\]]*$/.test(s)).length / sentenceCount, 3),
+    exclamationRate: round(sentences.filter((s) => /!["'”’)\]]*$/.test(s)).length / sentenceCount, 3),
+  };
+}
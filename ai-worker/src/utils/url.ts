@@ -0,0 +1,23 @@
+/**
+ * Canonical form of a source URL for de-duplication: lowercased host without
+ * "www.", no fragment, no tracking parameters, no trailing slash.
+ * Kept in sync with normalizeUrl in lib/workflow/research.ts.
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    const params = new URLSearchParams(parsed.search);
+    Array.from(params.keys())
+      .filter((key) => key.startsWith("utm_") || key === "ref" || key === "fbclid" || key === "gclid")
+      .forEach((key) => params.delete(key));
+    params.sort();
+
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+    const path = parsed.pathname.replace(/\/+$/, "");
+    const query = params.toString();
+
+    return `${host}${path}${query ? `?${query}` : ""}`;
+  } catch {
+    return url.trim().toLowerCase().replace(/\/+$/, "");
+  }
+}
@@ -0,0 +1,16 @@
+import { db } from "../db";
+import { userSettings } from "../db/schema";
+import { eq } from "drizzle-orm";
+
+/**
+ * Get the user's preferred search provider, or null to use the server default
+ */
+export async function getUserSearchProvider(userId: string): Promise<string | null> {
+  const [settings] = await db
+    .select()
+    .from(userSettings)
+    .where(eq(userSettings.userId, userId))
+    .limit(1);
+
+  return settings?.searchProvider || null;
+}
@@ -0,0 +1,145 @@
+import { computeTextMetrics, splitParagraphs, splitSentences, stripMarkdown, TextMetrics } from "./text-metrics";
+
+export type VoiceDimension = "writingStyle" | "formality" | "emotionalPosture" | "rules" | "metrics";
+
+export interface DimensionScore {
+  dimension: VoiceDimension;
+  score: number; // 0-100
+  notes: string;
+}
+
+export interface MetricComparison {
+  metric: keyof TextMetrics;
+  actual: number;
+  target: number;
+  score: number; // 0-100
+}
+
+export interface FlaggedPassage {
+  excerpt: string;
+  dimension: VoiceDimension;
+  issue: string;
+  suggestion?: string;
+}
+
+export interface VoiceScore {
+  scoredAt: string;
+  overall: number;
+  dimensions: DimensionScore[];
+  metrics: TextMetrics;
+  // Only when the voice has target metrics, i.e. a learned profile
+  comparisons: MetricComparison[] | null;
+  flaggedPassages: FlaggedPassage[];
+}
+
+// How far from the target a metric can drift before it scores 0
+const METRIC_TOLERANCES: Partial<Record<keyof TextMetrics, number>> = {
+  avgSentenceLength: 8,
+  readingGrade: 4,
+  firstPersonRate: 3,
+  secondPersonRate: 3,
+  contractionRate: 2,
+  questionRate: 0.15,
+};
+
+// A sentence this many standard deviations above the target average is flagged
+const LONG_SENTENCE_DEVIATIONS = 2;
+const MAX_METRIC_FLAGS = 5;
+const MAX_EXCERPT_LENGTH = 300;
+
+function excerpt(text: string): string {
+  return text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH - 3)}...` : text;
+}
+
+export function isTextMetrics(value: any): value is TextMetrics {
+  return !!value && typeof value === "object"
+    && Object.keys(METRIC_TOLERANCES).every((key) => typeof value[key] === "number");
+}
+
+/**
+ * Score each measured metric by its distance from the target, linearly down
+ * to 0 at the metric's tolerance
+ */
+export function compareMetrics(actual: TextMetrics, target: TextMetrics): MetricComparison[] {
+  return (Object.entries(METRIC_TOLERANCES) as [keyof TextMetrics, number][]).map(([metric, tolerance]) => {
+    const distance = Math.abs(actual[metric] - target[metric]);
+    return {
+      metric,
+      actual: actual[metric],
+      target: target[metric],
+      score: Math.round(Math.max(0, 100 * (1 - distance / tolerance))),
+    };
+  });
+}
+
+/**
+ * Sentences far longer than the author usually writes. Rhythm drift like this
+ * is easy to measure and easy for a judge to miss.
+ */
+export function flagLongSentences(content: string, target: TextMetrics): FlaggedPassage[] {
+  const limit = Math.max(
+    target.avgSentenceLength * 1.5,
+    target.avgSentenceLength + LONG_SENTENCE_DEVIATIONS * target.sentenceLengthStdDev
+  );
+
+  return splitParagraphs(stripMarkdown(content))
+    .flatMap(splitSentences)
+    .map((sentence) => ({ sentence, length: sentence.split(/\s+/).length }))
+    .filter(({ length }) => length > limit)
+    .sort((a, b) => b.length - a.length)
+    .slice(0, MAX_METRIC_FLAGS)
+    .map(({ sentence, length }) => ({
+      excerpt: excerpt(sentence),
+      dimension: "metrics" as const,
+      issue: `${length}-word sentence; this voice averages ${target.avgSentenceLength} words`,
+      suggestion: "Split it or cut it down",
+    }));
+}
+
+/**
+ * Combine the judge's dimensions with the measured metrics. The metrics
+ * dimension only exists when the style guidelines carry target metrics.
+ */
+export function buildVoiceScore(
+  content: string,
+  styleGuidelines: any,
+  judged: { dimensions: DimensionScore[]; flaggedPassages: FlaggedPassage[] }
+): VoiceScore {
+  const metrics = computeTextMetrics([content]);
+  const target = isTextMetrics(styleGuidelines?.metrics) ? styleGuidelines.metrics : null;
+
+  const dimensions = judged.dimensions.map((dimension) => ({
+    ...dimension,
+    score: Math.round(Math.min(100, Math.max(0, dimension.score))),
+  }));
+  const flaggedPassages = judged.flaggedPassages.map((passage) => ({ ...passage, excerpt: excerpt(passage.excerpt) }));
+  let comparisons: MetricComparison[] | null = null;
+
+  if (target) {
+    comparisons = compareMetrics(metrics, target);
+    const score = Math.round(comparisons.reduce((sum, c) => sum + c.score, 0) / comparisons.length);
+    const drifting = comparisons.filter((c) => c.score < 50).map((c) => c.metric);
+
+    dimensions.push({
+      dimension: "metrics",
+      score,
+      notes: drifting.length > 0
+        ? `Furthest from the learned voice: ${drifting.join(", ")}`
+        : "Close to the learned voice's measured metrics",
+    });
+    flaggedPassages.push(...flagLongSentences(content, target));
+  }
+
+  const overall = dimensions.length > 0
+    ? Math.round(dimensions.reduce((sum, d) => sum + d.score, 0) / dimensions.length)
+    : 0;
+
+  return {
+    scoredAt: new Date().toISOString(),
+    overall,
+    dimensions,
+    metrics,
+    comparisons,
+    flaggedPassages,
+  };
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser, getOwnedBlogPost } from "@/lib/auth/ownership";
+import { getJob, resumeJob } from "@/lib/workflow/jobs";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const access = await requireUser();
+    if ("error" in access) return access.error;
+
+    const job = await getJob(params.jobId);
+
+    // Jobs for other users' posts are reported as missing
+    if (!job || !(await getOwnedBlogPost(access.user.id, job.blogPostId))) {
+      return NextResponse.json(
+        { error: { code: "JOB_NOT_FOUND", message: "Job not found" } },
+        { status: 404 }
+      );
+    }
+
+    // Polling doubles as the recovery path for jobs whose runner was recycled
+    resumeJob(job);
+
+    return NextResponse.json(job);
+  } catch (error: any) {
+    console.error("Error getting job:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
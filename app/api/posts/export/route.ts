@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth/ownership";
+import { db } from "@/lib/db";
+import { blogPosts, finalPosts, researchSources } from "@/lib/db/schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { isCitationStyle, CITATION_STYLES } from "@/lib/utils/citation-format";
+import { isFrontMatterProfile, FRONT_MATTER_PROFILES } from "@/lib/utils/front-matter";
+import { getUserCitationStyle } from "@/lib/utils/user-settings";
+import { isUuid } from "@/lib/utils/uuid";
+import { buildPostsArchive, isExportFormat, EXPORT_FORMATS } from "@/lib/workflow/export";
+
+/**
+ * Download posts as a zip archive (see buildPostsArchive for the layout).
+ *  ?ids=a,b                  posts to include; defaults to every completed post
+ *  ?format=markdown|html     defaults to markdown
+ *  ?citationStyle=...        defaults to the user's style from settings
+ *  ?profile=...              markdown front matter, defaults to generic YAML
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireUser();
+    if ("error" in access) return access.error;
+    const { user } = access;
+
+    const searchParams = request.nextUrl.searchParams;
+
+    const format = searchParams.get("format") || "markdown";
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: `format must be one of: ${EXPORT_FORMATS.join(", ")}` } },
+        { status: 400 }
+      );
+    }
+
+    const profile = searchParams.get("profile") || "default";
+    if (!isFrontMatterProfile(profile)) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: `profile must be one of: ${FRONT_MATTER_PROFILES.join(", ")}` } },
+        { status: 400 }
+      );
+    }
+
+    const requestedStyle = searchParams.get("citationStyle");
+    if (requestedStyle && !isCitationStyle(requestedStyle)) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: `citationStyle must be one of: ${CITATION_STYLES.join(", ")}` } },
+        { status: 400 }
+      );
+    }
+    const citationStyle = requestedStyle && isCitationStyle(requestedStyle)
+      ? requestedStyle
+      : await getUserCitationStyle(user.id);
+
+    const ids = (searchParams.get("ids") || "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean);
+
+    if (!ids.every(isUuid)) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "ids must be a comma-separated list of post ids" } },
+        { status: 400 }
+      );
+    }
+
+    // Only posts with a final version can be exported; other users' ids simply don't match
+    const rows = await db.select({
+      blogPost: blogPosts,
+      finalPost: finalPosts,
+      sources: researchSources.sources,
+    })
+      .from(blogPosts)
+      .innerJoin(finalPosts, eq(blogPosts.id, finalPosts.blogPostId))
+      .leftJoin(researchSources, eq(blogPosts.id, researchSources.blogPostId))
+      .where(and(
+        eq(blogPosts.userId, user.id),
+        ids.length > 0 ? inArray(blogPosts.id, ids) : eq(blogPosts.status, "completed")
+      ))
+      .orderBy(desc(blogPosts.createdAt));
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: { code: "BLOG_POST_NOT_FOUND", message: "No finished posts to export" } },
+        { status: 404 }
+      );
+    }
+
+    const archive = buildPostsArchive(
+      rows.map((row) => ({
+        blogPost: row.blogPost,
+        finalPost: row.finalPost,
+        sources: Array.isArray(row.sources) ? row.sources : [],
+      })),
+      { format, citationStyle, profile }
+    );
+
+    const filename = `blog-posts-${new Date().toISOString().slice(0, 10)}.zip`;
+
+    // Copied into a plain ArrayBuffer-backed view, which is what BodyInit accepts
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Content-Length": String(archive.byteLength),
+      },
+    });
+  } catch (error: any) {
+    console.error("Error exporting posts:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { userSettings, searchProviderEnum, citationStyleEnum } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { requireUser } from "@/lib/auth/ownership";
+
+type SearchProvider = typeof searchProviderEnum.enumValues[number];
+type CitationStyle = typeof citationStyleEnum.enumValues[number];
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireUser();
+    if ("error" in access) return access.error;
+
+    const [settings] = await db.select()
+      .from(userSettings)
+      .where(eq(userSettings.userId, access.user.id))
+      .limit(1);
+
+    return NextResponse.json({
+      searchProvider: settings?.searchProvider || null,
+      searchProviders: searchProviderEnum.enumValues,
+      citationStyle: settings?.citationStyle || null,
+      citationStyles: citationStyleEnum.enumValues,
+    });
+  } catch (error: any) {
+    console.error("Error getting settings:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Update settings. Body: { searchProvider?: "perplexity" | "exa" | "fixture" | null,
+ * citationStyle?: "inline" | "footnotes" | "apa" | "mla" | "chicago" | null }.
+ * Only the fields present are changed; null restores the default.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const access = await requireUser();
+    if ("error" in access) return access.error;
+
+    const body = await request.json();
+    const changes: { searchProvider?: SearchProvider | null; citationStyle?: CitationStyle | null } = {};
+
+    if (body.searchProvider !== undefined) {
+      const searchProvider = body.searchProvider ?? null;
+      if (searchProvider !== null && !searchProviderEnum.enumValues.includes(searchProvider)) {
+        return NextResponse.json(
+          { error: { code: "VALIDATION_ERROR", message: `searchProvider must be one of: ${searchProviderEnum.enumValues.join(", ")}` } },
+          { status: 400 }
+        );
+      }
+      changes.searchProvider = searchProvider;
+    }
+
+    if (body.citationStyle !== undefined) {
+      const citationStyle = body.citationStyle ?? null;
+      if (citationStyle !== null && !citationStyleEnum.enumValues.includes(citationStyle)) {
+        return NextResponse.json(
+          { error: { code: "VALIDATION_ERROR", message: `citationStyle must be one of: ${citationStyleEnum.enumValues.join(", ")}` } },
+          { status: 400 }
+        );
+      }
+      changes.citationStyle = citationStyle;
+    }
+
+    const [settings] = await db.insert(userSettings)
+      .values({
+        userId: access.user.id,
+        ...changes,
+      })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: {
+          ...changes,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+
+    return NextResponse.json({
+      searchProvider: settings.searchProvider,
+      citationStyle: settings.citationStyle,
+    });
+  } catch (error: any) {
+    console.error("Error saving settings:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { templates } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { requireUser } from "@/lib/auth/ownership";
+import { getOwnedTemplate } from "@/lib/workflow/templates";
+
+function templateNotFound() {
+  return NextResponse.json(
+    { error: { code: "TEMPLATE_NOT_FOUND", message: "Template not found" } },
+    { status: 404 }
+  );
+}
+
+/**
+ * Rename a template. Body: { name }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { templateId: string } }
+) {
+  try {
+    const access = await requireUser();
+    if ("error" in access) return access.error;
+
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+
+    if (!name || name.length > 255) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "name is required and must be at most 255 characters" } },
+        { status: 400 }
+      );
+    }
+
+    const template = await getOwnedTemplate(access.user.id, params.templateId);
+    if (!template) return templateNotFound();
+
+    const [updated] = await db.update(templates)
+      .set({ name, updatedAt: new Date() })
+      .where(eq(templates.id, template.id))
+      .returning();
+
+    return NextResponse.json({ template: updated });
+  } catch (error: any) {
+    console.error("Error renaming template:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a template. Posts started from it keep their settings.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { templateId: string } }
+) {
+  try {
+    const access = await requireUser();
+    if ("error" in access) return access.error;
+
+    const template = await getOwnedTemplate(access.user.id, params.templateId);
+    if (!template) return templateNotFound();
+
+    await db.delete(templates).where(eq(templates.id, template.id));
+
+    return NextResponse.json({ deleted: true });
+  } catch (error: any) {
+    console.error("Error deleting template:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { templates } from "@/lib/db/schema";
+import { desc, eq } from "drizzle-orm";
+import { requireUser, getOwnedBlogPost } from "@/lib/auth/ownership";
+import { buildTemplateFromPost } from "@/lib/workflow/templates";
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireUser();
+    if ("error" in access) return access.error;
+
+    const rows = await db.select()
+      .from(templates)
+      .where(eq(templates.userId, access.user.id))
+      .orderBy(desc(templates.updatedAt));
+
+    return NextResponse.json({ templates: rows });
+  } catch (error: any) {
+    console.error("Error listing templates:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Save a post's configuration as a template. Body: { blogPostId, name }.
+ * Works for in-progress posts too; steps not reached yet are left empty.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireUser();
+    if ("error" in access) return access.error;
+
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+
+    if (!body.blogPostId || !name) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "blogPostId and name are required" } },
+        { status: 400 }
+      );
+    }
+
+    if (name.length > 255) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "name must be at most 255 characters" } },
+        { status: 400 }
+      );
+    }
+
+    const blogPost = await getOwnedBlogPost(access.user.id, body.blogPostId);
+    if (!blogPost) {
+      return NextResponse.json(
+        { error: { code: "BLOG_POST_NOT_FOUND", message: "Blog post not found" } },
+        { status: 404 }
+      );
+    }
+
+    const { voiceTone, savedState } = await buildTemplateFromPost(blogPost.id);
+
+    const [template] = await db.insert(templates)
+      .values({
+        userId: access.user.id,
+        name,
+        blogType: blogPost.blogType,
+        voiceTone: voiceTone as any,
+        savedState: savedState as any,
+      })
+      .returning();
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error saving template:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
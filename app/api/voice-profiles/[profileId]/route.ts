@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { voiceProfiles } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { requireUser } from "@/lib/auth/ownership";
+import { getOwnedVoiceProfile, isDuplicateNameError, parseVoiceProfileInput } from "@/lib/workflow/voice-profiles";
+
+function profileNotFound() {
+  return NextResponse.json(
+    { error: { code: "VOICE_PROFILE_NOT_FOUND", message: "Voice profile not found" } },
+    { status: 404 }
+  );
+}
+
+/**
+ * Replace a voice profile's fields (same body as POST /api/voice-profiles).
+ * Posts that already selected the profile keep the guidelines they were written with.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { profileId: string } }
+) {
+  try {
+    const access = await requireUser();
+    if ("error" in access) return access.error;
+
+    const parsed = parseVoiceProfileInput(await request.json());
+    if ("error" in parsed) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: parsed.error } },
+        { status: 400 }
+      );
+    }
+
+    const profile = await getOwnedVoiceProfile(access.user.id, params.profileId);
+    if (!profile) return profileNotFound();
+
+    const [updated] = await db.update(voiceProfiles)
+      .set({ ...parsed.value, updatedAt: new Date() })
+      .where(eq(voiceProfiles.id, profile.id))
+      .returning();
+
+    return NextResponse.json({ profile: updated });
+  } catch (error: any) {
+    console.error("Error updating voice profile:", error);
+    if (isDuplicateNameError(error)) {
+      return NextResponse.json(
+        { error: { code: "DUPLICATE_NAME", message: "You already have a voice profile with this name" } },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { profileId: string } }
+) {
+  try {
+    const access = await requireUser();
+    if ("error" in access) return access.error;
+
+    const profile = await getOwnedVoiceProfile(access.user.id, params.profileId);
+    if (!profile) return profileNotFound();
+
+    await db.delete(voiceProfiles).where(eq(voiceProfiles.id, profile.id));
+
+    return NextResponse.json({ deleted: true });
+  } catch (error: any) {
+    console.error("Error deleting voice profile:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { voiceProfiles } from "@/lib/db/schema";
+import { requireUser } from "@/lib/auth/ownership";
+import { callWorker } from "@/lib/utils/worker-client";
+import { isDuplicateNameError, parseVoiceProfileInput } from "@/lib/workflow/voice-profiles";
+
+const MAX_SAMPLES = 10;
+const MAX_SAMPLE_CHARS = 50000;
+// Rough whitespace count; the worker measures properly and enforces the same minimum
+const MIN_SAMPLE_WORDS = 300;
+
+/**
+ * Learn a voice profile from writing samples and save it.
+ * Body: { samples: string[], name?: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireUser();
+    if ("error" in access) return access.error;
+
+    const body = await request.json();
+    const samples: string[] = Array.isArray(body?.samples)
+      ? body.samples.filter((sample: any) => typeof sample === "string" && sample.trim()).map((sample: string) => sample.trim())
+      : [];
+
+    if (samples.length === 0 || samples.length > MAX_SAMPLES) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: `Provide between 1 and ${MAX_SAMPLES} writing samples` } },
+        { status: 400 }
+      );
+    }
+    if (samples.some((sample) => sample.length > MAX_SAMPLE_CHARS)) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: `Each sample must be at most ${MAX_SAMPLE_CHARS} characters` } },
+        { status: 400 }
+      );
+    }
+
+    const wordCount = samples.reduce((sum, sample) => sum + sample.split(/\s+/).length, 0);
+    if (wordCount < MIN_SAMPLE_WORDS) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: `Samples are too short to learn a voice from (at least ${MIN_SAMPLE_WORDS} words needed)` } },
+        { status: 400 }
+      );
+    }
+
+    const result = await callWorker("/voice-tone/learn", {
+      userId: access.user.id,
+      samples,
+    });
+
+    const parsed = parseVoiceProfileInput({
+      name: typeof body.name === "string" && body.name.trim() ? body.name : result.profile.name,
+      description: result.profile.description,
+      writingStyle: result.profile.style.writingStyle,
+      formality: result.profile.style.formality,
+      emotionalPosture: result.profile.style.emotionalPosture,
+      doRules: result.profile.style.do,
+      dontRules: result.profile.style.dont,
+    });
+    if ("error" in parsed) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: parsed.error } },
+        { status: 400 }
+      );
+    }
+
+    const [profile] = await db.insert(voiceProfiles)
+      .values({
+        userId: access.user.id,
+        ...parsed.value,
+        metrics: result.metrics,
+      })
+      .returning();
+
+    return NextResponse.json({ profile }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error learning voice profile:", error);
+    if (isDuplicateNameError(error)) {
+      return NextResponse.json(
+        { error: { code: "DUPLICATE_NAME", message: "You already have a voice profile with this name" } },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { voiceProfiles } from "@/lib/db/schema";
+import { requireUser } from "@/lib/auth/ownership";
+import { getUserVoiceProfiles, isDuplicateNameError, parseVoiceProfileInput } from "@/lib/workflow/voice-profiles";
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireUser();
+    if ("error" in access) return access.error;
+
+    const profiles = await getUserVoiceProfiles(access.user.id);
+
+    return NextResponse.json({ profiles });
+  } catch (error: any) {
+    console.error("Error listing voice profiles:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a voice profile. Body: { name, description?, writingStyle, formality,
+ * emotionalPosture, doRules?: string[], dontRules?: string[] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireUser();
+    if ("error" in access) return access.error;
+
+    const parsed = parseVoiceProfileInput(await request.json());
+    if ("error" in parsed) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: parsed.error } },
+        { status: 400 }
+      );
+    }
+
+    const [profile] = await db.insert(voiceProfiles)
+      .values({
+        userId: access.user.id,
+        ...parsed.value,
+      })
+      .returning();
+
+    return NextResponse.json({ profile }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error creating voice profile:", error);
+    if (isDuplicateNameError(error)) {
+      return NextResponse.json(
+        { error: { code: "DUPLICATE_NAME", message: "You already have a voice profile with this name" } },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
+import { db } from "@/lib/db";
+import { blogDrafts, draftRevisions } from "@/lib/db/schema";
+import { eq, desc } from "drizzle-orm";
+import { enqueueJob, startJob, getLatestJobs, isJobActive } from "@/lib/workflow/jobs";
+import { assertTransition, WorkflowTransitionError } from "@/lib/workflow/state-machine";
+
+/**
+ * Request changes to the latest draft. Body: { feedback, sectionNotes: [{ sectionNumber, note }] }.
+ * The revision runs as a job and produces a new draft version, or fails if
+ * another version was saved while it ran.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { blogPostId: string } }
+) {
+  try {
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+    assertTransition(access.blogPost.status, "editorial_pending");
+
+    const body = await request.json();
+    const feedback = typeof body.feedback === "string" ? body.feedback.trim() : "";
+    const sectionNotes = (Array.isArray(body.sectionNotes) ? body.sectionNotes : [])
+      .filter((n: any) => typeof n?.sectionNumber === "number" && typeof n?.note === "string" && n.note.trim())
+      .map((n: any) => ({ sectionNumber: n.sectionNumber, note: n.note.trim() }));
+
+    if (!feedback && sectionNotes.length === 0) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "Provide feedback or at least one section note" } },
+        { status: 400 }
+      );
+    }
+
+    const [latestDraft] = await db.select()
+      .from(blogDrafts)
+      .where(eq(blogDrafts.blogPostId, params.blogPostId))
+      .orderBy(desc(blogDrafts.version))
+      .limit(1);
+
+    if (!latestDraft) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "Draft not found. Please generate a draft first." } },
+        { status: 400 }
+      );
+    }
+
+    const { revision: activeJob } = await getLatestJobs(params.blogPostId);
+    if (activeJob && isJobActive(activeJob)) {
+      return NextResponse.json(
+        { error: { code: "REVISION_IN_PROGRESS", message: "A revision is already in progress" } },
+        { status: 409 }
+      );
+    }
+
+    const [revision] = await db.insert(draftRevisions).values({
+      blogPostId: params.blogPostId,
+      fromVersion: latestDraft.version,
+      feedback,
+      sectionNotes,
+    }).returning();
+
+    const job = await enqueueJob(params.blogPostId, "revision", { revisionId: revision.id });
+    startJob(job.id);
+
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        jobStatus: job.status,
+        revisionId: revision.id,
+        status: "draft_pending",
+      },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    console.error("Error requesting draft revision:", error);
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
@@ -1,36 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
 import { db } from "@/lib/db";
-import { blogPosts, thesisOutlines, researchSources, voiceToneSelections, blogDrafts } from "@/lib/db/schema";
-import { eq, desc } from "drizzle-orm";
+import { thesisOutlines, researchSources } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
 import { flushOpikTraces } from "@/lib/utils/opik";
-import { callWorker } from "@/lib/utils/worker-client";
+import { enqueueJob, startJob } from "@/lib/workflow/jobs";
+import { saveUserEdit } from "@/lib/workflow/drafts";
+import { assertTransition, statusForStep, transitionStatus, WorkflowTransitionError } from "@/lib/workflow/state-machine";
 
 export async function POST(
   request: NextRequest,
   { params }: { params: { blogPostId: string } }
 ) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: { code: "AUTH_REQUIRED", message: "Authentication required" } },
-        { status: 401 }
-      );
-    }
-
-    const [blogPost] = await db.select()
-      .from(blogPosts)
-      .where(eq(blogPosts.id, params.blogPostId))
-      .limit(1);
-
-    if (!blogPost) {
-      return NextResponse.json(
-        { error: { code: "BLOG_POST_NOT_FOUND", message: "Blog post not found" } },
-        { status: 404 }
-      );
-    }
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+    assertTransition(access.blogPost.status, "editorial_pending");
 
     // Get necessary data from database
     const [thesisOutline] = await db.select()
@@ -57,54 +42,26 @@ export async function POST(
       );
     }
 
-    const [voiceTone] = await db.select()
-      .from(voiceToneSelections)
-      .where(eq(voiceToneSelections.blogPostId, params.blogPostId))
-      .limit(1);
+    // Queue draft generation as a durable job; the client polls /api/jobs/:id for the result
+    const job = await enqueueJob(params.blogPostId, "draft");
+    startJob(job.id);
 
-    // Call AI worker to write draft
-    const result = await callWorker("/draft", {
-      userId: blogPost.userId,
-      blogType: blogPost.blogType,
-      thesis: thesisOutline.thesisStatement,
-      outline: thesisOutline.outline,
-      sources: research.sources || [],
-      voiceTone: voiceTone?.selectedOptionName || "",
-      styleGuidelines: voiceTone?.styleGuidelines || null,
-    });
-
-    const content = result.content;
-    const wordCount = result.wordCount;
-
-    // Save draft to database
-    const existingDrafts = await db.select()
-      .from(blogDrafts)
-      .where(eq(blogDrafts.blogPostId, params.blogPostId))
-      .orderBy(desc(blogDrafts.version))
-      .limit(1);
-
-    const latestVersion = existingDrafts.length > 0 && existingDrafts[0].version
-      ? existingDrafts[0].version
-      : 0;
-
-    await db.insert(blogDrafts).values({
-      blogPostId: params.blogPostId,
-      content,
-      wordCount,
-      version: latestVersion + 1,
-    });
-
-    await db.update(blogPosts)
-      .set({ status: "editorial_pending", updatedAt: new Date() })
-      .where(eq(blogPosts.id, params.blogPostId));
-
-    return NextResponse.json({
-      content,
-      wordCount,
-      status: "editorial_pending",
-    });
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        jobStatus: job.status,
+        status: "draft_pending",
+      },
+      { status: 202 }
+    );
   } catch (error: any) {
     console.error("Error writing draft:", error);
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: 409 }
+      );
+    }
     return NextResponse.json(
       { error: { code: "AGENT_ERROR", message: error.message } },
       { status: 500 }
@@ -119,26 +76,46 @@ export async function PUT(
   { params }: { params: { blogPostId: string } }
 ) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: { code: "AUTH_REQUIRED", message: "Authentication required" } },
-        { status: 401 }
-      );
-    }
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
 
     const body = await request.json();
-    const { approved, goBackToStep } = body;
+    const { approved, goBackToStep, content } = body;
+
+    // Manual edits from the draft page are saved as a user-authored version
+    if (content !== undefined) {
+      if (typeof content !== "string" || !content.trim()) {
+        return NextResponse.json(
+          { error: { code: "VALIDATION_ERROR", message: "content must be a non-empty string" } },
+          { status: 400 }
+        );
+      }
+
+      const saved = await saveUserEdit(params.blogPostId, content);
+
+      return NextResponse.json({
+        version: saved.version,
+        wordCount: saved.wordCount,
+        author: "user",
+        status: "editorial_pending",
+      });
+    }
 
     if (!approved && goBackToStep) {
-      // Update status to go back to specified step
-      await db.update(blogPosts)
-        .set({ status: `${goBackToStep}_pending` as any, updatedAt: new Date() })
-        .where(eq(blogPosts.id, params.blogPostId));
+      const status = statusForStep(goBackToStep);
+
+      if (!status) {
+        return NextResponse.json(
+          { error: { code: "VALIDATION_ERROR", message: `Unknown workflow step: ${goBackToStep}` } },
+          { status: 400 }
+        );
+      }
+
+      // Go back to the specified step
+      await transitionStatus(params.blogPostId, status);
 
       return NextResponse.json({
-        status: `${goBackToStep}_pending`,
+        status,
         currentStep: goBackToStep,
       });
     }
@@ -156,6 +133,12 @@ export async function PUT(
     });
   } catch (error: any) {
     console.error("Error updating draft approval:", error);
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: 409 }
+      );
+    }
     return NextResponse.json(
       { error: { code: "INTERNAL_ERROR", message: error.message } },
       { status: 500 }
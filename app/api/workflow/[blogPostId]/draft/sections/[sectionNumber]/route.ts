@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
+import { db } from "@/lib/db";
+import { blogDrafts, thesisOutlines } from "@/lib/db/schema";
+import { eq, desc } from "drizzle-orm";
+import { enqueueJob, startJob, getLatestJobs, isJobActive } from "@/lib/workflow/jobs";
+import { assertTransition, WorkflowTransitionError } from "@/lib/workflow/state-machine";
+import { parseDraftSections } from "@/lib/workflow/draft-sections";
+
+/**
+ * Regenerate one outline section of the latest draft. The rest of the draft is
+ * kept byte-for-byte; the result is stored as a new draft version. The job
+ * fails instead if another version was saved while it ran.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { blogPostId: string; sectionNumber: string } }
+) {
+  try {
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+    assertTransition(access.blogPost.status, "editorial_pending");
+
+    const sectionNumber = Number(params.sectionNumber);
+    if (!Number.isInteger(sectionNumber) || sectionNumber < 1) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "Invalid section number" } },
+        { status: 400 }
+      );
+    }
+
+    const [latestDraft] = await db.select()
+      .from(blogDrafts)
+      .where(eq(blogDrafts.blogPostId, params.blogPostId))
+      .orderBy(desc(blogDrafts.version))
+      .limit(1);
+
+    if (!latestDraft) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "Draft not found. Please generate a draft first." } },
+        { status: 400 }
+      );
+    }
+
+    const [thesisOutline] = await db.select()
+      .from(thesisOutlines)
+      .where(eq(thesisOutlines.blogPostId, params.blogPostId))
+      .limit(1);
+
+    const section = parseDraftSections(latestDraft.content, (thesisOutline?.outline as any[]) || [])
+      .find((s) => s.sectionNumber === sectionNumber);
+
+    if (!section) {
+      return NextResponse.json(
+        { error: { code: "SECTION_NOT_FOUND", message: `Section ${sectionNumber} could not be found in the draft` } },
+        { status: 404 }
+      );
+    }
+
+    const { section: activeJob } = await getLatestJobs(params.blogPostId);
+    if (activeJob && isJobActive(activeJob)) {
+      return NextResponse.json(
+        { error: { code: "SECTION_IN_PROGRESS", message: "A section is already being regenerated" } },
+        { status: 409 }
+      );
+    }
+
+    const job = await enqueueJob(params.blogPostId, "section", {
+      sectionNumber,
+      fromVersion: latestDraft.version,
+    });
+    startJob(job.id);
+
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        jobStatus: job.status,
+        sectionNumber,
+      },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    console.error("Error regenerating draft section:", error);
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
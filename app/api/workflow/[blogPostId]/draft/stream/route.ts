@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
+import { streamWorker } from "@/lib/utils/worker-client";
+import { formatSSE, readSSE } from "@/lib/utils/sse";
+import { buildDraftRequest, saveDraftVersion, citeRequiredSources, DraftPrerequisiteError } from "@/lib/workflow/drafts";
+import { WorkflowTransitionError } from "@/lib/workflow/state-machine";
+
+/**
+ * Generate a draft and stream it to the browser as Server-Sent Events.
+ * The new version is only saved once the worker reports completion, so a
+ * cancelled stream leaves the previous draft untouched.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { blogPostId: string } }
+) {
+  try {
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+
+    // Abort the worker request when the browser disconnects or cancels
+    const upstream = new AbortController();
+    request.signal.addEventListener("abort", () => upstream.abort(), { once: true });
+
+    const draftRequest = await buildDraftRequest(params.blogPostId);
+    const workerResponse = await streamWorker(
+      "/draft/stream",
+      draftRequest,
+      upstream.signal
+    );
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let content = "";
+
+        try {
+          for await (const { event, data } of readSSE(workerResponse.body!)) {
+            if (event === "token") {
+              content += data.content;
+              controller.enqueue(encoder.encode(formatSSE("token", data)));
+            } else if (event === "done") {
+              // Cancelled after the worker finished: skip the revise pass and keep the previous draft
+              if (upstream.signal.aborted) break;
+
+              // A follow-up revision may rewrite the streamed text to cite required sources
+              const cited = await citeRequiredSources(draftRequest, content);
+              if (upstream.signal.aborted) break;
+
+              const version = await saveDraftVersion(params.blogPostId, cited.content, cited.wordCount);
+              controller.enqueue(encoder.encode(formatSSE("done", {
+                version,
+                wordCount: cited.wordCount,
+                content: cited.content !== content ? cited.content : undefined,
+                uncitedRequiredSources: cited.uncited.map((source: any) => source.id),
+                status: "editorial_pending",
+              })));
+            } else if (event === "error") {
+              controller.enqueue(encoder.encode(formatSSE("error", data)));
+            }
+          }
+        } catch (error: any) {
+          if (!upstream.signal.aborted) {
+            console.error("Error streaming draft:", error);
+            controller.enqueue(encoder.encode(formatSSE("error", {
+              code: "AGENT_ERROR",
+              message: error.message,
+            })));
+          }
+        }
+
+        if (upstream.signal.aborted) {
+          console.log(`[Draft Stream] Cancelled for ${params.blogPostId}, draft not saved`);
+        }
+
+        try {
+          controller.close();
+        } catch {
+          // Stream was already cancelled by the client
+        }
+      },
+      cancel() {
+        upstream.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        "Connection": "keep-alive",
+      },
+    });
+  } catch (error: any) {
+    console.error("Error streaming draft:", error);
+    if (error instanceof DraftPrerequisiteError) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: error.message } },
+        { status: 400 }
+      );
+    }
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      { error: { code: "AGENT_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
+import { getDraftVersion, parseDraftVersion, saveDraftVersion } from "@/lib/workflow/drafts";
+import { WorkflowTransitionError } from "@/lib/workflow/state-machine";
+
+/**
+ * Restore an old draft by copying it into a new version, so history is never rewritten.
+ * The copy is credited to the user, who chose to restore it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { blogPostId: string; version: string } }
+) {
+  try {
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+
+    const requestedVersion = parseDraftVersion(params.version);
+    if (requestedVersion === null) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "version must be a positive integer" } },
+        { status: 400 }
+      );
+    }
+
+    const draft = await getDraftVersion(params.blogPostId, requestedVersion);
+
+    if (!draft) {
+      return NextResponse.json(
+        { error: { code: "DRAFT_NOT_FOUND", message: `Draft version ${params.version} not found` } },
+        { status: 404 }
+      );
+    }
+
+    const version = await saveDraftVersion(params.blogPostId, draft.content, draft.wordCount, "user");
+
+    return NextResponse.json({
+      content: draft.content,
+      wordCount: draft.wordCount,
+      version,
+      restoredFrom: draft.version,
+      status: "editorial_pending",
+    });
+  } catch (error: any) {
+    console.error("Error restoring draft version:", error);
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
+import { getDraftVersion, parseDraftVersion } from "@/lib/workflow/drafts";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { blogPostId: string; version: string } }
+) {
+  try {
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+
+    const requestedVersion = parseDraftVersion(params.version);
+    if (requestedVersion === null) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "version must be a positive integer" } },
+        { status: 400 }
+      );
+    }
+
+    const draft = await getDraftVersion(params.blogPostId, requestedVersion);
+
+    if (!draft) {
+      return NextResponse.json(
+        { error: { code: "DRAFT_NOT_FOUND", message: `Draft version ${params.version} not found` } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(draft);
+  } catch (error: any) {
+    console.error("Error getting draft version:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { voiceToneSelections } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
+import { isUuid } from "@/lib/utils/uuid";
+import { getDraftVersion, parseDraftVersion, scoreDraftVoice } from "@/lib/workflow/drafts";
+import { getOwnedVoiceProfile, voiceProfileOption } from "@/lib/workflow/voice-profiles";
+
+/**
+ * Score a draft version's voice. Scores against the post's selected voice/tone,
+ * or against one of the user's voice profiles when the body has { voiceProfileId }.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { blogPostId: string; version: string } }
+) {
+  try {
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+    const { user } = access;
+
+    const version = parseDraftVersion(params.version);
+    if (version === null) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "version must be a positive integer" } },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body?.voiceProfileId && !isUuid(body.voiceProfileId)) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "voiceProfileId must be a voice profile id" } },
+        { status: 400 }
+      );
+    }
+
+    const draft = await getDraftVersion(params.blogPostId, version);
+
+    if (!draft) {
+      return NextResponse.json(
+        { error: { code: "DRAFT_NOT_FOUND", message: `Draft version ${params.version} not found` } },
+        { status: 404 }
+      );
+    }
+
+    let voice: { name: string; styleGuidelines: any } | null = null;
+
+    if (body?.voiceProfileId) {
+      const profile = await getOwnedVoiceProfile(user.id, body.voiceProfileId);
+      if (!profile) {
+        return NextResponse.json(
+          { error: { code: "VOICE_PROFILE_NOT_FOUND", message: "Voice profile not found" } },
+          { status: 404 }
+        );
+      }
+      const option = voiceProfileOption(profile);
+      voice = { name: option.name, styleGuidelines: option.style };
+    } else {
+      const [selection] = await db.select()
+        .from(voiceToneSelections)
+        .where(eq(voiceToneSelections.blogPostId, params.blogPostId))
+        .limit(1);
+
+      if (selection) {
+        voice = { name: selection.selectedOptionName, styleGuidelines: selection.styleGuidelines };
+      }
+    }
+
+    if (!voice) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "Select a voice and tone before scoring the draft" } },
+        { status: 400 }
+      );
+    }
+
+    const voiceScore = await scoreDraftVoice(draft, user.id, voice);
+
+    return NextResponse.json({ version: draft.version, voiceScore });
+  } catch (error: any) {
+    console.error("Error scoring draft voice:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
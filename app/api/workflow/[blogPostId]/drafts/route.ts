@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
+import { listDraftVersions } from "@/lib/workflow/drafts";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { blogPostId: string } }
+) {
+  try {
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+
+    const drafts = await listDraftVersions(params.blogPostId);
+
+    return NextResponse.json({ drafts });
+  } catch (error: any) {
+    console.error("Error listing drafts:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
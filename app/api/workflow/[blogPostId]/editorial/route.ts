@@ -1,36 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
 import { db } from "@/lib/db";
-import { blogPosts, blogDrafts, researchSources, finalPosts } from "@/lib/db/schema";
+import { blogDrafts, finalPosts } from "@/lib/db/schema";
 import { eq, desc } from "drizzle-orm";
 import { flushOpikTraces } from "@/lib/utils/opik";
-import { callWorker } from "@/lib/utils/worker-client";
+import { enqueueJob, startJob } from "@/lib/workflow/jobs";
+import { assertTransition, WorkflowTransitionError } from "@/lib/workflow/state-machine";
 
 export async function POST(
   request: NextRequest,
   { params }: { params: { blogPostId: string } }
 ) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: { code: "AUTH_REQUIRED", message: "Authentication required" } },
-        { status: 401 }
-      );
-    }
-
-    const [blogPost] = await db.select()
-      .from(blogPosts)
-      .where(eq(blogPosts.id, params.blogPostId))
-      .limit(1);
-
-    if (!blogPost) {
-      return NextResponse.json(
-        { error: { code: "BLOG_POST_NOT_FOUND", message: "Blog post not found" } },
-        { status: 404 }
-      );
-    }
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+    assertTransition(access.blogPost.status, "completed");
 
     // Get latest draft
     const drafts = await db.select()
@@ -48,66 +32,26 @@ export async function POST(
       );
     }
 
-    // Get research sources for citations
-    const [research] = await db.select()
-      .from(researchSources)
-      .where(eq(researchSources.blogPostId, params.blogPostId))
-      .limit(1);
-
-    const sourcesArray = research?.sources && Array.isArray(research.sources) ? research.sources : [];
-
-    // Call AI worker to edit and optimize
-    const result = await callWorker("/editorial", {
-      userId: blogPost.userId,
-      draft: draft.content,
-      sources: sourcesArray,
-    });
-
-    // Build citations from sources
-    const citations: any[] = sourcesArray.map((source: any, index: number) => ({
-      id: String(index + 1),
-      url: source.url || "",
-      title: source.title || "",
-    }));
+    // Queue editorial as a durable job; the client polls /api/jobs/:id for the result
+    const job = await enqueueJob(params.blogPostId, "editorial");
+    startJob(job.id);
 
-    // Save final post to database
-    const [existingFinal] = await db.select()
-      .from(finalPosts)
-      .where(eq(finalPosts.blogPostId, params.blogPostId))
-      .limit(1);
-
-    if (existingFinal) {
-      await db.update(finalPosts)
-        .set({
-          content: result.finalContent,
-          seoMetadata: result.seoMetadata as any,
-          socialPosts: result.socialPosts as any,
-          citations: citations as any,
-          updatedAt: new Date(),
-        })
-        .where(eq(finalPosts.blogPostId, params.blogPostId));
-    } else {
-      await db.insert(finalPosts).values({
-        blogPostId: params.blogPostId,
-        content: result.finalContent,
-        seoMetadata: result.seoMetadata as any,
-        socialPosts: result.socialPosts as any,
-        citations: citations as any,
-      });
-    }
-
-    await db.update(blogPosts)
-      .set({ status: "completed", updatedAt: new Date() })
-      .where(eq(blogPosts.id, params.blogPostId));
-
-    return NextResponse.json({
-      finalContent: result.finalContent,
-      seoMetadata: result.seoMetadata,
-      socialPosts: result.socialPosts,
-      status: "completed",
-    });
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        jobStatus: job.status,
+        status: "editorial_pending",
+      },
+      { status: 202 }
+    );
   } catch (error: any) {
     console.error("Error editing and optimizing:", error);
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: 409 }
+      );
+    }
     return NextResponse.json(
       { error: { code: "AGENT_ERROR", message: error.message } },
       { status: 500 }
@@ -122,26 +66,8 @@ export async function PUT(
   { params }: { params: { blogPostId: string } }
 ) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: { code: "AUTH_REQUIRED", message: "Authentication required" } },
-        { status: 401 }
-      );
-    }
-
-    const [blogPost] = await db.select()
-      .from(blogPosts)
-      .where(eq(blogPosts.id, params.blogPostId))
-      .limit(1);
-
-    if (!blogPost) {
-      return NextResponse.json(
-        { error: { code: "BLOG_POST_NOT_FOUND", message: "Blog post not found" } },
-        { status: 404 }
-      );
-    }
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
 
     const body = await request.json();
     const { seoMetadata, socialPosts } = body;
@@ -1,34 +1,73 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
 import { db } from "@/lib/db";
-import { blogPosts, finalPosts } from "@/lib/db/schema";
+import { finalPosts } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import { isCitationStyle, CITATION_STYLES } from "@/lib/utils/citation-format";
+import { getUserCitationStyle } from "@/lib/utils/user-settings";
+import { isFrontMatterProfile, FRONT_MATTER_PROFILES } from "@/lib/utils/front-matter";
+import {
+  buildHtmlExport,
+  buildMarkdownExport,
+  exportBasename,
+  isExportFormat,
+  EXPORT_FORMATS,
+} from "@/lib/workflow/export";
 
+/**
+ * Export the final post.
+ *  ?format=markdown|html      defaults to markdown
+ *  ?fragment=true             HTML only: body markup without <head>, for pasting into a CMS
+ *  ?citationStyle=...         defaults to the user's style from settings
+ * Markdown only:
+ *  ?profile=default|hugo|jekyll|astro|eleventy   front matter flavour
+ *  ?tags=a,b  ?canonicalUrl=https://...  ?draft=true  ?socialPosts=false
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: { blogPostId: string } }
 ) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+    const { user, blogPost } = access;
+
+    const searchParams = request.nextUrl.searchParams;
+
+    const format = searchParams.get("format") || "markdown";
+    if (!isExportFormat(format)) {
       return NextResponse.json(
-        { error: { code: "AUTH_REQUIRED", message: "Authentication required" } },
-        { status: 401 }
+        { error: { code: "VALIDATION_ERROR", message: `format must be one of: ${EXPORT_FORMATS.join(", ")}` } },
+        { status: 400 }
       );
     }
 
-    const [blogPost] = await db.select()
-      .from(blogPosts)
-      .where(eq(blogPosts.id, params.blogPostId))
-      .limit(1);
+    const profile = searchParams.get("profile") || "default";
+    if (!isFrontMatterProfile(profile)) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: `profile must be one of: ${FRONT_MATTER_PROFILES.join(", ")}` } },
+        { status: 400 }
+      );
+    }
 
-    if (!blogPost) {
+    const canonicalUrl = searchParams.get("canonicalUrl")?.trim() || null;
+    if (canonicalUrl && !/^https?:\/\/\S+$/.test(canonicalUrl)) {
       return NextResponse.json(
-        { error: { code: "BLOG_POST_NOT_FOUND", message: "Blog post not found" } },
-        { status: 404 }
+        { error: { code: "VALIDATION_ERROR", message: "canonicalUrl must be an http(s) URL" } },
+        { status: 400 }
+      );
+    }
+
+    const requestedStyle = searchParams.get("citationStyle");
+    if (requestedStyle && !isCitationStyle(requestedStyle)) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: `citationStyle must be one of: ${CITATION_STYLES.join(", ")}` } },
+        { status: 400 }
       );
     }
+    const citationStyle = requestedStyle && isCitationStyle(requestedStyle)
+      ? requestedStyle
+      : await getUserCitationStyle(user.id);
 
     const [finalPost] = await db.select()
       .from(finalPosts)
@@ -41,44 +80,41 @@ export async function GET(
         { status: 404 }
       );
     }
-    const seoMetadata = finalPost.seoMetadata as any;
-    const socialPosts = finalPost.socialPosts as any;
-    const citations = finalPost.citations as any[];
 
-    // Generate markdown
-    let markdown = `---\n`;
-    markdown += `title: ${seoMetadata.title}\n`;
-    markdown += `description: ${seoMetadata.metaDescription}\n`;
-    markdown += `---\n\n`;
-    markdown += `# ${seoMetadata.title}\n\n`;
-    markdown += `${finalPost.content}\n\n`;
-    
-    if (citations && citations.length > 0) {
-      markdown += `---\n\n## Citations\n\n`;
-      citations.forEach((citation, index) => {
-        markdown += `[${index + 1}]: ${citation.url} - ${citation.title || "Source"}\n`;
+    const filename = exportBasename(blogPost);
+
+    if (format === "html") {
+      const fragment = searchParams.get("fragment") === "true";
+      return NextResponse.json({
+        html: buildHtmlExport(finalPost, citationStyle, { fragment }),
+        filename: `${filename}${fragment ? ".fragment" : ""}.html`,
+        format,
+        citationStyle,
       });
-      markdown += `\n`;
     }
 
-    markdown += `---\n\n## Social Posts\n\n`;
-    markdown += `### Twitter/X\n`;
-    markdown += `${socialPosts.twitter}\n\n`;
-    markdown += `### LinkedIn\n`;
-    markdown += `${socialPosts.linkedin}\n`;
+    const tags = (searchParams.get("tags") || "")
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
 
-    // Generate filename from title, idea, or default
-    let filename = "blog-post";
-    if (blogPost.title) {
-      filename = blogPost.title.toLowerCase().replace(/\s+/g, "-").replace(/[^a-z0-9-]/g, "");
-    } else if (blogPost.idea) {
-      // Use first 50 chars of idea for filename
-      filename = blogPost.idea.substring(0, 50).toLowerCase().replace(/\s+/g, "-").replace(/[^a-z0-9-]/g, "");
-    }
+    const markdown = buildMarkdownExport(blogPost, finalPost, citationStyle, {
+      profile,
+      tags,
+      canonicalUrl,
+      draft: searchParams.get("draft") === "true",
+      includeSocialPosts: searchParams.get("socialPosts") !== "false",
+    });
+
+    // Jekyll only picks up posts named YYYY-MM-DD-slug.md
+    const datePrefix = profile === "jekyll" ? `${finalPost.createdAt.toISOString().slice(0, 10)}-` : "";
 
     return NextResponse.json({
       markdown,
-      filename: `${filename}.md`,
+      filename: `${datePrefix}${filename}.md`,
+      format,
+      profile,
+      citationStyle,
     });
   } catch (error: any) {
     console.error("Error exporting:", error);
@@ -88,4 +124,3 @@ export async function GET(
     );
   }
 }
-
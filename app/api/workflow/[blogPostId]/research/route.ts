@@ -1,42 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
 import { db } from "@/lib/db";
-import { blogPosts, thesisOutlines, researchSources } from "@/lib/db/schema";
+import { thesisOutlines } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { flushOpikTraces } from "@/lib/utils/opik";
-import { callWorker } from "@/lib/utils/worker-client";
+import { enqueueJob, startJob } from "@/lib/workflow/jobs";
+import { assertTransition, WorkflowTransitionError } from "@/lib/workflow/state-machine";
 
 export async function POST(
   request: NextRequest,
   { params }: { params: { blogPostId: string } }
 ) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: { code: "AUTH_REQUIRED", message: "Authentication required" } },
-        { status: 401 }
-      );
-    }
-
-    const [blogPost] = await db.select()
-      .from(blogPosts)
-      .where(eq(blogPosts.id, params.blogPostId))
-      .limit(1);
-
-    if (!blogPost) {
-      return NextResponse.json(
-        { error: { code: "BLOG_POST_NOT_FOUND", message: "Blog post not found" } },
-        { status: 404 }
-      );
-    }
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+    assertTransition(access.blogPost.status, "draft_pending");
 
     // Body is optional for research request
     let additionalResearchQuery: string | undefined;
+    let sectionNumber: number | undefined;
     try {
       const body = await request.json().catch(() => ({}));
-      additionalResearchQuery = body.additionalResearchQuery;
+      if (typeof body.additionalResearchQuery === "string" && body.additionalResearchQuery.trim()) {
+        additionalResearchQuery = body.additionalResearchQuery.trim();
+      }
+      if (body.sectionNumber !== undefined && body.sectionNumber !== null) {
+        sectionNumber = Number(body.sectionNumber);
+      }
     } catch {
       // No body provided, that's fine
     }
@@ -54,93 +44,44 @@ export async function POST(
       );
     }
 
-    // Call AI worker to perform research
-    console.log("[Research API] Starting research...");
-    const result = await callWorker("/research", {
-      userId: blogPost.userId,
-      thesis: thesisOutline.thesisStatement,
-      outline: thesisOutline.outline,
-      evidenceExpectations: thesisOutline.evidenceExpectations || [],
-      perplexityApiKey: undefined, // Can be passed from user settings if needed
-      exaApiKey: undefined,
-    });
-    console.log("[Research API] Research completed, sources count:", result?.sources?.length || 0);
-
-    // Save research results to database
-    const sources = Array.isArray(result.sources) ? result.sources : [];
-    const sectionMapping = result.sectionMapping || {};
-
-    const [existingResearch] = await db.select()
-      .from(researchSources)
-      .where(eq(researchSources.blogPostId, params.blogPostId))
-      .limit(1);
-
-    if (existingResearch) {
-      await db.update(researchSources)
-        .set({
-          sources: sources as any,
-          sectionMapping: sectionMapping as any,
-          updatedAt: new Date(),
-        })
-        .where(eq(researchSources.blogPostId, params.blogPostId));
-    } else {
-      await db.insert(researchSources).values({
-        blogPostId: params.blogPostId,
-        sources: sources as any,
-        sectionMapping: sectionMapping as any,
-      });
-    }
-    
-    await db.update(blogPosts)
-      .set({ status: "draft_pending", updatedAt: new Date() })
-      .where(eq(blogPosts.id, params.blogPostId));
-
-    // Check if there was an error in the result
-    if (result.error) {
-      console.error("[Research API] Research returned error:", result.error);
-      const statusCode = result.error.code === "VALIDATION_ERROR" ? 400 : 200;
-      return NextResponse.json(
-        { 
-          error: result.error,
-          sources: result.sources || [],
-          sectionMapping: result.sectionMapping || {},
-        },
-        { status: statusCode }
-      );
+    if (sectionNumber !== undefined) {
+      const outline = (thesisOutline.outline as any[]) || [];
+      if (!additionalResearchQuery || !outline.some((section: any) => section.sectionNumber === sectionNumber)) {
+        return NextResponse.json(
+          { error: { code: "VALIDATION_ERROR", message: "sectionNumber requires additionalResearchQuery and must match an outline section" } },
+          { status: 400 }
+        );
+      }
     }
 
-    // Check if sources are empty and warn
-    if (!result.sources || result.sources.length === 0) {
-      console.warn("[Research API] Research returned empty sources array");
-      return NextResponse.json({
-        sources: [],
-        sectionMapping: result.sectionMapping || {},
-        suggestedRevisions: result.suggestedRevisions || {},
-        status: "draft_pending",
-        warning: "No research sources were found. This might be due to missing API keys (PERPLEXITY_API_KEY or EXA_API_KEY) or the research API failing.",
-      });
-    }
+    // Queue research as a durable job; the client polls /api/jobs/:id for the result.
+    // With a query the job runs a supplemental search and merges into existing sources.
+    const job = await enqueueJob(
+      params.blogPostId,
+      "research",
+      additionalResearchQuery ? { query: additionalResearchQuery, sectionNumber } : undefined
+    );
+    startJob(job.id);
 
-    return NextResponse.json({
-      sources: result.sources || [],
-      sectionMapping: result.sectionMapping || {},
-      suggestedRevisions: result.suggestedRevisions || {},
-      status: "draft_pending",
-    });
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        jobStatus: job.status,
+        status: "research_pending",
+      },
+      { status: 202 }
+    );
   } catch (error: any) {
     console.error("Error researching:", error);
-    console.error("Error stack:", error?.stack);
-    const errorMessage = error?.message || "Unknown error occurred";
-    
-    // Return 200 with error info instead of 500, so frontend can handle it gracefully
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: 409 }
+      );
+    }
     return NextResponse.json(
-      { 
-        error: { code: "AGENT_ERROR", message: errorMessage },
-        sources: [],
-        sectionMapping: {},
-        suggestedRevisions: {},
-      },
-      { status: 200 }
+      { error: { code: "INTERNAL_ERROR", message: error?.message || "Unknown error occurred" } },
+      { status: 500 }
     );
   } finally {
     await flushOpikTraces();
@@ -152,14 +93,8 @@ export async function PUT(
   { params }: { params: { blogPostId: string } }
 ) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: { code: "AUTH_REQUIRED", message: "Authentication required" } },
-        { status: 401 }
-      );
-    }
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
 
     const body = await request.json();
     const { requestAdditionalResearch } = body;
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
+import { db } from "@/lib/db";
+import { thesisOutlines } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { assertTransition, WorkflowTransitionError } from "@/lib/workflow/state-machine";
+import { buildSectionMapping } from "@/lib/workflow/research";
+import { supersedeJobs } from "@/lib/workflow/jobs";
+import { updateResearchSources, ResearchUpdateError } from "@/lib/workflow/research-store";
+
+/**
+ * Curate one source. Body (all optional): { excluded, required, sectionMapping }.
+ * Excluded sources are never given to the writer; required ones must be cited.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { blogPostId: string; sourceId: string } }
+) {
+  try {
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+    assertTransition(access.blogPost.status, "draft_pending");
+
+    const body = await request.json();
+
+    let sectionMapping: number[] | undefined;
+    if (body.sectionMapping !== undefined) {
+      const [thesisOutline] = await db.select()
+        .from(thesisOutlines)
+        .where(eq(thesisOutlines.blogPostId, params.blogPostId))
+        .limit(1);
+      const sectionNumbers = ((thesisOutline?.outline as any[]) || []).map((section: any) => section.sectionNumber);
+      const requested: number[] | null = Array.isArray(body.sectionMapping) ? body.sectionMapping.map(Number) : null;
+
+      if (!requested || requested.some((n) => !sectionNumbers.includes(n))) {
+        return NextResponse.json(
+          { error: { code: "VALIDATION_ERROR", message: "sectionMapping must list outline section numbers" } },
+          { status: 400 }
+        );
+      }
+      sectionMapping = Array.from(new Set(requested)).sort((a, b) => a - b);
+    }
+
+    let source: any;
+    const research = await updateResearchSources(params.blogPostId, (current) => {
+      const index = current ? current.sources.findIndex((s) => s.id === params.sourceId) : -1;
+
+      if (!current || index === -1) {
+        throw new ResearchUpdateError("SOURCE_NOT_FOUND", "Source not found", 404);
+      }
+
+      source = { ...current.sources[index] };
+
+      if (body.excluded !== undefined) {
+        source.excluded = Boolean(body.excluded);
+        if (source.excluded) source.required = false;
+      }
+      if (body.required !== undefined) {
+        source.required = Boolean(body.required);
+        if (source.required) source.excluded = false;
+      }
+      if (sectionMapping) {
+        source.sectionMapping = sectionMapping;
+      }
+
+      const sources = current.sources.map((s, i) => (i === index ? source : s));
+      return { sources, sectionMapping: buildSectionMapping(sources) };
+    });
+
+    // A draft being written from the sources as they were must not be saved
+    await supersedeJobs(params.blogPostId, "draft");
+
+    return NextResponse.json({ source, sources: research.sources });
+  } catch (error: any) {
+    console.error("Error updating source:", error);
+    if (error instanceof ResearchUpdateError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: error.status }
+      );
+    }
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
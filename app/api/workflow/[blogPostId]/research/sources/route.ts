@@ -0,0 +1,114 @@
+import { isIP } from "net";
+import { NextRequest, NextResponse } from "next/server";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
+import { db } from "@/lib/db";
+import { thesisOutlines } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { assertPublicUrl } from "@/lib/utils/public-host";
+import { assertTransition, WorkflowTransitionError } from "@/lib/workflow/state-machine";
+import { buildSectionMapping, nextSourceId, normalizeUrl } from "@/lib/workflow/research";
+import { supersedeJobs } from "@/lib/workflow/jobs";
+import { updateResearchSources, ResearchUpdateError } from "@/lib/workflow/research-store";
+
+/**
+ * Add a source by hand. Body: { url, title?, notes?, quote?, sectionMapping?, required? }.
+ * The notes and quote are passed to the writer with the source.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { blogPostId: string } }
+) {
+  try {
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+    assertTransition(access.blogPost.status, "draft_pending");
+
+    const body = await request.json();
+
+    let url: URL;
+    try {
+      url = new URL(String(body.url || "").trim());
+      if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error();
+    } catch {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "A valid http(s) URL is required" } },
+        { status: 400 }
+      );
+    }
+
+    // The citation verifier downloads every cited source when the editorial step
+    // checks the post, so only public websites may be added
+    try {
+      if (isIP(url.hostname.replace(/^\[|\]$/g, ""))) throw new Error();
+      await assertPublicUrl(url);
+    } catch {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "The URL must point to a public website by its domain name" } },
+        { status: 400 }
+      );
+    }
+
+    const [thesisOutline] = await db.select()
+      .from(thesisOutlines)
+      .where(eq(thesisOutlines.blogPostId, params.blogPostId))
+      .limit(1);
+    const sectionNumbers = ((thesisOutline?.outline as any[]) || []).map((section: any) => section.sectionNumber);
+    const sectionMapping = (Array.isArray(body.sectionMapping) ? body.sectionMapping : [])
+      .map(Number)
+      .filter((n: number) => sectionNumbers.includes(n));
+
+    const notes = typeof body.notes === "string" ? body.notes.trim() : "";
+    const quote = typeof body.quote === "string" ? body.quote.trim() : "";
+
+    let source: any;
+    const research = await updateResearchSources(params.blogPostId, (current) => {
+      if (!current) {
+        throw new ResearchUpdateError("VALIDATION_ERROR", "Research not found. Please complete the research step first.", 400);
+      }
+
+      const duplicate = current.sources.find((existing) => existing.url && normalizeUrl(existing.url) === normalizeUrl(url.href));
+      if (duplicate) {
+        throw new ResearchUpdateError("DUPLICATE_SOURCE", `This URL is already in the list as ${duplicate.id}`, 409);
+      }
+
+      source = {
+        id: nextSourceId(current.sources),
+        title: typeof body.title === "string" && body.title.trim() ? body.title.trim() : url.hostname.replace(/^www\./, ""),
+        url: url.href,
+        manual: true,
+        required: Boolean(body.required),
+        qualityRationale: "Added by the author",
+        sectionMapping,
+        ...(notes ? { notes } : {}),
+        excerpts: quote ? [quote] : [],
+        quotes: quote ? [quote] : [],
+      };
+
+      const sources = [...current.sources, source];
+      return { sources, sectionMapping: buildSectionMapping(sources) };
+    });
+
+    // A draft being written from the sources as they were must not be saved
+    await supersedeJobs(params.blogPostId, "draft");
+
+    return NextResponse.json({ source, sources: research.sources }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error adding source:", error);
+    if (error instanceof ResearchUpdateError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: error.status }
+      );
+    }
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: error.message } },
+      { status: 500 }
+    );
+  }
+}
@@ -1,96 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
 import { db } from "@/lib/db";
-import { blogPosts, voiceToneSelections, thesisOutlines, researchSources } from "@/lib/db/schema";
+import { voiceToneSelections, thesisOutlines } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { flushOpikTraces } from "@/lib/utils/opik";
 import { callWorker } from "@/lib/utils/worker-client";
-
-// Fire-and-forget background research - doesn't block the response
-async function startBackgroundResearch(blogPostId: string, userId: string) {
-  console.log(`[Background Research] Starting for blogPostId: ${blogPostId}`);
-  try {
-    // Get thesis and outline from database
-    const [thesisOutline] = await db.select()
-      .from(thesisOutlines)
-      .where(eq(thesisOutlines.blogPostId, blogPostId))
-      .limit(1);
-
-    if (!thesisOutline) {
-      console.log(`[Background Research] No thesis outline found, skipping`);
-      return;
-    }
-
-    // Call AI worker to perform research
-    const result = await callWorker("/research", {
-      userId,
-      thesis: thesisOutline.thesisStatement,
-      outline: thesisOutline.outline,
-      evidenceExpectations: thesisOutline.evidenceExpectations || [],
-    });
-    
-    // Save research results to database
-    const sources = Array.isArray(result.sources) ? result.sources : [];
-    const sectionMapping = result.sectionMapping || {};
-
-    const [existingResearch] = await db.select()
-      .from(researchSources)
-      .where(eq(researchSources.blogPostId, blogPostId))
-      .limit(1);
-
-    if (existingResearch) {
-      await db.update(researchSources)
-        .set({
-          sources: sources as any,
-          sectionMapping: sectionMapping as any,
-          updatedAt: new Date(),
-        })
-        .where(eq(researchSources.blogPostId, blogPostId));
-    } else {
-      await db.insert(researchSources).values({
-        blogPostId,
-        sources: sources as any,
-        sectionMapping: sectionMapping as any,
-      });
-    }
-    
-    await db.update(blogPosts)
-      .set({ status: "draft_pending", updatedAt: new Date() })
-      .where(eq(blogPosts.id, blogPostId));
-
-    console.log(`[Background Research] Completed for ${blogPostId}, sources: ${sources.length}`);
-  } catch (error) {
-    console.error(`[Background Research] Exception for ${blogPostId}:`, error);
-  } finally {
-    await flushOpikTraces();
-  }
-}
+import { enqueueJob, startJob, supersedeJobs } from "@/lib/workflow/jobs";
+import { assertTransition, transitionStatus, WorkflowTransitionError } from "@/lib/workflow/state-machine";
+import { applyPreferredSourceTypes, getOwnedTemplate, TemplateState } from "@/lib/workflow/templates";
+import {
+  outlinesEqual,
+  parseEditedOutline,
+  remapEvidenceExpectations,
+  toStoredOutline,
+  EvidenceExpectation,
+  OutlineSection,
+} from "@/lib/workflow/outline";
 
 export async function POST(
   request: NextRequest,
   { params }: { params: { blogPostId: string } }
 ) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: { code: "AUTH_REQUIRED", message: "Authentication required" } },
-        { status: 401 }
-      );
-    }
-
-    const [blogPost] = await db.select()
-      .from(blogPosts)
-      .where(eq(blogPosts.id, params.blogPostId))
-      .limit(1);
-
-    if (!blogPost) {
-      return NextResponse.json(
-        { error: { code: "BLOG_POST_NOT_FOUND", message: "Blog post not found" } },
-        { status: 404 }
-      );
-    }
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+    const { blogPost } = access;
+    assertTransition(blogPost.status, "research_pending");
 
     const body = await request.json();
     const { idea: ideaFromBody } = body;
@@ -104,6 +39,13 @@ export async function POST(
     // Use idea from body if provided, otherwise get from blog post
     const idea = ideaFromBody || blogPost.idea || "Blog post idea";
 
+    // A template's outline shapes the new outline; its source types steer research
+    const template = blogPost.templateId
+      ? await getOwnedTemplate(blogPost.userId, blogPost.templateId)
+      : null;
+    const templateState = (template?.savedState || null) as TemplateState | null;
+    const preferredSourceTypes = templateState?.sourceTypes || [];
+
     // Call AI worker to generate thesis
     const result = await callWorker("/thesis", {
       blogPostId: params.blogPostId,
@@ -112,8 +54,17 @@ export async function POST(
       blogType: blogPost.blogType,
       voiceTone: voiceTone?.selectedOptionName || "",
       selectedThesisOption: undefined,
+      outlineTemplate: templateState?.outline?.length ? templateState.outline : undefined,
+      preferredSourceTypes: preferredSourceTypes.length ? preferredSourceTypes : undefined,
     });
 
+    const evidenceExpectations = Array.isArray(result.evidenceExpectations)
+      ? applyPreferredSourceTypes(result.evidenceExpectations, preferredSourceTypes)
+      : null;
+
+    // A research job still running on the previous thesis must not write its sources
+    await supersedeJobs(params.blogPostId, "research");
+
     // Save thesis to database
     const [existing] = await db.select()
       .from(thesisOutlines)
@@ -125,7 +76,7 @@ export async function POST(
         .set({
           thesisStatement: result.thesis,
           outline: result.outline as any,
-          evidenceExpectations: result.evidenceExpectations as any || null,
+          evidenceExpectations: evidenceExpectations as any,
           conclusionIntent: result.conclusionIntent || "",
           updatedAt: new Date(),
         })
@@ -135,20 +86,17 @@ export async function POST(
         blogPostId: params.blogPostId,
         thesisStatement: result.thesis,
         outline: result.outline as any,
-        evidenceExpectations: result.evidenceExpectations as any || null,
+        evidenceExpectations: evidenceExpectations as any,
         conclusionIntent: result.conclusionIntent || "",
       });
     }
 
-    await db.update(blogPosts)
-      .set({ status: "research_pending", updatedAt: new Date() })
-      .where(eq(blogPosts.id, params.blogPostId));
+    await transitionStatus(params.blogPostId, "research_pending");
 
-    // Fire-and-forget: Start background research immediately after thesis is saved
-    // This runs async without blocking the response to the client
-    startBackgroundResearch(params.blogPostId, blogPost.userId).catch(err => {
-      console.error("[Thesis API] Background research error (non-blocking):", err);
-    });
+    // Queue research immediately after thesis is saved. The job is persisted,
+    // so the research page can poll it even if this function is recycled.
+    const researchJob = await enqueueJob(params.blogPostId, "research");
+    startJob(researchJob.id);
 
     return NextResponse.json({
       thesis: result.thesis,
@@ -156,9 +104,16 @@ export async function POST(
       conclusionIntent: result.conclusionIntent,
       status: "research_pending",
       backgroundResearchStarted: true,
+      researchJobId: researchJob.id,
     });
   } catch (error: any) {
     console.error("Error generating thesis:", error);
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: 409 }
+      );
+    }
     return NextResponse.json(
       { error: { code: "AGENT_ERROR", message: error.message } },
       { status: 500 }
@@ -168,34 +123,41 @@ export async function POST(
   }
 }
 
+/**
+ * Approve the thesis, saving any edits first. Body: { thesis?, outline? }, where
+ * outline sections may carry `origins` (see lib/workflow/outline.ts) after
+ * sections were added, deleted, reordered, merged or split.
+ */
 export async function PUT(
   request: NextRequest,
   { params }: { params: { blogPostId: string } }
 ) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: { code: "AUTH_REQUIRED", message: "Authentication required" } },
-        { status: 401 }
-      );
-    }
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+    // Fail before saving edits or cancelling research if the post can't move on
+    assertTransition(access.blogPost.status, "research_pending");
 
     const body = await request.json();
-    const { thesis, outline } = body;
 
-    const [blogPost] = await db.select()
-      .from(blogPosts)
-      .where(eq(blogPosts.id, params.blogPostId))
-      .limit(1);
+    // Both fields are optional; whichever is sent is compared and saved
+    const thesis: string | undefined = body.thesis;
+    if (thesis !== undefined && (typeof thesis !== "string" || !thesis.trim())) {
+      return NextResponse.json(
+        { error: { code: "VALIDATION_ERROR", message: "thesis must be a non-empty string" } },
+        { status: 400 }
+      );
+    }
 
-    if (!blogPost) {
+    const parsedOutline = body.outline !== undefined ? parseEditedOutline(body.outline) : null;
+    if (parsedOutline && "error" in parsedOutline) {
       return NextResponse.json(
-        { error: { code: "BLOG_POST_NOT_FOUND", message: "Blog post not found" } },
-        { status: 404 }
+        { error: { code: "VALIDATION_ERROR", message: parsedOutline.error } },
+        { status: 400 }
       );
     }
+    const editedOutline = parsedOutline?.value || null;
+    const outline = editedOutline ? toStoredOutline(editedOutline) : null;
 
     // Check if thesis was actually edited by comparing with existing
     const [existingThesis] = await db.select()
@@ -203,50 +165,63 @@ export async function PUT(
       .where(eq(thesisOutlines.blogPostId, params.blogPostId))
       .limit(1);
 
-    const thesisChanged = existingThesis && (
-      existingThesis.thesisStatement !== thesis ||
-      JSON.stringify(existingThesis.outline) !== JSON.stringify(outline)
-    );
+    const statementChanged = Boolean(existingThesis) && thesis !== undefined
+      && existingThesis.thesisStatement !== thesis;
+    const outlineChanged = Boolean(existingThesis) && outline !== null
+      && !outlinesEqual((existingThesis.outline as OutlineSection[]) || [], outline);
+    const thesisChanged = statementChanged || outlineChanged;
+
+    // Update thesis only if it was edited, so unchanged theses don't mark research stale
+    if (thesisChanged) {
+      await supersedeJobs(params.blogPostId, "research");
 
-    // Update thesis if provided
-    if (thesis && outline && existingThesis) {
       await db.update(thesisOutlines)
         .set({
-          thesisStatement: thesis,
-          outline: outline as any,
+          ...(statementChanged && { thesisStatement: thesis }),
+          ...(outlineChanged && editedOutline && outline && {
+            outline: outline as any,
+            // Research searches by section number, so expectations follow the sections they belonged to
+            evidenceExpectations: remapEvidenceExpectations(
+              (existingThesis.evidenceExpectations as EvidenceExpectation[]) || [],
+              editedOutline
+            ) as any,
+          }),
           updatedAt: new Date(),
         })
         .where(eq(thesisOutlines.blogPostId, params.blogPostId));
       
-      console.log(`[Thesis PUT] Updated thesis for ${params.blogPostId}, changed: ${thesisChanged}`);
+      console.log(`[Thesis PUT] Updated thesis for ${params.blogPostId}, statement changed: ${statementChanged}, outline changed: ${outlineChanged}`);
     }
 
-    // If thesis changed, clear existing research (it's now stale) and start new background research
+    // If thesis changed, existing research is stale: the transition clears it
+    await transitionStatus(params.blogPostId, "research_pending", {
+      invalidate: thesisChanged,
+    });
+
+    let researchJobId: string | undefined;
     if (thesisChanged) {
-      console.log(`[Thesis PUT] Thesis was edited, clearing stale research and starting fresh`);
-      
-      // Delete existing research since thesis changed
-      await db.delete(researchSources)
-        .where(eq(researchSources.blogPostId, params.blogPostId));
-      
-      // Fire-and-forget: Start new background research
-      startBackgroundResearch(params.blogPostId, blogPost.userId).catch(err => {
-        console.error("[Thesis PUT] Background research error (non-blocking):", err);
-      });
-    }
+      console.log(`[Thesis PUT] Thesis was edited, cleared stale research and starting fresh`);
 
-    await db.update(blogPosts)
-      .set({ status: "research_pending", updatedAt: new Date() })
-      .where(eq(blogPosts.id, params.blogPostId));
+      const researchJob = await enqueueJob(params.blogPostId, "research");
+      startJob(researchJob.id);
+      researchJobId = researchJob.id;
+    }
 
     return NextResponse.json({
       status: "research_pending",
       currentStep: "research",
       thesisUpdated: thesisChanged,
       backgroundResearchStarted: thesisChanged,
+      researchJobId,
     });
   } catch (error: any) {
     console.error("Error updating thesis:", error);
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: 409 }
+      );
+    }
     return NextResponse.json(
       { error: { code: "INTERNAL_ERROR", message: error.message } },
       { status: 500 }
@@ -1,36 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
+import { requireOwnedBlogPost } from "@/lib/auth/ownership";
 import { WorkflowOrchestrator } from "@/lib/workflow/orchestrator";
-import { db } from "@/lib/db";
-import { blogPosts } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
 import { flushOpikTraces } from "@/lib/utils/opik";
+import { WorkflowTransitionError } from "@/lib/workflow/state-machine";
+import { getOwnedTemplate, templateVoiceToneOption } from "@/lib/workflow/templates";
+import { getUserVoiceProfiles, voiceProfileOption } from "@/lib/workflow/voice-profiles";
 
 export async function POST(
   request: NextRequest,
   { params }: { params: { blogPostId: string } }
 ) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: { code: "AUTH_REQUIRED", message: "Authentication required" } },
-        { status: 401 }
-      );
-    }
-
-    const [blogPost] = await db.select()
-      .from(blogPosts)
-      .where(eq(blogPosts.id, params.blogPostId))
-      .limit(1);
-
-    if (!blogPost) {
-      return NextResponse.json(
-        { error: { code: "BLOG_POST_NOT_FOUND", message: "Blog post not found" } },
-        { status: 404 }
-      );
-    }
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+    const { blogPost } = access;
 
     console.log("[VoiceTone API] Getting pre-defined voice/tone options for blog type:", blogPost.blogType);
 
@@ -39,14 +22,32 @@ export async function POST(
     // Get pre-defined options (no LLM call needed)
     const result = await orchestrator.generateVoiceToneOptions(blogPost.blogType);
     
-    const options = result?.options || [];
+    const options = Array.isArray(result?.options) ? [...result.options] : [];
 
     if (options.length === 0) {
       console.warn("[VoiceTone API] Warning: No options returned from orchestrator");
     }
 
+    // The user's own voice profiles are offered for every blog type
+    const profiles = await getUserVoiceProfiles(blogPost.userId);
+    options.push(...profiles.map(voiceProfileOption));
+
+    // Posts started from a template come with its voice/tone preselected
+    let preselectedOptionId: string | null = null;
+    if (blogPost.templateId) {
+      const template = await getOwnedTemplate(blogPost.userId, blogPost.templateId);
+      const templateOption = template ? templateVoiceToneOption(template) : null;
+      if (templateOption) {
+        if (!options.some((option: any) => option.id === templateOption.id)) {
+          options.push(templateOption);
+        }
+        preselectedOptionId = templateOption.id;
+      }
+    }
+
     return NextResponse.json({
-      options: Array.isArray(options) ? options : [],
+      options,
+      preselectedOptionId,
       status: "voice_tone_pending",
     });
   } catch (error: any) {
@@ -71,14 +72,9 @@ export async function PUT(
   { params }: { params: { blogPostId: string } }
 ) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: { code: "AUTH_REQUIRED", message: "Authentication required" } },
-        { status: 401 }
-      );
-    }
+    const access = await requireOwnedBlogPost(params.blogPostId);
+    if ("error" in access) return access.error;
+    const { blogPost } = access;
 
     const body = await request.json();
     const { selectedOptionId } = body;
@@ -90,18 +86,6 @@ export async function PUT(
       );
     }
 
-    const [blogPost] = await db.select()
-      .from(blogPosts)
-      .where(eq(blogPosts.id, params.blogPostId))
-      .limit(1);
-
-    if (!blogPost) {
-      return NextResponse.json(
-        { error: { code: "BLOG_POST_NOT_FOUND", message: "Blog post not found" } },
-        { status: 404 }
-      );
-    }
-
     const orchestrator = new WorkflowOrchestrator(params.blogPostId, blogPost.userId);
     
     // Get the options to find the selected one
@@ -119,6 +103,12 @@ export async function PUT(
     });
   } catch (error: any) {
     console.error("Error selecting voice/tone:", error);
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: 409 }
+      );
+    }
     return NextResponse.json(
       { error: { code: "INTERNAL_ERROR", message: error.message } },
       { status: 500 }
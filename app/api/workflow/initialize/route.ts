@@ -3,6 +3,7 @@ import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { blogPosts, users } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import { getOwnedTemplate } from "@/lib/workflow/templates";
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,9 +17,10 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { idea, blogType } = body;
+    const { idea, templateId } = body;
 
-    if (!idea || !blogType) {
+    // A template supplies the blog type when none is chosen
+    if (!idea || (!body.blogType && !templateId)) {
       return NextResponse.json(
         { error: { code: "VALIDATION_ERROR", message: "Idea and blogType are required" } },
         { status: 400 }
@@ -48,12 +50,23 @@ export async function POST(request: NextRequest) {
       user = newUser;
     }
 
+    const template = templateId ? await getOwnedTemplate(user.id, templateId) : null;
+    if (templateId && !template) {
+      return NextResponse.json(
+        { error: { code: "TEMPLATE_NOT_FOUND", message: "Template not found" } },
+        { status: 404 }
+      );
+    }
+
+    const blogType = body.blogType || template!.blogType;
+
     // Create blog post
     const [blogPost] = await db.insert(blogPosts).values({
       userId: user.id,
       idea: idea, // Store the initial idea
       blogType: blogType as any,
       status: "voice_tone_pending",
+      templateId: template?.id || null,
     }).returning();
 
     return NextResponse.json({
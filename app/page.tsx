@@ -1,7 +1,7 @@
 "use client";
 
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useUser } from "@clerk/nextjs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -33,12 +33,48 @@ export default function HomePage() {
   const [idea, setIdea] = useState("");
   const [blogType, setBlogType] = useState<string>("");
   const [loading, setLoading] = useState(false);
+  const [templates, setTemplates] = useState<any[]>([]);
+  const [templateId, setTemplateId] = useState("");
   
   // Landing page state
   const [email, setEmail] = useState("");
   const [requestStatus, setRequestStatus] = useState<"idle" | "loading" | "success" | "error">("idle");
   const [errorMessage, setErrorMessage] = useState("");
 
+  // Templates page links here with ?templateId= to start a post from a template
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch("/api/templates");
+        if (!response.ok) return;
+        const data = await response.json();
+        const list = data.templates || [];
+        setTemplates(list);
+
+        const requested = new URLSearchParams(window.location.search).get("templateId");
+        const template = list.find((t: any) => t.id === requested);
+        if (template) {
+          setTemplateId(template.id);
+          setBlogType(template.blogType);
+        }
+      } catch (error) {
+        console.error("Error loading templates:", error);
+      }
+    };
+
+    loadTemplates();
+  }, [isSignedIn]);
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find((t) => t.id === id);
+    if (template) {
+      setBlogType(template.blogType);
+    }
+  };
+
   if (!isLoaded) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -209,7 +245,7 @@ export default function HomePage() {
       const response = await fetch("/api/workflow/initialize", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ idea, blogType }),
+        body: JSON.stringify({ idea, blogType, templateId: templateId || undefined }),
       });
 
       if (!response.ok) {
@@ -250,7 +286,7 @@ export default function HomePage() {
             <form onSubmit={handleSubmit} className="space-y-6">
               <div>
                 <label htmlFor="idea" className="block text-sm font-medium mb-2">
-                  What's your blog post idea?
+                  What&apos;s your blog post idea?
                 </label>
                 <textarea
                   id="idea"
@@ -262,6 +298,30 @@ export default function HomePage() {
                 />
               </div>
 
+              {templates.length > 0 && (
+                <div>
+                  <label htmlFor="template" className="block text-sm font-medium mb-2">
+                    Start from a template (optional)
+                  </label>
+                  <select
+                    id="template"
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    value={templateId}
+                    onChange={(e) => handleTemplateChange(e.target.value)}
+                  >
+                    <option value="">No template</option>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                  {templateId && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Voice/tone and outline structure will be pre-filled from the template.
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium mb-2">
                   Select blog type:
@@ -6,7 +6,7 @@ import { useUser } from "@clerk/nextjs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { ExpandableBlogCard } from "@/components/ui/expandable-blog-card";
-import { Plus } from "lucide-react";
+import { Download, Plus } from "lucide-react";
 
 interface BlogPost {
   id: string;
@@ -24,6 +24,9 @@ export default function PostsPage() {
   const [posts, setPosts] = useState<BlogPost[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [exportFormat, setExportFormat] = useState<"markdown" | "html">("markdown");
+  const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
     if (isLoaded && !isSignedIn) {
@@ -57,6 +60,42 @@ export default function PostsPage() {
     }
   };
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]);
+  };
+
+  // Zip of the selected posts, or every completed post when nothing is selected
+  const handleBulkExport = async () => {
+    setExporting(true);
+
+    try {
+      const query = new URLSearchParams({ format: exportFormat });
+      if (selectedIds.length > 0) query.set("ids", selectedIds.join(","));
+      const response = await fetch(`/api/posts/export?${query}`);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: { message: "Failed to export posts" } }));
+        throw new Error(errorData.error?.message || "Failed to export posts");
+      }
+
+      const blob = await response.blob();
+      const filename = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || "blog-posts.zip";
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error("Error exporting posts:", err);
+      alert(err.message || "Failed to export posts. Please try again.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
   if (!isLoaded) {
     return (
       <div className="min-h-screen bg-background p-8 flex items-center justify-center">
@@ -161,17 +200,44 @@ export default function PostsPage() {
         {/* Posts List */}
         {!loading && !error && posts.length > 0 && (
           <div className="space-y-4">
+            <div className="flex items-center justify-end gap-2">
+              <select
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as "markdown" | "html")}
+                aria-label="Export format"
+              >
+                <option value="markdown">Markdown</option>
+                <option value="html">HTML</option>
+              </select>
+              <Button variant="outline" onClick={handleBulkExport} disabled={exporting}>
+                <Download className="mr-2 h-4 w-4" />
+                {exporting
+                  ? "Exporting..."
+                  : selectedIds.length > 0 ? `Export Selected (${selectedIds.length})` : "Export All"}
+              </Button>
+            </div>
             {posts.map((post) => (
-              <ExpandableBlogCard
-                key={post.id}
-                id={post.id}
-                title={post.title}
-                blogType={post.blogType}
-                preview={getPreview(post)}
-                content={post.content}
-                createdAt={post.createdAt}
-                wordCount={post.wordCount}
-              />
+              <div key={post.id} className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  className="mt-7"
+                  checked={selectedIds.includes(post.id)}
+                  onChange={() => toggleSelected(post.id)}
+                  aria-label={`Select ${post.title}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <ExpandableBlogCard
+                    id={post.id}
+                    title={post.title}
+                    blogType={post.blogType}
+                    preview={getPreview(post)}
+                    content={post.content}
+                    createdAt={post.createdAt}
+                    wordCount={post.wordCount}
+                  />
+                </div>
+              </div>
             ))}
           </div>
         )}
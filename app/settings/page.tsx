@@ -4,21 +4,99 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { CITATION_STYLES, CITATION_STYLE_LABELS } from "@/lib/utils/citation-format";
 
 const PROVIDERS = [
   { id: "openai", label: "OpenAI", placeholder: "sk-..." },
   { id: "anthropic", label: "Anthropic", placeholder: "sk-ant-..." },
 ];
 
+const SEARCH_PROVIDERS = [
+  { id: "", label: "Server default" },
+  { id: "perplexity", label: "Perplexity" },
+  { id: "exa", label: "Exa" },
+  { id: "fixture", label: "Recorded fixtures (offline, no API calls)" },
+];
+
 export default function SettingsPage() {
   const [keys, setKeys] = useState<Record<string, string>>({});
   const [saving, setSaving] = useState<Record<string, boolean>>({});
   const [loading, setLoading] = useState(true);
+  const [searchProvider, setSearchProvider] = useState("");
+  const [savingSearch, setSavingSearch] = useState(false);
+  const [citationStyle, setCitationStyle] = useState("");
+  const [savingCitationStyle, setSavingCitationStyle] = useState(false);
 
   useEffect(() => {
     loadKeys();
+    loadSettings();
   }, []);
 
+  const loadSettings = async () => {
+    try {
+      const response = await fetch("/api/settings");
+      if (response.ok) {
+        const data = await response.json();
+        setSearchProvider(data.searchProvider || "");
+        setCitationStyle(data.citationStyle || "");
+      }
+    } catch (error) {
+      console.error("Error loading settings:", error);
+    }
+  };
+
+  const handleSearchProviderChange = async (value: string) => {
+    const previous = searchProvider;
+    setSearchProvider(value);
+    setSavingSearch(true);
+
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ searchProvider: value || null }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        setSearchProvider(previous);
+        alert(error.error?.message || "Failed to save search provider");
+      }
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      setSearchProvider(previous);
+      alert("Failed to save search provider. Please try again.");
+    } finally {
+      setSavingSearch(false);
+    }
+  };
+
+  const handleCitationStyleChange = async (value: string) => {
+    const previous = citationStyle;
+    setCitationStyle(value);
+    setSavingCitationStyle(true);
+
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ citationStyle: value || null }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        setCitationStyle(previous);
+        alert(error.error?.message || "Failed to save citation style");
+      }
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      setCitationStyle(previous);
+      alert("Failed to save citation style. Please try again.");
+    } finally {
+      setSavingCitationStyle(false);
+    }
+  };
+
   const loadKeys = async () => {
     try {
       const response = await fetch("/api/api-keys");
@@ -132,6 +210,57 @@ export default function SettingsPage() {
             ))}
           </CardContent>
         </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Research</CardTitle>
+            <CardDescription>
+              Choose which search provider the research step uses.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <label htmlFor="search-provider" className="block text-sm font-medium">
+              Search provider
+            </label>
+            <select
+              id="search-provider"
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={searchProvider}
+              onChange={(e) => handleSearchProviderChange(e.target.value)}
+              disabled={savingSearch}
+            >
+              {SEARCH_PROVIDERS.map((provider) => (
+                <option key={provider.id} value={provider.id}>{provider.label}</option>
+              ))}
+            </select>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Citations</CardTitle>
+            <CardDescription>
+              Default citation style for final posts and exports. Each export can still pick its own.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <label htmlFor="citation-style" className="block text-sm font-medium">
+              Citation style
+            </label>
+            <select
+              id="citation-style"
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={citationStyle}
+              onChange={(e) => handleCitationStyleChange(e.target.value)}
+              disabled={savingCitationStyle}
+            >
+              <option value="">Inline links (default)</option>
+              {CITATION_STYLES.filter((style) => style !== "inline").map((style) => (
+                <option key={style} value={style}>{CITATION_STYLE_LABELS[style]}</option>
+              ))}
+            </select>
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
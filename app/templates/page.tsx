@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+
+const BLOG_TYPE_LABELS: Record<string, string> = {
+  academic: "Academic",
+  argumentative: "Argumentative",
+  lessons: "Lessons",
+  metaphor: "Metaphor",
+  systems: "Systems",
+};
+
+export default function TemplatesPage() {
+  const router = useRouter();
+  const [templates, setTemplates] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      const response = await fetch("/api/templates");
+      if (response.ok) {
+        const data = await response.json();
+        setTemplates(data.templates || []);
+      }
+    } catch (error) {
+      console.error("Error loading templates:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRename = async (templateId: string) => {
+    setBusyId(templateId);
+
+    try {
+      const response = await fetch(`/api/templates/${templateId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newName.trim() }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setTemplates((prev) => prev.map((template) => template.id === templateId ? data.template : template));
+        setRenamingId(null);
+      } else {
+        alert(data.error?.message || "Failed to rename template");
+      }
+    } catch (error) {
+      console.error("Error renaming template:", error);
+      alert("Failed to rename template. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (template: any) => {
+    if (!confirm(`Delete the "${template.name}" template?`)) return;
+
+    setBusyId(template.id);
+
+    try {
+      const response = await fetch(`/api/templates/${template.id}`, { method: "DELETE" });
+
+      if (response.ok) {
+        setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      } else {
+        const error = await response.json();
+        alert(error.error?.message || "Failed to delete template");
+      }
+    } catch (error) {
+      console.error("Error deleting template:", error);
+      alert("Failed to delete template. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background p-8">
+        <div className="max-w-4xl mx-auto">
+          <p>Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-4xl md:text-5xl font-serif font-bold mb-2 text-foreground">Templates</h1>
+          <p className="text-muted-foreground">
+            Start new posts with a saved blog type, voice and outline structure
+          </p>
+        </div>
+
+        {templates.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <h3 className="text-xl font-semibold mb-2">No templates yet</h3>
+              <p className="text-muted-foreground">
+                Use &quot;Save as Template&quot; on a post&apos;s outline or final page to create one.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {templates.map((template) => {
+              const outline = template.savedState?.outline || [];
+              const sourceTypes = template.savedState?.sourceTypes || [];
+
+              return (
+                <Card key={template.id}>
+                  <CardHeader>
+                    {renamingId === template.id ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={newName}
+                          onChange={(e) => setNewName(e.target.value)}
+                          disabled={busyId === template.id}
+                          autoFocus
+                        />
+                        <Button
+                          onClick={() => handleRename(template.id)}
+                          disabled={busyId === template.id || !newName.trim()}
+                        >
+                          Save
+                        </Button>
+                        <Button variant="ghost" onClick={() => setRenamingId(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    ) : (
+                      <CardTitle>{template.name}</CardTitle>
+                    )}
+                    <CardDescription>
+                      {BLOG_TYPE_LABELS[template.blogType] || template.blogType}
+                      {template.voiceTone?.selectedOptionName && ` · ${template.voiceTone.selectedOptionName}`}
+                      {` · ${outline.length} section${outline.length === 1 ? "" : "s"}`}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {outline.length > 0 && (
+                      <ol className="list-decimal pl-5 text-sm text-muted-foreground space-y-1">
+                        {outline.map((section: any) => (
+                          <li key={section.sectionNumber}>{section.title}</li>
+                        ))}
+                      </ol>
+                    )}
+                    {sourceTypes.length > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        Preferred sources: {sourceTypes.join(", ")}
+                      </div>
+                    )}
+                    <div className="flex gap-2">
+                      <Button onClick={() => router.push(`/?templateId=${template.id}`)}>
+                        Start Post
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          setRenamingId(template.id);
+                          setNewName(template.name);
+                        }}
+                        disabled={busyId === template.id}
+                      >
+                        Rename
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => handleDelete(template)}
+                        disabled={busyId === template.id}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,395 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+interface ProfileForm {
+  name: string;
+  description: string;
+  writingStyle: string;
+  formality: string;
+  emotionalPosture: string;
+  // One rule per line
+  doRules: string;
+  dontRules: string;
+}
+
+const EMPTY_FORM: ProfileForm = {
+  name: "",
+  description: "",
+  writingStyle: "",
+  formality: "",
+  emotionalPosture: "",
+  doRules: "",
+  dontRules: "",
+};
+
+const toLines = (rules: string[] | null | undefined) => (rules || []).join("\n");
+const fromLines = (text: string) => text.split("\n").map((line) => line.trim()).filter(Boolean);
+
+const MAX_SAMPLES = 10;
+
+// Metrics shown on learned profiles, in display order
+const METRIC_LABELS: [string, string, string][] = [
+  ["avgSentenceLength", "Avg sentence", " words"],
+  ["readingGrade", "Reading grade", ""],
+  ["firstPersonRate", "First person", " per 100 words"],
+  ["secondPersonRate", "Second person", " per 100 words"],
+  ["contractionRate", "Contractions", " per 100 words"],
+];
+
+export default function VoicesPage() {
+  const [profiles, setProfiles] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  // null = form closed, "new" = creating, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ProfileForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [learnOpen, setLearnOpen] = useState(false);
+  const [samples, setSamples] = useState<string[]>([""]);
+  const [learnName, setLearnName] = useState("");
+  const [learning, setLearning] = useState(false);
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const loadProfiles = async () => {
+    try {
+      const response = await fetch("/api/voice-profiles");
+      if (response.ok) {
+        const data = await response.json();
+        setProfiles(data.profiles || []);
+      }
+    } catch (error) {
+      console.error("Error loading voice profiles:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = (profile: any | null) => {
+    setEditingId(profile ? profile.id : "new");
+    setForm(profile
+      ? {
+          name: profile.name,
+          description: profile.description || "",
+          writingStyle: profile.writingStyle,
+          formality: profile.formality,
+          emotionalPosture: profile.emotionalPosture,
+          doRules: toLines(profile.doRules),
+          dontRules: toLines(profile.dontRules),
+        }
+      : EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+
+    try {
+      const isNew = editingId === "new";
+      const response = await fetch(isNew ? "/api/voice-profiles" : `/api/voice-profiles/${editingId}`, {
+        method: isNew ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          doRules: fromLines(form.doRules),
+          dontRules: fromLines(form.dontRules),
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setProfiles((prev) => isNew
+          ? [...prev, data.profile]
+          : prev.map((profile) => profile.id === data.profile.id ? data.profile : profile));
+        setEditingId(null);
+      } else {
+        alert(data.error?.message || "Failed to save voice profile");
+      }
+    } catch (error) {
+      console.error("Error saving voice profile:", error);
+      alert("Failed to save voice profile. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUploadSamples = async (files: FileList | null) => {
+    if (!files) return;
+
+    const texts = await Promise.all(Array.from(files).map((file) => file.text()));
+    setSamples((prev) => [...prev.filter((sample) => sample.trim()), ...texts].slice(0, MAX_SAMPLES));
+  };
+
+  const handleLearn = async () => {
+    setLearning(true);
+
+    try {
+      const response = await fetch("/api/voice-profiles/learn", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          samples: samples.filter((sample) => sample.trim()),
+          name: learnName.trim() || undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setProfiles((prev) => [...prev, data.profile]);
+        setLearnOpen(false);
+        setSamples([""]);
+        setLearnName("");
+      } else {
+        alert(data.error?.message || "Failed to learn voice profile");
+      }
+    } catch (error) {
+      console.error("Error learning voice profile:", error);
+      alert("Failed to learn voice profile. Please try again.");
+    } finally {
+      setLearning(false);
+    }
+  };
+
+  const handleDelete = async (profile: any) => {
+    if (!confirm(`Delete the "${profile.name}" voice profile?`)) return;
+
+    try {
+      const response = await fetch(`/api/voice-profiles/${profile.id}`, { method: "DELETE" });
+
+      if (response.ok) {
+        setProfiles((prev) => prev.filter((p) => p.id !== profile.id));
+      } else {
+        const error = await response.json();
+        alert(error.error?.message || "Failed to delete voice profile");
+      }
+    } catch (error) {
+      console.error("Error deleting voice profile:", error);
+      alert("Failed to delete voice profile. Please try again.");
+    }
+  };
+
+  const field = (key: keyof ProfileForm) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm({ ...form, [key]: e.target.value }),
+    disabled: saving,
+  });
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background p-8">
+        <div className="max-w-4xl mx-auto">
+          <p>Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-4xl md:text-5xl font-serif font-bold mb-2 text-foreground">Voice Profiles</h1>
+            <p className="text-muted-foreground">
+              Your own voices, offered next to the presets when you choose a voice and tone
+            </p>
+          </div>
+          {editingId === null && !learnOpen && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setLearnOpen(true)}>Learn from Samples</Button>
+              <Button onClick={() => startEditing(null)}>New Voice</Button>
+            </div>
+          )}
+        </div>
+
+        {learnOpen && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Learn from Samples</CardTitle>
+              <CardDescription>
+                Paste or upload a few posts you&apos;ve written (at least 300 words in total). The voice is
+                measured and described, then saved as a profile you can edit.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Name</label>
+                <Input
+                  value={learnName}
+                  onChange={(e) => setLearnName(e.target.value)}
+                  placeholder="Optional, suggested from the samples if empty"
+                  disabled={learning}
+                />
+              </div>
+              {samples.map((sample, index) => (
+                <div key={index}>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium">Sample {index + 1}</label>
+                    {samples.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSamples(samples.filter((_, i) => i !== index))}
+                        disabled={learning}
+                      >
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                  <Textarea
+                    value={sample}
+                    onChange={(e) => setSamples(samples.map((s, i) => i === index ? e.target.value : s))}
+                    className="min-h-[150px]"
+                    placeholder="Paste a post in plain text or markdown"
+                    disabled={learning}
+                  />
+                </div>
+              ))}
+              <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setSamples([...samples, ""])}
+                  disabled={learning || samples.length >= MAX_SAMPLES}
+                >
+                  Add Sample
+                </Button>
+                <label className="text-sm">
+                  <span className="sr-only">Upload samples</span>
+                  <input
+                    type="file"
+                    accept=".md,.markdown,.txt,text/plain,text/markdown"
+                    multiple
+                    onChange={(e) => {
+                      handleUploadSamples(e.target.files);
+                      e.target.value = "";
+                    }}
+                    disabled={learning || samples.filter((sample) => sample.trim()).length >= MAX_SAMPLES}
+                  />
+                </label>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleLearn}
+                  disabled={learning || !samples.some((sample) => sample.trim())}
+                >
+                  {learning ? "Analyzing..." : "Learn Voice"}
+                </Button>
+                <Button variant="ghost" onClick={() => setLearnOpen(false)} disabled={learning}>
+                  Cancel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {editingId !== null && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>{editingId === "new" ? "New Voice Profile" : "Edit Voice Profile"}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Name</label>
+                  <Input {...field("name")} placeholder="e.g. Newsletter voice" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Description</label>
+                  <Input {...field("description")} placeholder="Optional" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Writing style</label>
+                  <Input {...field("writingStyle")} placeholder="e.g. Short sentences, concrete examples" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Formality</label>
+                  <Input {...field("formality")} placeholder="e.g. Conversational, first-person" />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium mb-2">Emotional posture</label>
+                  <Input {...field("emotionalPosture")} placeholder="e.g. Curious, quietly confident" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Do (one rule per line)</label>
+                  <Textarea {...field("doRules")} className="min-h-[100px]" placeholder="Open with a concrete scene" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Don&apos;t (one rule per line)</label>
+                  <Textarea {...field("dontRules")} className="min-h-[100px]" placeholder="Use exclamation marks" />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleSave}
+                  disabled={saving || !form.name.trim() || !form.writingStyle.trim() || !form.formality.trim() || !form.emotionalPosture.trim()}
+                >
+                  {saving ? "Saving..." : "Save"}
+                </Button>
+                <Button variant="ghost" onClick={() => setEditingId(null)} disabled={saving}>
+                  Cancel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {profiles.length === 0 && editingId === null && !learnOpen ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <h3 className="text-xl font-semibold mb-2">No voice profiles yet</h3>
+              <p className="text-muted-foreground">
+                Create one, or learn one from your own writing, to reuse the same voice across posts.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {profiles.map((profile) => (
+              <Card key={profile.id}>
+                <CardHeader>
+                  <CardTitle>{profile.name}</CardTitle>
+                  {profile.description && <CardDescription>{profile.description}</CardDescription>}
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="text-sm space-y-1">
+                    <div><strong>Style:</strong> {profile.writingStyle}</div>
+                    <div><strong>Formality:</strong> {profile.formality}</div>
+                    <div><strong>Tone:</strong> {profile.emotionalPosture}</div>
+                    {profile.doRules?.length > 0 && (
+                      <div><strong>Do:</strong> {profile.doRules.join("; ")}</div>
+                    )}
+                    {profile.dontRules?.length > 0 && (
+                      <div><strong>Don&apos;t:</strong> {profile.dontRules.join("; ")}</div>
+                    )}
+                  </div>
+                  {profile.metrics && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                      <span>Learned from {profile.metrics.sampleCount} sample{profile.metrics.sampleCount === 1 ? "" : "s"}</span>
+                      {METRIC_LABELS.map(([key, label, unit]) => (
+                        <span key={key}>{label}: {profile.metrics[key]}{unit}</span>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => startEditing(profile)} disabled={editingId !== null}>
+                      Edit
+                    </Button>
+                    <Button variant="outline" onClick={() => handleDelete(profile)}>
+                      Delete
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,12 +7,23 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { MarkdownViewer } from "@/components/ui/markdown-viewer";
 import { Eye, Code } from "lucide-react";
 import { WorkflowLoading } from "@/components/workflow/workflow-loading";
+import { StaleBanner } from "@/components/workflow/stale-banner";
+import { DraftHistory } from "@/components/workflow/draft-history";
+import { RevisionForm, RevisionRequest } from "@/components/workflow/revision-form";
+import { VoiceScoreReport, VoiceScore } from "@/components/workflow/voice-score-report";
 import dynamic from "next/dynamic";
 
 const AILoading = dynamic(() => import("@/components/kokonutui/ai-loading").then(mod => mod.default), {
   ssr: false,
 });
 import { LOADING_MESSAGES } from "@/lib/loading-messages";
+import { pollJob, isJobPending } from "@/lib/utils/job-client";
+import { readSSE } from "@/lib/utils/sse";
+import { countWords } from "@/lib/utils/word-count";
+import { parseDraftSections } from "@/lib/workflow/draft-sections";
+
+// Wait this long after the last keystroke before saving an edit
+const AUTOSAVE_DELAY_MS = 1500;
 
 export default function DraftPage() {
   const params = useParams();
@@ -21,24 +32,154 @@ export default function DraftPage() {
   
   const [draft, setDraft] = useState("");
   const [wordCount, setWordCount] = useState(0);
+  const [version, setVersion] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
+  const [streaming, setStreaming] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [isPreviewFlipped, setIsPreviewFlipped] = useState(false);
+  const [staleness, setStaleness] = useState<any>(null);
+  const [outline, setOutline] = useState<any[]>([]);
+  const [showRevisionForm, setShowRevisionForm] = useState(false);
+  const [revising, setRevising] = useState(false);
+  const [selectedSection, setSelectedSection] = useState<number | null>(null);
+  const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  // Score of the shown version; any change to the content clears it, as on the server
+  const [voiceScore, setVoiceScore] = useState<VoiceScore | null>(null);
   const hasAutoGenerated = useRef(false);
+  const jobAbortController = useRef<AbortController | null>(null);
+  const streamAbortController = useRef<AbortController | null>(null);
+  // Draft shown before a streamed generation started, restored on cancel
+  const previousDraft = useRef({ content: "", wordCount: 0 });
+  // Unsaved manual edit, and the chain of in-flight saves so they apply in order
+  const pendingEdit = useRef<string | null>(null);
+  const autosaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
 
   useEffect(() => {
     loadState();
+
+    return () => {
+      jobAbortController.current?.abort();
+      streamAbortController.current?.abort();
+      // Don't lose an edit made just before leaving the page
+      flushEdits();
+    };
   }, [blogPostId]);
 
+  const saveEdit = async () => {
+    const content = pendingEdit.current;
+    if (content === null) return;
+    pendingEdit.current = null;
+
+    setSaveStatus("saving");
+
+    try {
+      const response = await fetch(`/api/workflow/${blogPostId}/draft`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setVersion(data.version);
+        setWordCount(data.wordCount);
+        setSaveStatus("saved");
+      } else {
+        const error = await response.json().catch(() => ({}));
+        console.error("Error saving draft edit:", error.error?.message);
+        setSaveStatus("error");
+      }
+    } catch (error) {
+      console.error("Error saving draft edit:", error);
+      setSaveStatus("error");
+    }
+  };
+
+  // Save any pending edit now and wait for all saves to finish
+  const flushEdits = () => {
+    if (autosaveTimer.current) {
+      clearTimeout(autosaveTimer.current);
+      autosaveTimer.current = null;
+    }
+    saveQueue.current = saveQueue.current.then(saveEdit);
+    return saveQueue.current;
+  };
+
+  const handleContentChange = (content: string) => {
+    setDraft(content);
+    setWordCount(countWords(content));
+    setVoiceScore(null);
+    pendingEdit.current = content;
+
+    if (autosaveTimer.current) {
+      clearTimeout(autosaveTimer.current);
+    }
+    autosaveTimer.current = setTimeout(flushEdits, AUTOSAVE_DELAY_MS);
+  };
+
+  const markDraftFresh = () => {
+    setStaleness((prev: any) => prev && { ...prev, draft: { stale: false, changedUpstream: null } });
+  };
+
+  const warnUncitedSources = (sourceIds?: string[]) => {
+    if (sourceIds?.length) {
+      alert(`The draft still doesn't cite these required sources: ${sourceIds.join(", ")}`);
+    }
+  };
+
+  // Wait for a draft job to finish and show its content
+  const waitForDraftJob = async (jobId: string) => {
+    jobAbortController.current?.abort();
+    const controller = new AbortController();
+    jobAbortController.current = controller;
+    setGenerating(true);
+
+    try {
+      const job = await pollJob(jobId, { signal: controller.signal });
+
+      if (job.status === "succeeded") {
+        setDraft(job.result?.content || "");
+        setWordCount(job.result?.wordCount || 0);
+        setVersion(job.result?.version ?? null);
+        setVoiceScore(null);
+        markDraftFresh();
+        warnUncitedSources(job.result?.uncitedRequiredSources);
+      } else {
+        alert(job.error || "Failed to generate draft");
+      }
+    } catch (error: any) {
+      if (error.name !== "AbortError") {
+        console.error("Error waiting for draft:", error);
+        alert("Failed to generate draft. Please try again.");
+      }
+    } finally {
+      if (jobAbortController.current === controller) {
+        setGenerating(false);
+      }
+    }
+  };
+
   const loadState = async () => {
     try {
       const response = await fetch(`/api/workflow/${blogPostId}/state`);
       if (response.ok) {
         const data = await response.json();
-        if (data.draft?.content) {
+        setStaleness(data.staleness || null);
+        setOutline(data.thesisOutline?.outline || []);
+        const activeJob = [data.jobs?.draft, data.jobs?.revision, data.jobs?.section].find(isJobPending);
+        if (activeJob) {
+          // A draft, revision or section is already being generated (e.g. started from the research page)
+          hasAutoGenerated.current = true;
+          setLoading(false);
+          await waitForDraftJob(activeJob.id);
+          return;
+        } else if (data.draft?.content) {
           setDraft(data.draft.content);
           setWordCount(data.draft.wordCount || 0);
+          setVersion(data.draft.version ?? null);
+          setVoiceScore(data.draft.voiceScore || null);
         } else if (!hasAutoGenerated.current) {
           // No draft exists yet, auto-generate it
           hasAutoGenerated.current = true;
@@ -54,27 +195,132 @@ export default function DraftPage() {
     }
   };
 
+  // Stream a new draft into the viewer; the version is only saved once generation completes
   const handleGenerate = async () => {
+    await flushEdits();
+    streamAbortController.current?.abort();
+    const controller = new AbortController();
+    streamAbortController.current = controller;
+    previousDraft.current = { content: draft, wordCount };
     setGenerating(true);
 
+    let completed = false;
+
     try {
-      const response = await fetch(`/api/workflow/${blogPostId}/draft`, {
+      const response = await fetch(`/api/workflow/${blogPostId}/draft/stream`, {
         method: "POST",
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error?.message || "Failed to generate draft");
+      }
+
+      let content = "";
+      for await (const { event, data } of readSSE(response.body)) {
+        if (event === "token") {
+          if (!content) {
+            setStreaming(true);
+            setIsPreviewFlipped(true);
+          }
+          content += data.content;
+          setDraft(content);
+        } else if (event === "done") {
+          completed = true;
+          if (data.content) {
+            // Revised after streaming to cite required sources
+            setDraft(data.content);
+          }
+          setWordCount(data.wordCount || 0);
+          setVersion(data.version ?? null);
+          setVoiceScore(null);
+          markDraftFresh();
+          warnUncitedSources(data.uncitedRequiredSources);
+        } else if (event === "error") {
+          throw new Error(data.message || "Failed to generate draft");
+        }
+      }
+
+      if (!completed) {
+        throw new Error("Draft generation ended unexpectedly");
+      }
+    } catch (error: any) {
+      if (error.name !== "AbortError") {
+        console.error("Error generating draft:", error);
+        alert(error.message || "Failed to generate draft. Please try again.");
+      }
+    } finally {
+      if (streamAbortController.current === controller) {
+        streamAbortController.current = null;
+        if (!completed) {
+          setDraft(previousDraft.current.content);
+          setWordCount(previousDraft.current.wordCount);
+        }
+        setStreaming(false);
+        setGenerating(false);
+      }
+    }
+  };
+
+  const handleCancelGenerate = () => {
+    streamAbortController.current?.abort();
+    streamAbortController.current = null;
+    setDraft(previousDraft.current.content);
+    setWordCount(previousDraft.current.wordCount);
+    setStreaming(false);
+    setGenerating(false);
+  };
+
+  // Send feedback to the writer; the revision job produces a new version
+  const handleRequestRevision = async (request: RevisionRequest) => {
+    setRevising(true);
+
+    try {
+      await flushEdits();
+
+      const response = await fetch(`/api/workflow/${blogPostId}/draft/revisions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
       });
 
       if (response.ok) {
         const data = await response.json();
-        setDraft(data.content);
-        setWordCount(data.wordCount);
+        setShowRevisionForm(false);
+        await waitForDraftJob(data.jobId);
       } else {
         const error = await response.json();
-        alert(error.error?.message || "Failed to generate draft");
+        alert(error.error?.message || "Failed to request changes");
       }
     } catch (error) {
-      console.error("Error generating draft:", error);
-      alert("Failed to generate draft. Please try again.");
+      console.error("Error requesting revision:", error);
+      alert("Failed to request changes. Please try again.");
     } finally {
-      setGenerating(false);
+      setRevising(false);
+    }
+  };
+
+  // Rewrite one outline section; the rest of the draft is left untouched
+  const handleRegenerateSection = async (sectionNumber: number) => {
+    try {
+      await flushEdits();
+
+      const response = await fetch(
+        `/api/workflow/${blogPostId}/draft/sections/${sectionNumber}`,
+        { method: "POST" }
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        await waitForDraftJob(data.jobId);
+      } else {
+        const error = await response.json();
+        alert(error.error?.message || "Failed to regenerate section");
+      }
+    } catch (error) {
+      console.error("Error regenerating section:", error);
+      alert("Failed to regenerate section. Please try again.");
     }
   };
 
@@ -82,6 +328,9 @@ export default function DraftPage() {
     setSubmitting(true);
 
     try {
+      // Editorial must run on the latest manual edit
+      await flushEdits();
+
       const response = await fetch(`/api/workflow/${blogPostId}/draft`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
@@ -93,17 +342,19 @@ export default function DraftPage() {
 
       if (response.ok) {
         if (approved) {
-          // Start generating the final post optimistically before navigating
-          // This is a fire-and-forget request - the final page will poll for status
-          fetch(`/api/workflow/${blogPostId}/editorial`, {
+          // Queue the final post before navigating - the final page polls the job
+          const editorialResponse = await fetch(`/api/workflow/${blogPostId}/editorial`, {
             method: "POST",
-          }).catch(console.error);
-          
-          // Navigate immediately - the final page will show the generation status
-          router.push(`/workflow/${blogPostId}/final?generating=true`);
+          });
+          const editorial = await editorialResponse.json().catch(() => ({}));
+
+          router.push(
+            editorial.jobId
+              ? `/workflow/${blogPostId}/final?jobId=${editorial.jobId}`
+              : `/workflow/${blogPostId}/final`
+          );
         } else {
           // Regenerate - this will create a new draft version
-          setDraft(""); // Clear current draft to show generating state
           await handleGenerate();
         }
       } else {
@@ -118,6 +369,11 @@ export default function DraftPage() {
     }
   };
 
+  const draftSections = parseDraftSections(draft, outline);
+  const sectionToRegenerate = draftSections.some((s) => s.sectionNumber === selectedSection)
+    ? selectedSection
+    : draftSections[0]?.sectionNumber ?? null;
+
   if (loading) {
     return (
       <WorkflowLoading
@@ -137,13 +393,27 @@ export default function DraftPage() {
           </p>
         </div>
 
+        <StaleBanner
+          artifact="draft"
+          staleness={staleness?.draft}
+          onRegenerate={handleGenerate}
+          regenerating={generating}
+        />
+
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
               <div>
                 <CardTitle>Blog Post Draft</CardTitle>
                 <CardDescription>
-                  Word Count: {wordCount} words
+                  {streaming
+                    ? "Writing draft..."
+                    : `Word Count: ${wordCount} words${
+                      saveStatus === "saving" ? " · Saving..."
+                        : saveStatus === "saved" ? " · All changes saved"
+                        : saveStatus === "error" ? " · Failed to save changes"
+                        : ""
+                    }`}
                 </CardDescription>
               </div>
               {draft && (
@@ -170,56 +440,128 @@ export default function DraftPage() {
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
-            {!draft ? (
-              generating ? (
-                <div className="flex flex-col items-center py-8">
-                  <AILoading
-                    loadingStates={LOADING_MESSAGES.draft.map((text) => ({
-                      text,
-                      loading: true,
-                    }))}
-                  />
-                </div>
-              ) : (
-                <Button onClick={handleGenerate} disabled={generating}>
-                  Generate Draft
-                </Button>
-              )
+            {generating && !streaming ? (
+              <div className="flex flex-col items-center py-8">
+                <AILoading
+                  loadingStates={LOADING_MESSAGES.draft.map((text) => ({
+                    text,
+                    loading: true,
+                  }))}
+                />
+                {streamAbortController.current && (
+                  <Button variant="outline" onClick={handleCancelGenerate} className="mt-4">
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            ) : !draft ? (
+              <Button onClick={handleGenerate} disabled={generating}>
+                Generate Draft
+              </Button>
             ) : (
               <>
                 <MarkdownViewer 
                   content={draft} 
                   maxHeight="600px" 
+                  editable={!generating}
+                  onContentChange={handleContentChange}
                   isFlipped={isPreviewFlipped}
                   onFlipChange={setIsPreviewFlipped}
                 />
 
-                <div className="flex gap-4 pt-4">
-                  <Button
-                    variant="outline"
-                    onClick={() => router.push(`/workflow/${blogPostId}/research`)}
-                  >
-                    Back
-                  </Button>
-                  <Button
-                    variant="outline"
-                    onClick={() => handleSubmit(false)}
-                    disabled={submitting}
-                  >
-                    Request Changes
-                  </Button>
-                  <Button
-                    onClick={() => handleSubmit(true)}
-                    disabled={submitting}
-                    className="flex-1"
-                  >
-                    {submitting ? "Saving..." : "Approve & Continue"}
-                  </Button>
-                </div>
+                {streaming ? (
+                  <div className="flex gap-4 pt-4">
+                    <Button variant="outline" onClick={handleCancelGenerate}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : showRevisionForm ? (
+                  <RevisionForm
+                    outline={outline}
+                    submitting={revising}
+                    onSubmit={handleRequestRevision}
+                    onRegenerate={() => {
+                      setShowRevisionForm(false);
+                      handleSubmit(false);
+                    }}
+                    onCancel={() => setShowRevisionForm(false)}
+                  />
+                ) : (
+                  <div className="flex gap-4 pt-4">
+                    <Button
+                      variant="outline"
+                      onClick={() => router.push(`/workflow/${blogPostId}/research`)}
+                    >
+                      Back
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowRevisionForm(true)}
+                      disabled={submitting}
+                    >
+                      Request Changes
+                    </Button>
+                    <Button
+                      onClick={() => handleSubmit(true)}
+                      disabled={submitting}
+                      className="flex-1"
+                    >
+                      {submitting ? "Saving..." : "Approve & Continue"}
+                    </Button>
+                  </div>
+                )}
+
+                {!streaming && !showRevisionForm && sectionToRegenerate !== null && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <span>Regenerate section</span>
+                    <select
+                      className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                      value={sectionToRegenerate}
+                      onChange={(e) => setSelectedSection(Number(e.target.value))}
+                      aria-label="Section to regenerate"
+                    >
+                      {draftSections.map((section) => (
+                        <option key={section.sectionNumber} value={section.sectionNumber}>
+                          {section.sectionNumber}. {section.title}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRegenerateSection(sectionToRegenerate)}
+                      disabled={submitting}
+                    >
+                      Regenerate
+                    </Button>
+                  </div>
+                )}
               </>
             )}
           </CardContent>
         </Card>
+
+        {draft && !generating && version !== null && (
+          <VoiceScoreReport
+            blogPostId={blogPostId}
+            version={version}
+            score={voiceScore}
+            onScored={setVoiceScore}
+          />
+        )}
+
+        {draft && !generating && (
+          <DraftHistory
+            blogPostId={blogPostId}
+            currentVersion={version}
+            onRestore={(restored) => {
+              setDraft(restored.content);
+              setWordCount(restored.wordCount);
+              setVersion(restored.version);
+              setVoiceScore(null);
+            }}
+          />
+        )}
       </div>
     </div>
   );
@@ -4,13 +4,25 @@ import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { useEffect, useState, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CitationReport } from "@/components/workflow/citation-report";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { WorkflowLoading } from "@/components/workflow/workflow-loading";
+import { StaleBanner } from "@/components/workflow/stale-banner";
+import { SaveTemplateButton } from "@/components/workflow/save-template-button";
 import dynamic from "next/dynamic";
 import { LOADING_MESSAGES } from "@/lib/loading-messages";
 import { MarkdownViewer } from "@/components/ui/markdown-viewer";
 import { Eye, Code } from "lucide-react";
+import { pollJob, isJobPending } from "@/lib/utils/job-client";
+import {
+  CITATION_STYLES,
+  CITATION_STYLE_LABELS,
+  CitationStyle,
+  DEFAULT_CITATION_STYLE,
+  formatCitations,
+} from "@/lib/utils/citation-format";
+import { FRONT_MATTER_PROFILES, FRONT_MATTER_PROFILE_LABELS, FrontMatterProfile } from "@/lib/utils/front-matter";
 
 const AILoading = dynamic(() => import("@/components/kokonutui/ai-loading").then(mod => mod.default), {
   ssr: false,
@@ -33,45 +45,72 @@ export default function FinalPage() {
   const [saving, setSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
   const [isPreviewFlipped, setIsPreviewFlipped] = useState(false);
-  const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [staleness, setStaleness] = useState<any>(null);
+  const [citationStyle, setCitationStyle] = useState<CitationStyle>(DEFAULT_CITATION_STYLE);
+  const [exportOptions, setExportOptions] = useState({
+    profile: "default" as FrontMatterProfile,
+    tags: "",
+    canonicalUrl: "",
+    draft: false,
+    socialPosts: true,
+  });
+  const jobAbortController = useRef<AbortController | null>(null);
 
-  // Check if we should start generating immediately (from draft approval)
-  const shouldAutoGenerate = searchParams.get('generating') === 'true';
+  // Job queued by the draft page on approval
+  const jobIdParam = searchParams.get('jobId');
+
+  const applyFinalPost = (post: any) => {
+    setFinalPost(post);
+    const seo = post.seoMetadata || {};
+    const social = post.socialPosts || {};
+    setSeoMetadata(seo);
+    setSocialPosts(social);
+    setInitialSeoMetadata(seo);
+    setInitialSocialPosts(social);
+  };
+
+  // Wait for an editorial job to finish and show the final post
+  const waitForEditorialJob = useCallback(async (jobId: string) => {
+    jobAbortController.current?.abort();
+    const controller = new AbortController();
+    jobAbortController.current = controller;
+    setGenerating(true);
 
-  const pollForFinalPost = useCallback(async () => {
     try {
-      const response = await fetch(`/api/workflow/${blogPostId}/state`);
-      if (response.ok) {
-        const data = await response.json();
-        if (data.finalPost?.content) {
-          setFinalPost(data.finalPost);
-          const seo = data.finalPost.seoMetadata || {};
-          const social = data.finalPost.socialPosts || {};
-          setSeoMetadata(seo);
-          setSocialPosts(social);
-          setInitialSeoMetadata(seo);
-          setInitialSocialPosts(social);
-          setGenerating(false);
-          if (pollIntervalRef.current) {
-            clearInterval(pollIntervalRef.current);
-            pollIntervalRef.current = null;
-          }
-          // Remove the generating query param without scrolling to top
-          router.replace(`/workflow/${blogPostId}/final`, { scroll: false });
-        }
+      const job = await pollJob(jobId, { signal: controller.signal });
+
+      if (job.status === "succeeded") {
+        applyFinalPost({
+          content: job.result?.finalContent,
+          seoMetadata: job.result?.seoMetadata,
+          socialPosts: job.result?.socialPosts,
+          citations: job.result?.citations,
+          citationReport: job.result?.citationReport,
+        });
+        setStaleness((prev: any) => prev && { ...prev, editorial: { stale: false, changedUpstream: null } });
+        // Remove the job query param without scrolling to top
+        router.replace(`/workflow/${blogPostId}/final`, { scroll: false });
+      } else {
+        alert(job.error || "Failed to generate final post");
+      }
+    } catch (error: any) {
+      if (error.name !== "AbortError") {
+        console.error("Error waiting for final post:", error);
+        alert("Failed to generate final post. Please try again.");
+      }
+    } finally {
+      if (jobAbortController.current === controller) {
+        setGenerating(false);
       }
-    } catch (error) {
-      console.error("Error polling for final post:", error);
     }
   }, [blogPostId, router]);
 
   useEffect(() => {
     loadState();
+    loadCitationStyle();
     
     return () => {
-      if (pollIntervalRef.current) {
-        clearInterval(pollIntervalRef.current);
-      }
+      jobAbortController.current?.abort();
     };
   }, [blogPostId]);
 
@@ -87,18 +126,15 @@ export default function FinalPage() {
       const response = await fetch(`/api/workflow/${blogPostId}/state`);
       if (response.ok) {
         const data = await response.json();
-        if (data.finalPost?.content) {
-          setFinalPost(data.finalPost);
-          const seo = data.finalPost.seoMetadata || {};
-          const social = data.finalPost.socialPosts || {};
-          setSeoMetadata(seo);
-          setSocialPosts(social);
-          setInitialSeoMetadata(seo);
-          setInitialSocialPosts(social);
-        } else if (shouldAutoGenerate) {
-          // Final post is being generated, start polling
-          setGenerating(true);
-          pollIntervalRef.current = setInterval(pollForFinalPost, 2000);
+        setStaleness(data.staleness || null);
+        const editorialJob = data.jobs?.editorial;
+        if (isJobPending(editorialJob)) {
+          // Final post is being generated, wait for the job
+          waitForEditorialJob(editorialJob.id);
+        } else if (data.finalPost?.content) {
+          applyFinalPost(data.finalPost);
+        } else if (jobIdParam) {
+          waitForEditorialJob(jobIdParam);
         }
       }
     } catch (error) {
@@ -108,6 +144,19 @@ export default function FinalPage() {
     }
   };
 
+  // Preview and export start from the user's default style
+  const loadCitationStyle = async () => {
+    try {
+      const response = await fetch("/api/settings");
+      if (response.ok) {
+        const data = await response.json();
+        if (data.citationStyle) setCitationStyle(data.citationStyle);
+      }
+    } catch (error) {
+      console.error("Error loading settings:", error);
+    }
+  };
+
   const handleGenerate = async () => {
     setGenerating(true);
 
@@ -118,21 +167,15 @@ export default function FinalPage() {
 
       if (response.ok) {
         const data = await response.json();
-        setFinalPost({ content: data.finalContent });
-        const seo = data.seoMetadata || {};
-        const social = data.socialPosts || {};
-        setSeoMetadata(seo);
-        setSocialPosts(social);
-        setInitialSeoMetadata(seo);
-        setInitialSocialPosts(social);
+        await waitForEditorialJob(data.jobId);
       } else {
         const error = await response.json();
         alert(error.error?.message || "Failed to generate final post");
+        setGenerating(false);
       }
     } catch (error) {
       console.error("Error generating final post:", error);
       alert("Failed to generate final post. Please try again.");
-    } finally {
       setGenerating(false);
     }
   };
@@ -168,17 +211,28 @@ export default function FinalPage() {
     }
   };
 
-  const handleExport = async () => {
+  const handleExport = async (format: "markdown" | "html", fragment = false) => {
     setExporting(true);
 
     try {
-      const response = await fetch(`/api/workflow/${blogPostId}/export`);
+      const query = new URLSearchParams({ format, citationStyle });
+      if (fragment) query.set("fragment", "true");
+      if (format === "markdown") {
+        query.set("profile", exportOptions.profile);
+        if (exportOptions.tags.trim()) query.set("tags", exportOptions.tags);
+        if (exportOptions.canonicalUrl.trim()) query.set("canonicalUrl", exportOptions.canonicalUrl.trim());
+        if (exportOptions.draft) query.set("draft", "true");
+        if (!exportOptions.socialPosts) query.set("socialPosts", "false");
+      }
+      const response = await fetch(`/api/workflow/${blogPostId}/export?${query}`);
 
       if (response.ok) {
         const data = await response.json();
         
         // Create download
-        const blob = new Blob([data.markdown], { type: "text/markdown" });
+        const blob = format === "html"
+          ? new Blob([data.html], { type: "text/html" })
+          : new Blob([data.markdown], { type: "text/markdown" });
         const url = URL.createObjectURL(blob);
         const a = document.createElement("a");
         a.href = url;
@@ -218,6 +272,15 @@ export default function FinalPage() {
           </p>
         </div>
 
+        {finalPost && (
+          <StaleBanner
+            artifact="editorial"
+            staleness={staleness?.editorial}
+            onRegenerate={handleGenerate}
+            regenerating={generating}
+          />
+        )}
+
         {!finalPost ? (
           <Card>
             <CardHeader>
@@ -274,7 +337,7 @@ export default function FinalPage() {
               </CardHeader>
               <CardContent>
                 <MarkdownViewer 
-                  content={finalPost.content || ""} 
+                  content={formatCitations(finalPost.content || "", finalPost.citations || [], citationStyle)}
                   maxHeight="600px" 
                   isFlipped={isPreviewFlipped}
                   onFlipChange={setIsPreviewFlipped}
@@ -282,6 +345,8 @@ export default function FinalPage() {
               </CardContent>
             </Card>
 
+            <CitationReport report={finalPost.citationReport} />
+
             <Card className="mb-6">
               <CardHeader>
                 <CardTitle>SEO Metadata</CardTitle>
@@ -329,6 +394,81 @@ export default function FinalPage() {
               </CardContent>
             </Card>
 
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle>Export</CardTitle>
+                <CardDescription>
+                  Citation style applies to every format. Front matter and the other options apply to markdown.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div>
+                    <label htmlFor="citation-style" className="block text-sm font-medium mb-2">Citation style</label>
+                    <select
+                      id="citation-style"
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                      value={citationStyle}
+                      onChange={(e) => setCitationStyle(e.target.value as CitationStyle)}
+                    >
+                      {CITATION_STYLES.map((style) => (
+                        <option key={style} value={style}>{CITATION_STYLE_LABELS[style]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="front-matter-profile" className="block text-sm font-medium mb-2">Front matter</label>
+                    <select
+                      id="front-matter-profile"
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                      value={exportOptions.profile}
+                      onChange={(e) => setExportOptions({ ...exportOptions, profile: e.target.value as FrontMatterProfile })}
+                    >
+                      {FRONT_MATTER_PROFILES.map((profile) => (
+                        <option key={profile} value={profile}>{FRONT_MATTER_PROFILE_LABELS[profile]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="export-tags" className="block text-sm font-medium mb-2">Tags</label>
+                    <Input
+                      id="export-tags"
+                      value={exportOptions.tags}
+                      onChange={(e) => setExportOptions({ ...exportOptions, tags: e.target.value })}
+                      placeholder="comma, separated"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="export-canonical-url" className="block text-sm font-medium mb-2">Canonical URL</label>
+                    <Input
+                      id="export-canonical-url"
+                      value={exportOptions.canonicalUrl}
+                      onChange={(e) => setExportOptions({ ...exportOptions, canonicalUrl: e.target.value })}
+                      placeholder="https://..."
+                    />
+                  </div>
+                </div>
+                <div className="flex gap-6 text-sm">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={exportOptions.draft}
+                      onChange={(e) => setExportOptions({ ...exportOptions, draft: e.target.checked })}
+                    />
+                    Mark as draft
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={exportOptions.socialPosts}
+                      onChange={(e) => setExportOptions({ ...exportOptions, socialPosts: e.target.checked })}
+                    />
+                    Include social posts
+                  </label>
+                </div>
+              </CardContent>
+            </Card>
+
             <div className="flex gap-4">
               <Button
                 variant="outline"
@@ -343,14 +483,32 @@ export default function FinalPage() {
               >
                 {saving ? "Saving..." : "Save Changes"}
               </Button>
+              <SaveTemplateButton blogPostId={blogPostId} defaultName={seoMetadata.title || ""} />
               <Button
-                onClick={handleExport}
+                onClick={() => handleExport("markdown")}
                 disabled={exporting}
                 className="flex-1"
                 size="lg"
               >
                 {exporting ? "Exporting..." : "Download Markdown"}
               </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleExport("html")}
+                disabled={exporting}
+                size="lg"
+              >
+                Download HTML
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleExport("html", true)}
+                disabled={exporting}
+                size="lg"
+                title="Article markup without <head>, for pasting into a CMS"
+              >
+                HTML Fragment
+              </Button>
             </div>
           </>
         )}
@@ -3,23 +3,20 @@
 import { useParams, useRouter } from "next/navigation";
 import { useEffect, useState, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { WorkflowLoading } from "@/components/workflow/workflow-loading";
+import { StaleBanner } from "@/components/workflow/stale-banner";
+import { SourceItem, SourceChanges } from "@/components/workflow/source-item";
+import { AddSourceForm, NewSource } from "@/components/workflow/add-source-form";
 import dynamic from "next/dynamic";
 import { LOADING_MESSAGES } from "@/lib/loading-messages";
+import { pollJob, isJobPending } from "@/lib/utils/job-client";
 
 const AILoading = dynamic(() => import("@/components/kokonutui/ai-loading").then(mod => mod.default), {
   ssr: false,
 });
 
-// Check if research is stale by comparing timestamps
-function isResearchStale(thesisUpdatedAt: string | null, researchUpdatedAt: string | null): boolean {
-  if (!researchUpdatedAt) return true; // No research = stale
-  if (!thesisUpdatedAt) return false; // No thesis timestamp = can't determine, assume fresh
-  
-  return new Date(thesisUpdatedAt) > new Date(researchUpdatedAt);
-}
-
 export default function ResearchPage() {
   const params = useParams();
   const router = useRouter();
@@ -32,16 +29,20 @@ export default function ResearchPage() {
   const [submitting, setSubmitting] = useState(false);
   const [draftGenerating, setDraftGenerating] = useState(false);
   const [draftReady, setDraftReady] = useState(false);
+  const [staleness, setStaleness] = useState<any>(null);
+  const [outline, setOutline] = useState<any[]>([]);
+  const [moreQuery, setMoreQuery] = useState("");
+  const [moreSection, setMoreSection] = useState("");
+  const [updatingSource, setUpdatingSource] = useState<string | null>(null);
   const hasStartedResearch = useRef(false);
-  const pollingInterval = useRef<NodeJS.Timeout | null>(null);
+  const researchAbortController = useRef<AbortController | null>(null);
   const draftAbortController = useRef<AbortController | null>(null);
 
-  // Cleanup polling on unmount
+  // Stop polling jobs on unmount; the jobs themselves keep running server-side
   useEffect(() => {
     return () => {
-      if (pollingInterval.current) {
-        clearInterval(pollingInterval.current);
-      }
+      researchAbortController.current?.abort();
+      draftAbortController.current?.abort();
     };
   }, []);
 
@@ -50,97 +51,88 @@ export default function ResearchPage() {
     loadState();
   }, [blogPostId]);
 
-  // Poll for background research completion
-  const pollForResearch = useCallback(async () => {
-    console.log("[Research] Polling for background research...");
-    setWaitingForBackground(true);
-    
-    let pollCount = 0;
-    const maxPolls = 60; // Poll for up to 2 minutes (2s interval)
-    
-    pollingInterval.current = setInterval(async () => {
-      pollCount++;
-      console.log(`[Research] Poll attempt ${pollCount}/${maxPolls}`);
-      
-      try {
-        const response = await fetch(`/api/workflow/${blogPostId}/state`);
-        if (response.ok) {
-          const data = await response.json();
-          
-          if (data.researchSources?.sources && data.researchSources.sources.length > 0) {
-            // Check if research is still fresh
-            const stale = isResearchStale(
-              data.thesisOutline?.updatedAt,
-              data.researchSources?.updatedAt
-            );
-            
-            if (!stale) {
-              console.log("[Research] Background research completed!");
-              if (pollingInterval.current) {
-                clearInterval(pollingInterval.current);
-                pollingInterval.current = null;
-              }
-              setSources(data.researchSources.sources);
-              setWaitingForBackground(false);
-              setLoading(false);
-              
-              // Start optimistic draft generation
-              startOptimisticDraftGeneration();
-              
-              // Check if draft already exists
-              if (data.draft?.content) {
-                setDraftReady(true);
-              }
-              return;
-            }
-          }
-        }
-      } catch (error) {
-        console.error("[Research] Polling error:", error);
-      }
-      
-      // If we've exceeded max polls, stop polling and trigger fresh research
-      if (pollCount >= maxPolls) {
-        console.log("[Research] Polling timeout, triggering fresh research");
-        if (pollingInterval.current) {
-          clearInterval(pollingInterval.current);
-          pollingInterval.current = null;
-        }
-        setWaitingForBackground(false);
-        handleResearch();
-      }
-    }, 2000);
-  }, [blogPostId]);
-
   const startOptimisticDraftGeneration = useCallback(async () => {
-    // Cancel any previous draft generation
+    // Stop waiting on any previous draft job
     if (draftAbortController.current) {
       draftAbortController.current.abort();
     }
     
-    draftAbortController.current = new AbortController();
+    const controller = new AbortController();
+    draftAbortController.current = controller;
     setDraftGenerating(true);
     setDraftReady(false);
     
     try {
       const response = await fetch(`/api/workflow/${blogPostId}/draft`, {
         method: "POST",
-        signal: draftAbortController.current.signal,
+        signal: controller.signal,
       });
 
       if (response.ok) {
-        setDraftReady(true);
-        console.log("Draft generated optimistically");
+        const data = await response.json();
+        const job = await pollJob(data.jobId, { signal: controller.signal });
+        if (job.status === "succeeded") {
+          setDraftReady(true);
+          console.log("Draft generated optimistically");
+        }
       }
     } catch (error: any) {
       if (error.name !== 'AbortError') {
         console.error("Error generating draft optimistically:", error);
       }
     } finally {
-      setDraftGenerating(false);
+      if (draftAbortController.current === controller) {
+        setDraftGenerating(false);
+      }
     }
   }, [blogPostId]);
 
+  // Wait for a research job to finish and show its sources
+  const waitForResearchJob = useCallback(async (jobId: string) => {
+    researchAbortController.current?.abort();
+    const controller = new AbortController();
+    researchAbortController.current = controller;
+
+    try {
+      const job = await pollJob(jobId, { signal: controller.signal });
+
+      if (job.status === "failed") {
+        console.error("Research job failed:", job.error);
+        alert(`Research error: ${job.error || "Unknown error"}`);
+        setSources([]);
+        return;
+      }
+
+      const result = job.result || {};
+
+      // Check for warning about empty sources
+      if (result.warning) {
+        console.warn("Research warning:", result.warning);
+        alert(result.warning);
+      }
+
+      const sourcesArray = Array.isArray(result.sources) ? result.sources : [];
+      console.log("Research job returned sources:", sourcesArray.length);
+      setSources(sourcesArray);
+      setStaleness((prev: any) => prev && { ...prev, research: { stale: false, changedUpstream: null } });
+
+      // Start optimistic draft generation once research is complete
+      if (sourcesArray.length > 0) {
+        startOptimisticDraftGeneration();
+      }
+    } catch (error: any) {
+      if (error.name !== "AbortError") {
+        console.error("Error waiting for research:", error);
+        alert(`Failed to research: ${error.message || "Please try again."}`);
+      }
+    } finally {
+      if (researchAbortController.current === controller) {
+        setResearching(false);
+        setWaitingForBackground(false);
+      }
+    }
+  }, [startOptimisticDraftGeneration]);
+
   const loadState = async () => {
     try {
       const response = await fetch(`/api/workflow/${blogPostId}/state`);
@@ -148,41 +140,42 @@ export default function ResearchPage() {
         const data = await response.json();
         
         const hasSources = data.researchSources?.sources && data.researchSources.sources.length > 0;
-        const stale = isResearchStale(
-          data.thesisOutline?.updatedAt,
-          data.researchSources?.updatedAt
-        );
+        // Stale research (upstream changed since it ran) is shown with a regenerate banner
+        const stale = Boolean(data.staleness?.research?.stale);
+        setStaleness(data.staleness || null);
+        setOutline(data.thesisOutline?.outline || []);
+        const researchJob = data.jobs?.research;
+        
+        console.log(`[Research] State loaded - hasSources: ${hasSources}, stale: ${stale}, job: ${researchJob?.status || "none"}`);
         
-        console.log(`[Research] State loaded - hasSources: ${hasSources}, stale: ${stale}`);
+        if (isJobPending(researchJob)) {
+          // Research is queued or running in the background - wait for the job
+          console.log("[Research] Research job in progress, waiting for it");
+          hasStartedResearch.current = true;
+          setWaitingForBackground(true);
+          setLoading(false);
+          waitForResearchJob(researchJob.id);
+          return;
+        }
         
-        if (hasSources && !stale) {
-          // Research exists and is fresh - show immediately!
-          console.log("[Research] Fresh research found, displaying immediately");
+        if (hasSources) {
+          // Research exists - show immediately!
+          console.log(`[Research] ${stale ? "Stale" : "Fresh"} research found, displaying immediately`);
           setSources(data.researchSources.sources);
           setLoading(false);
           
           // If we already have a draft, mark it as ready
           if (data.draft?.content) {
             setDraftReady(true);
-          } else {
+          } else if (!stale) {
             // Start optimistic draft generation
             startOptimisticDraftGeneration();
           }
         } else if (!hasStartedResearch.current) {
           hasStartedResearch.current = true;
-          
-          if (hasSources && stale) {
-            // Research exists but is stale - trigger fresh research
-            console.log("[Research] Stale research found, triggering fresh research");
-            setLoading(false);
-            handleResearch();
-          } else {
-            // No sources yet - could be background research in progress
-            // Poll for a bit before triggering our own research
-            console.log("[Research] No sources yet, polling for background research");
-            setLoading(false);
-            pollForResearch();
-          }
+          console.log("[Research] No research found, triggering fresh research");
+          setLoading(false);
+          handleResearch();
           return;
         }
       }
@@ -193,12 +186,8 @@ export default function ResearchPage() {
     }
   };
 
-  const handleResearch = async () => {
-    // Stop any background polling
-    if (pollingInterval.current) {
-      clearInterval(pollingInterval.current);
-      pollingInterval.current = null;
-    }
+  // Without a query this re-runs research; with one it adds sources to the existing set
+  const handleResearch = async (more?: { additionalResearchQuery: string; sectionNumber?: number }) => {
     setWaitingForBackground(false);
     setResearching(true);
 
@@ -206,70 +195,90 @@ export default function ResearchPage() {
       const response = await fetch(`/api/workflow/${blogPostId}/research`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({}),
+        body: JSON.stringify(more || {}),
       });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        let errorData;
-        try {
-          errorData = JSON.parse(errorText);
-        } catch {
-          errorData = { error: { message: errorText || "Unknown error" } };
-        }
-        throw new Error(errorData.error?.message || "Failed to research");
-      }
+      const data = await response.json().catch(() => ({
+        error: { message: "Invalid response from server" },
+      }));
 
-      const responseText = await response.text();
-      if (!responseText) {
-        throw new Error("Empty response from server");
+      if (!response.ok || data.error) {
+        throw new Error(data.error?.message || "Failed to research");
       }
 
-      let data;
-      try {
-        data = JSON.parse(responseText);
-      } catch (parseError) {
-        console.error("JSON parse error:", parseError, "Response:", responseText);
-        throw new Error("Invalid response from server");
-      }
+      await waitForResearchJob(data.jobId);
+    } catch (error: any) {
+      console.error("Error researching:", error);
+      alert(`Failed to research: ${error.message || "Please try again."}`);
+      setResearching(false);
+    }
+  };
 
-      // Check for error in response
-      if (data.error) {
-        console.error("Research API returned error:", data.error);
-        alert(`Research error: ${data.error.message || "Unknown error"}`);
-        setSources([]);
-        return; // Don't set sources if there's an error
-      }
+  const handleResearchMore = async () => {
+    // Stop waiting on any pending draft job; the draft is regenerated with the new sources
+    draftAbortController.current?.abort();
+    setDraftReady(false);
 
-      // Check for warning about empty sources
-      if (data.warning) {
-        console.warn("Research API warning:", data.warning);
-        alert(data.warning);
-      }
+    await handleResearch({
+      additionalResearchQuery: moreQuery.trim(),
+      sectionNumber: moreSection ? Number(moreSection) : undefined,
+    });
+    setMoreQuery("");
+  };
 
-      // Ensure sources is an array
-      const sourcesArray = Array.isArray(data.sources) ? data.sources : [];
-      console.log("Research API returned sources:", sourcesArray.length);
-      
-      if (sourcesArray.length === 0 && !data.error && !data.warning) {
-        console.warn("Research API returned empty sources array without warning");
-        alert("No research sources were found. This might be due to missing API keys (PERPLEXITY_API_KEY or EXA_API_KEY) or the research API failing. Check the server logs for details.");
-      }
-      
-      setSources(sourcesArray);
-      
-      // Start optimistic draft generation once research is complete
-      if (sourcesArray.length > 0) {
-        startOptimisticDraftGeneration();
+  // Curation changes the research the draft is built from
+  const invalidateDraft = () => {
+    draftAbortController.current?.abort();
+    setDraftReady(false);
+  };
+
+  const handleUpdateSource = async (sourceId: string, changes: SourceChanges) => {
+    setUpdatingSource(sourceId);
+
+    try {
+      const response = await fetch(`/api/workflow/${blogPostId}/research/sources/${sourceId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSources(data.sources);
+        invalidateDraft();
+      } else {
+        alert(data.error?.message || "Failed to update source");
       }
-    } catch (error: any) {
-      console.error("Error researching:", error);
-      alert(`Failed to research: ${error.message || "Please try again."}`);
+    } catch (error) {
+      console.error("Error updating source:", error);
+      alert("Failed to update source. Please try again.");
     } finally {
-      setResearching(false);
+      setUpdatingSource(null);
     }
   };
 
+  const handleAddSource = async (source: NewSource): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/workflow/${blogPostId}/research/sources`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(source),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSources(data.sources);
+        invalidateDraft();
+        return true;
+      }
+      alert(data.error?.message || "Failed to add source");
+    } catch (error) {
+      console.error("Error adding source:", error);
+      alert("Failed to add source. Please try again.");
+    }
+    return false;
+  };
+
   const handleSubmit = async () => {
     setSubmitting(true);
 
@@ -319,6 +328,13 @@ export default function ResearchPage() {
           </p>
         </div>
 
+        <StaleBanner
+          artifact="research"
+          staleness={staleness?.research}
+          onRegenerate={() => handleResearch()}
+          regenerating={researching || waitingForBackground}
+        />
+
         {/* Draft generation status */}
         {(draftGenerating || draftReady) && (
           <Card className="mb-6 border-blue-200 bg-blue-50">
@@ -366,42 +382,65 @@ export default function ResearchPage() {
                 />
                 {waitingForBackground && !researching && (
                   <p className="text-sm text-muted-foreground mt-4">
-                    Research was started in the background. Results should appear shortly...
+                    Research is running in the background. Results will appear as soon as the job finishes...
                   </p>
                 )}
               </div>
             ) : sources.length === 0 ? (
-              <Button onClick={handleResearch} disabled={researching}>
+              <Button onClick={() => handleResearch()} disabled={researching}>
                 {researching ? "Researching..." : "Find Research Sources"}
               </Button>
             ) : (
               <>
                 <div className="space-y-3">
                   {sources.map((source, index) => (
-                    <div key={source.id || index} className="p-4 border rounded-lg">
-                      <div className="flex items-start justify-between mb-2">
-                        <div className="flex-1">
-                          <div className="font-medium">{source.title}</div>
-                          <a 
-                            href={source.url} 
-                            target="_blank" 
-                            rel="noopener noreferrer"
-                            className="text-sm text-secondary hover:underline"
-                          >
-                            {source.url}
-                          </a>
-                        </div>
-                        <div className="text-sm">
-                          <div className="font-medium">Quality: {source.qualityScore}/5</div>
-                        </div>
-                      </div>
-                      <div className="text-xs text-muted-foreground mt-2">
-                        {source.qualityRationale}
-                      </div>
-                    </div>
+                    <SourceItem
+                      key={source.id || index}
+                      source={source}
+                      outline={outline}
+                      onChange={(changes) => handleUpdateSource(source.id, changes)}
+                      updating={updatingSource === source.id}
+                    />
                   ))}
                 </div>
 
+                <div className="pt-4">
+                  <AddSourceForm outline={outline} onAdd={handleAddSource} />
+                </div>
+
+                <div className="space-y-2 pt-4">
+                  <div className="text-sm font-medium">Research more</div>
+                  <div className="flex gap-2">
+                    <Input
+                      value={moreQuery}
+                      onChange={(e) => setMoreQuery(e.target.value)}
+                      placeholder="What else should we look for?"
+                      disabled={researching}
+                    />
+                    <select
+                      className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+                      value={moreSection}
+                      onChange={(e) => setMoreSection(e.target.value)}
+                      aria-label="Outline section"
+                      disabled={researching}
+                    >
+                      <option value="">All sections</option>
+                      {outline.map((section: any) => (
+                        <option key={section.sectionNumber} value={section.sectionNumber}>
+                          {section.sectionNumber}. {section.title}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      variant="outline"
+                      onClick={handleResearchMore}
+                      disabled={researching || !moreQuery.trim()}
+                    >
+                      {researching ? "Searching..." : "Add Sources"}
+                    </Button>
+                  </div>
+                </div>
+
                 <div className="flex gap-4 pt-4">
                   <Button
                     variant="outline"
@@ -412,7 +451,7 @@ export default function ResearchPage() {
                   <Button
                     variant="outline"
                     onClick={() => {
-                      // Cancel any pending draft generation when requesting new research
+                      // Stop waiting on any pending draft job when requesting new research
                       if (draftAbortController.current) {
                         draftAbortController.current.abort();
                       }
@@ -6,6 +6,10 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { WorkflowLoading } from "@/components/workflow/workflow-loading";
+import { StaleBanner } from "@/components/workflow/stale-banner";
+import { SaveTemplateButton } from "@/components/workflow/save-template-button";
+import { OutlineEditor } from "@/components/workflow/outline-editor";
+import { toEditableOutline, EditableOutlineSection } from "@/lib/workflow/outline";
 import dynamic from "next/dynamic";
 
 const AILoading = dynamic(() => import("@/components/kokonutui/ai-loading").then(mod => mod.default), {
@@ -20,10 +24,11 @@ export default function ThesisPage() {
   
   const [state, setState] = useState<any>(null);
   const [thesis, setThesis] = useState("");
-  const [outline, setOutline] = useState<any[]>([]);
+  const [outline, setOutline] = useState<EditableOutlineSection[]>([]);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [staleness, setStaleness] = useState<any>(null);
   const hasAutoGenerated = useRef(false);
 
   useEffect(() => {
@@ -36,9 +41,10 @@ export default function ThesisPage() {
       if (response.ok) {
         const data = await response.json();
         setState(data);
+        setStaleness(data.staleness || null);
         if (data.thesisOutline?.thesisStatement) {
           setThesis(data.thesisOutline.thesisStatement);
-          setOutline(data.thesisOutline.outline || []);
+          setOutline(toEditableOutline(data.thesisOutline.outline || []));
         } else if (!hasAutoGenerated.current) {
           // No thesis exists yet - auto-generate it
           hasAutoGenerated.current = true;
@@ -70,7 +76,8 @@ export default function ThesisPage() {
       if (response.ok) {
         const data = await response.json();
         setThesis(data.thesis);
-        setOutline(data.outline || []);
+        setOutline(toEditableOutline(data.outline || []));
+        setStaleness((prev: any) => prev && { ...prev, thesis: { stale: false, changedUpstream: null } });
       }
     } catch (error) {
       console.error("Error generating thesis:", error);
@@ -130,6 +137,13 @@ export default function ThesisPage() {
           </p>
         </div>
 
+        <StaleBanner
+          artifact="thesis"
+          staleness={staleness?.thesis}
+          onRegenerate={handleGenerate}
+          regenerating={generating}
+        />
+
         <Card>
           <CardHeader>
             <CardTitle>Thesis Statement</CardTitle>
@@ -164,28 +178,7 @@ export default function ThesisPage() {
 
                 <div>
                   <h3 className="font-medium mb-2">Outline</h3>
-                  <div className="space-y-3">
-                    {outline.map((section: any, index: number) => (
-                      <div key={index} className="p-4 border rounded-md bg-gray-50/50">
-                        <div className="font-medium text-lg">
-                          {section.sectionNumber}. {section.title}
-                        </div>
-                        <div className="text-sm text-muted-foreground mt-2 space-y-2">
-                          <div><strong>Purpose:</strong> {section.purpose}</div>
-                          <div className="flex items-center gap-2">
-                            <strong>Evidence Type:</strong> 
-                            <span className="px-2 py-0.5 bg-secondary/20 rounded text-xs uppercase">{section.evidenceType}</span>
-                          </div>
-                          {section.evidenceGuidance && (
-                            <div className="mt-2 p-3 bg-blue-50 border border-blue-100 rounded-md">
-                              <div className="font-medium text-blue-900 text-xs uppercase mb-1">Research Guidance</div>
-                              <div className="text-blue-800">{section.evidenceGuidance}</div>
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
+                  <OutlineEditor sections={outline} onChange={setOutline} disabled={submitting || generating} />
                 </div>
 
                 <div className="flex gap-4 pt-4">
@@ -202,9 +195,10 @@ export default function ThesisPage() {
                   >
                     {generating ? "Regenerating..." : "Regenerate"}
                   </Button>
+                  <SaveTemplateButton blogPostId={blogPostId} />
                   <Button
                     onClick={handleSubmit}
-                    disabled={!thesis.trim() || submitting}
+                    disabled={!thesis.trim() || outline.some((section) => !section.title.trim()) || submitting}
                     className="flex-1"
                   >
                     {submitting ? "Saving..." : "Continue to Research"}
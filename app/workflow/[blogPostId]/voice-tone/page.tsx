@@ -33,6 +33,9 @@ export default function VoiceTonePage() {
         // Ensure options is always an array
         const optionsArray = Array.isArray(data.options) ? data.options : [];
         setOptions(optionsArray);
+        if (data.preselectedOptionId) {
+          setSelected(data.preselectedOptionId);
+        }
         
         if (optionsArray.length === 0) {
           console.error("No options received:", data);
@@ -105,7 +108,8 @@ export default function VoiceTonePage() {
           <CardHeader>
             <CardTitle>Voice & Tone Options</CardTitle>
             <CardDescription>
-              We've generated 3 options tailored to your blog type
+              Options tailored to your blog type, plus your own{" "}
+              <a href="/voices" className="text-primary hover:underline">voice profiles</a>
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -128,7 +132,12 @@ export default function VoiceTonePage() {
                 >
                   <RadioGroupItem value={option.id} id={option.id} className="mt-1" />
                   <label htmlFor={option.id} className="flex-1 cursor-pointer">
-                    <div className="font-medium text-lg mb-1">{option.name}</div>
+                    <div className="font-medium text-lg mb-1">
+                      {option.name}
+                      {option.custom && (
+                        <span className="ml-2 rounded bg-primary/10 px-1.5 py-0.5 text-xs font-normal text-primary">Your voice</span>
+                      )}
+                    </div>
                     <div className="text-sm text-muted-foreground mb-2">
                       {option.description}
                     </div>
@@ -136,6 +145,12 @@ export default function VoiceTonePage() {
                       <div><strong>Style:</strong> {option.style.writingStyle}</div>
                       <div><strong>Formality:</strong> {option.style.formality}</div>
                       <div><strong>Tone:</strong> {option.style.emotionalPosture}</div>
+                      {option.style.do?.length > 0 && (
+                        <div><strong>Do:</strong> {option.style.do.join("; ")}</div>
+                      )}
+                      {option.style.dont?.length > 0 && (
+                        <div><strong>Don&apos;t:</strong> {option.style.dont.join("; ")}</div>
+                      )}
                     </div>
                   </label>
                 </div>
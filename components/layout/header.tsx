@@ -26,6 +26,12 @@ export function Header() {
                   <Link href="/posts">
                     <Button variant="ghost" className="hover:text-primary transition-colors">My Posts</Button>
                   </Link>
+                  <Link href="/templates">
+                    <Button variant="ghost" className="hover:text-primary transition-colors">Templates</Button>
+                  </Link>
+                  <Link href="/voices">
+                    <Button variant="ghost" className="hover:text-primary transition-colors">Voices</Button>
+                  </Link>
                   <Link href="/settings">
                     <Button variant="ghost" className="hover:text-primary transition-colors">Settings</Button>
                   </Link>
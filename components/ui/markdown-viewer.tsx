@@ -67,18 +67,28 @@ export const MarkdownViewer: React.FC<MarkdownViewerProps> = ({
           </Button>
         </div>
       )}
-      <div
-        className="w-full overflow-y-auto p-4 border rounded-md bg-gray-50"
-        style={{ maxHeight, minHeight: maxHeight }}
-      >
-        <div className="prose max-w-none whitespace-pre-wrap font-mono text-sm">
-          {localContent || (
-            <span className="text-muted-foreground italic">
-              No content available
-            </span>
-          )}
+      {editable ? (
+        <textarea
+          className="w-full p-4 border rounded-md bg-gray-50 font-mono text-sm resize-none focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          style={{ height: maxHeight }}
+          value={localContent}
+          onChange={(e) => handleContentChange(e.target.value)}
+          aria-label="Markdown content"
+        />
+      ) : (
+        <div
+          className="w-full overflow-y-auto p-4 border rounded-md bg-gray-50"
+          style={{ maxHeight, minHeight: maxHeight }}
+        >
+          <div className="prose max-w-none whitespace-pre-wrap font-mono text-sm">
+            {localContent || (
+              <span className="text-muted-foreground italic">
+                No content available
+              </span>
+            )}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 
@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+export interface NewSource {
+  url: string;
+  title?: string;
+  notes?: string;
+  quote?: string;
+  sectionMapping: number[];
+  required: boolean;
+}
+
+interface AddSourceFormProps {
+  outline: any[];
+  // Resolves true when the source was saved so the form can reset
+  onAdd: (source: NewSource) => Promise<boolean>;
+}
+
+export function AddSourceForm({ outline, onAdd }: AddSourceFormProps) {
+  const [url, setUrl] = useState("");
+  const [title, setTitle] = useState("");
+  const [notes, setNotes] = useState("");
+  const [quote, setQuote] = useState("");
+  const [section, setSection] = useState("");
+  const [required, setRequired] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      const saved = await onAdd({
+        url: url.trim(),
+        title: title.trim() || undefined,
+        notes: notes.trim() || undefined,
+        quote: quote.trim() || undefined,
+        sectionMapping: section ? [Number(section)] : [],
+        required,
+      });
+      if (saved) {
+        setUrl("");
+        setTitle("");
+        setNotes("");
+        setQuote("");
+        setSection("");
+        setRequired(false);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">Add your own source</div>
+      <div className="flex gap-2">
+        <Input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://..."
+          disabled={saving}
+        />
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Title (optional)"
+          disabled={saving}
+        />
+      </div>
+      <Textarea
+        value={quote}
+        onChange={(e) => setQuote(e.target.value)}
+        placeholder="Quote from the source (optional)"
+        className="min-h-[60px]"
+        disabled={saving}
+      />
+      <Textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Notes for the writer (optional)"
+        className="min-h-[60px]"
+        disabled={saving}
+      />
+      <div className="flex items-center gap-4 text-sm">
+        <select
+          className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+          value={section}
+          onChange={(e) => setSection(e.target.value)}
+          aria-label="Outline section"
+          disabled={saving}
+        >
+          <option value="">No specific section</option>
+          {outline.map((s: any) => (
+            <option key={s.sectionNumber} value={s.sectionNumber}>
+              {s.sectionNumber}. {s.title}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={required}
+            onChange={(e) => setRequired(e.target.checked)}
+            disabled={saving}
+          />
+          Must cite
+        </label>
+        <Button
+          variant="outline"
+          onClick={handleSubmit}
+          disabled={saving || !url.trim()}
+          className="ml-auto"
+        >
+          {saving ? "Adding..." : "Add Source"}
+        </Button>
+      </div>
+    </div>
+  );
+}
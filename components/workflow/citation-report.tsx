@@ -0,0 +1,94 @@
+"use client";
+
+import { CheckCircle2, AlertTriangle, XCircle, HelpCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+type CitationStatus = "verified" | "unsupported" | "not_in_research" | "unreachable";
+
+interface CitationCheck {
+  text: string;
+  url: string;
+  sentence: string;
+  sourceId: string | null;
+  status: CitationStatus;
+  matchScore: number;
+  evidence?: string;
+  note?: string;
+}
+
+interface CitationReportProps {
+  report?: {
+    checkedAt: string;
+    summary: Record<CitationStatus, number> & { total: number };
+    citations: CitationCheck[];
+  } | null;
+}
+
+const STATUS_DISPLAY: Record<CitationStatus, { label: string; className: string; Icon: typeof CheckCircle2 }> = {
+  verified: { label: "Verified", className: "text-green-700", Icon: CheckCircle2 },
+  unsupported: { label: "Not supported by source", className: "text-amber-700", Icon: AlertTriangle },
+  not_in_research: { label: "Not a research source", className: "text-red-700", Icon: XCircle },
+  unreachable: { label: "Couldn't check", className: "text-muted-foreground", Icon: HelpCircle },
+};
+
+/**
+ * Per-citation verification of the final post's links against the research sources
+ */
+export function CitationReport({ report }: CitationReportProps) {
+  if (!report) {
+    return null;
+  }
+
+  const { summary, citations } = report;
+  const problems = summary.unsupported + summary.not_in_research;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Citation Check</CardTitle>
+        <CardDescription>
+          {summary.total === 0
+            ? "The post has no links to check."
+            : `${summary.verified} of ${summary.total} citations verified${
+              problems > 0 ? ` · ${problems} need attention` : ""
+            }`}
+        </CardDescription>
+      </CardHeader>
+      {citations.length > 0 && (
+        <CardContent className="space-y-3">
+          {citations.map((citation, index) => {
+            const { label, className, Icon } = STATUS_DISPLAY[citation.status];
+            return (
+              <div key={`${citation.url}-${index}`} className="rounded-lg border p-3 text-sm">
+                <div className={`flex items-center gap-2 font-medium ${className}`}>
+                  <Icon className="h-4 w-4 flex-shrink-0" />
+                  {label}
+                  {citation.sourceId && (
+                    <span className="text-xs font-normal text-muted-foreground">({citation.sourceId})</span>
+                  )}
+                </div>
+                <p className="mt-1">{citation.sentence}</p>
+                <a
+                  href={citation.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-secondary hover:underline break-all"
+                >
+                  {citation.url}
+                </a>
+                {citation.note && (
+                  <p className="mt-1 text-xs text-muted-foreground">{citation.note}</p>
+                )}
+                {citation.evidence && citation.status !== "verified" && (
+                  <blockquote className="mt-2 border-l-2 pl-3 text-xs italic text-muted-foreground">
+                    {citation.evidence}
+                  </blockquote>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useMemo } from "react";
+import { diffWords } from "@/lib/utils/word-diff";
+
+interface DraftDiffProps {
+  before: string;
+  after: string;
+  maxHeight?: string;
+}
+
+/**
+ * Inline word-level diff: removed words struck through in red, added words in green
+ */
+export function DraftDiff({ before, after, maxHeight = "600px" }: DraftDiffProps) {
+  const parts = useMemo(() => diffWords(before, after), [before, after]);
+
+  return (
+    <div
+      className="w-full overflow-y-auto p-4 border rounded-md bg-white whitespace-pre-wrap font-mono text-sm"
+      style={{ maxHeight }}
+    >
+      {parts.map((part, index) =>
+        part.op === "added" ? (
+          <ins key={index} className="bg-green-100 text-green-900 no-underline">
+            {part.text}
+          </ins>
+        ) : part.op === "removed" ? (
+          <del key={index} className="bg-red-100 text-red-900">
+            {part.text}
+          </del>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DraftDiff } from "@/components/workflow/draft-diff";
+
+interface DraftVersionSummary {
+  version: number;
+  wordCount: number;
+  author: "agent" | "user";
+  // Overall voice score, if the version was checked
+  voiceScore: number | null;
+  createdAt: string;
+  updatedAt: string;
+  revision: {
+    fromVersion: number;
+    feedback: string;
+    sectionNotes: { sectionNumber: number; note: string }[];
+  } | null;
+}
+
+interface DraftHistoryProps {
+  blogPostId: string;
+  // Latest version shown on the page; the list reloads when it changes
+  currentVersion: number | null;
+  onRestore: (draft: { content: string; wordCount: number; version: number }) => void;
+}
+
+const selectClassName = "h-9 rounded-md border border-input bg-background px-2 text-sm";
+
+export function DraftHistory({ blogPostId, currentVersion, onRestore }: DraftHistoryProps) {
+  const [versions, setVersions] = useState<DraftVersionSummary[]>([]);
+  const [contents, setContents] = useState<Record<number, string>>({});
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadVersions();
+  }, [blogPostId, currentVersion]);
+
+  // Fetch the content of the versions being compared
+  useEffect(() => {
+    [fromVersion, toVersion].forEach((version) => {
+      if (version !== null && contents[version] === undefined) {
+        loadContent(version);
+      }
+    });
+  }, [fromVersion, toVersion]);
+
+  const loadVersions = async () => {
+    try {
+      const response = await fetch(`/api/workflow/${blogPostId}/drafts`);
+      if (response.ok) {
+        const data = await response.json();
+        const list: DraftVersionSummary[] = data.drafts || [];
+        setVersions(list);
+        // Default to comparing the latest version against the one before it
+        setToVersion(list[0]?.version ?? null);
+        setFromVersion(list[1]?.version ?? list[0]?.version ?? null);
+      }
+    } catch (error) {
+      console.error("Error loading draft versions:", error);
+    }
+  };
+
+  const loadContent = async (version: number) => {
+    try {
+      const response = await fetch(`/api/workflow/${blogPostId}/drafts/${version}`);
+      if (response.ok) {
+        const data = await response.json();
+        setContents((prev) => ({ ...prev, [version]: data.content }));
+      }
+    } catch (error) {
+      console.error(`Error loading draft version ${version}:`, error);
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    setRestoring(version);
+
+    try {
+      const response = await fetch(`/api/workflow/${blogPostId}/drafts/${version}/restore`, {
+        method: "POST",
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setContents((prev) => ({ ...prev, [data.version]: data.content }));
+        onRestore(data);
+      } else {
+        const error = await response.json();
+        alert(error.error?.message || "Failed to restore version");
+      }
+    } catch (error) {
+      console.error("Error restoring draft version:", error);
+      alert("Failed to restore version. Please try again.");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (versions.length < 2) {
+    return null;
+  }
+
+  const canCompare = fromVersion !== null && toVersion !== null
+    && contents[fromVersion] !== undefined && contents[toVersion] !== undefined;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Version History</CardTitle>
+        <CardDescription>
+          Compare earlier drafts or restore one as a new version
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {versions.map((draft) => (
+            <div key={draft.version} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="text-sm">
+                <span className="font-medium">Version {draft.version}</span>
+                {draft.version === versions[0].version && (
+                  <span className="ml-2 text-muted-foreground">(current)</span>
+                )}
+                <span className="ml-2 text-muted-foreground">
+                  {draft.author === "user" ? "Your edit" : draft.revision ? `Revision of version ${draft.revision.fromVersion}` : "Generated"} · {draft.wordCount} words{draft.voiceScore !== null && ` · Voice ${draft.voiceScore}`} · {new Date(draft.updatedAt).toLocaleString()}
+                </span>
+                {draft.revision && (
+                  <div className="mt-1 text-muted-foreground">
+                    {draft.revision.feedback && <div>&ldquo;{draft.revision.feedback}&rdquo;</div>}
+                    {draft.revision.sectionNotes.map((note) => (
+                      <div key={note.sectionNumber}>
+                        Section {note.sectionNumber}: {note.note}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {draft.version !== versions[0].version && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRestore(draft.version)}
+                  disabled={restoring !== null}
+                >
+                  {restoring === draft.version ? "Restoring..." : "Restore this version"}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 text-sm">
+          <span>Compare version</span>
+          <select
+            className={selectClassName}
+            value={fromVersion ?? ""}
+            onChange={(e) => setFromVersion(Number(e.target.value))}
+            aria-label="Base version"
+          >
+            {versions.map((draft) => (
+              <option key={draft.version} value={draft.version}>{draft.version}</option>
+            ))}
+          </select>
+          <span>with</span>
+          <select
+            className={selectClassName}
+            value={toVersion ?? ""}
+            onChange={(e) => setToVersion(Number(e.target.value))}
+            aria-label="Compared version"
+          >
+            {versions.map((draft) => (
+              <option key={draft.version} value={draft.version}>{draft.version}</option>
+            ))}
+          </select>
+        </div>
+
+        {canCompare ? (
+          <DraftDiff before={contents[fromVersion!]} after={contents[toVersion!]} maxHeight="400px" />
+        ) : (
+          <p className="text-sm text-muted-foreground">Loading versions...</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  addSection,
+  deleteSection,
+  mergeWithNext,
+  moveSection,
+  splitSection,
+  EditableOutlineSection,
+  EVIDENCE_TYPES,
+  MAX_OUTLINE_SECTIONS,
+} from "@/lib/workflow/outline";
+
+interface OutlineEditorProps {
+  sections: EditableOutlineSection[];
+  onChange: (sections: EditableOutlineSection[]) => void;
+  disabled?: boolean;
+}
+
+const EVIDENCE_TYPE_LABELS: Record<string, string> = {
+  research: "Research",
+  examples: "Examples",
+  expert_quotes: "Expert quotes",
+  data_points: "Data points",
+  analogies: "Analogies",
+};
+
+/**
+ * Thesis outline with structural edits: add, delete, reorder, merge and split
+ * sections, and edit each section's fields
+ */
+export function OutlineEditor({ sections, onChange, disabled }: OutlineEditorProps) {
+  const full = sections.length >= MAX_OUTLINE_SECTIONS;
+
+  const updateSection = (index: number, changes: Partial<EditableOutlineSection>) => {
+    onChange(sections.map((section, i) => i === index ? { ...section, ...changes } : section));
+  };
+
+  return (
+    <div className="space-y-3">
+      {sections.map((section, index) => (
+        <div key={index} className="p-4 border rounded-md bg-gray-50/50 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-lg">{section.sectionNumber}.</span>
+            <Input
+              value={section.title}
+              onChange={(e) => updateSection(index, { title: e.target.value })}
+              disabled={disabled}
+              aria-label={`Section ${section.sectionNumber} title`}
+              className="font-medium"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(moveSection(sections, index, -1))}
+              disabled={disabled || index === 0}
+              aria-label="Move section up"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(moveSection(sections, index, 1))}
+              disabled={disabled || index === sections.length - 1}
+              aria-label="Move section down"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(deleteSection(sections, index))}
+              disabled={disabled || sections.length === 1}
+              aria-label="Delete section"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="text-sm space-y-2">
+            <div>
+              <label className="block font-medium mb-1">Purpose</label>
+              <Textarea
+                value={section.purpose}
+                onChange={(e) => updateSection(index, { purpose: e.target.value })}
+                disabled={disabled}
+                className="min-h-[60px]"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="font-medium" htmlFor={`evidence-type-${index}`}>Evidence Type</label>
+              <select
+                id={`evidence-type-${index}`}
+                className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                value={section.evidenceType}
+                onChange={(e) => updateSection(index, { evidenceType: e.target.value })}
+                disabled={disabled}
+              >
+                {/* Keep a generated type that isn't one of the known ones selectable */}
+                {!(EVIDENCE_TYPES as readonly string[]).includes(section.evidenceType) && (
+                  <option value={section.evidenceType}>{section.evidenceType}</option>
+                )}
+                {EVIDENCE_TYPES.map((type) => (
+                  <option key={type} value={type}>{EVIDENCE_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block font-medium mb-1">Research Guidance</label>
+              <Textarea
+                value={section.evidenceGuidance || ""}
+                onChange={(e) => updateSection(index, { evidenceGuidance: e.target.value })}
+                disabled={disabled}
+                className="min-h-[60px]"
+                placeholder="What research should look for in this section"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onChange(addSection(sections, index))}
+              disabled={disabled || full}
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add Below
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onChange(splitSection(sections, index))}
+              disabled={disabled || full}
+            >
+              Split
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onChange(mergeWithNext(sections, index))}
+              disabled={disabled || index === sections.length - 1}
+            >
+              Merge with Next
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
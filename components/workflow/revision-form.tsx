@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+export interface RevisionRequest {
+  feedback: string;
+  sectionNotes: { sectionNumber: number; note: string }[];
+}
+
+interface RevisionFormProps {
+  outline: any[];
+  submitting?: boolean;
+  onSubmit: (request: RevisionRequest) => void;
+  onRegenerate: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Feedback for a draft revision: free text plus optional notes per outline section
+ */
+export function RevisionForm({
+  outline,
+  submitting = false,
+  onSubmit,
+  onRegenerate,
+  onCancel,
+}: RevisionFormProps) {
+  const [feedback, setFeedback] = useState("");
+  const [notes, setNotes] = useState<Record<number, string>>({});
+
+  const sectionNotes = Object.entries(notes)
+    .filter(([, note]) => note.trim())
+    .map(([sectionNumber, note]) => ({ sectionNumber: Number(sectionNumber), note: note.trim() }));
+
+  const canSubmit = !submitting && (feedback.trim().length > 0 || sectionNotes.length > 0);
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg bg-gray-50/50">
+      <div>
+        <h3 className="font-medium mb-2">What should change?</h3>
+        <Textarea
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          className="min-h-[100px]"
+          placeholder="e.g. Tighten the introduction and add a concrete example to the second section"
+        />
+      </div>
+
+      {outline.length > 0 && (
+        <div>
+          <h3 className="font-medium mb-2">Section notes (optional)</h3>
+          <div className="space-y-3">
+            {outline.map((section: any) => (
+              <div key={section.sectionNumber}>
+                <label
+                  htmlFor={`section-note-${section.sectionNumber}`}
+                  className="text-sm text-muted-foreground"
+                >
+                  {section.sectionNumber}. {section.title}
+                </label>
+                <Textarea
+                  id={`section-note-${section.sectionNumber}`}
+                  value={notes[section.sectionNumber] || ""}
+                  onChange={(e) => setNotes((prev) => ({ ...prev, [section.sectionNumber]: e.target.value }))}
+                  className="min-h-[60px] mt-1"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-4">
+        <Button variant="outline" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button variant="outline" onClick={onRegenerate} disabled={submitting}>
+          Regenerate From Scratch
+        </Button>
+        <Button
+          onClick={() => onSubmit({ feedback: feedback.trim(), sectionNotes })}
+          disabled={!canSubmit}
+          className="flex-1"
+        >
+          {submitting ? "Submitting..." : "Revise Draft"}
+        </Button>
+      </div>
+    </div>
+  );
+}
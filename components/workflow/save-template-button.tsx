@@ -0,0 +1,73 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface SaveTemplateButtonProps {
+  blogPostId: string;
+  defaultName?: string;
+}
+
+/**
+ * Save the post's blog type, voice/tone, outline structure and source types
+ * as a reusable template
+ */
+export function SaveTemplateButton({ blogPostId, defaultName = "" }: SaveTemplateButtonProps) {
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState(defaultName);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+
+    try {
+      const response = await fetch("/api/templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ blogPostId, name: name.trim() }),
+      });
+
+      if (response.ok) {
+        setNaming(false);
+        setSaved(true);
+      } else {
+        const error = await response.json();
+        alert(error.error?.message || "Failed to save template");
+      }
+    } catch (error) {
+      console.error("Error saving template:", error);
+      alert("Failed to save template. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!naming) {
+    return (
+      <Button variant="outline" onClick={() => { setNaming(true); setSaved(false); }}>
+        {saved ? "Saved as Template" : "Save as Template"}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Template name"
+        className="w-56"
+        disabled={saving}
+        autoFocus
+      />
+      <Button onClick={handleSave} disabled={saving || !name.trim()}>
+        {saving ? "Saving..." : "Save"}
+      </Button>
+      <Button variant="ghost" onClick={() => setNaming(false)} disabled={saving}>
+        Cancel
+      </Button>
+    </div>
+  );
+}
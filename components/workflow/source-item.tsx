@@ -0,0 +1,120 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+
+export interface SourceChanges {
+  excluded?: boolean;
+  required?: boolean;
+  sectionMapping?: number[];
+}
+
+interface SourceItemProps {
+  source: any;
+  outline: any[];
+  onChange: (changes: SourceChanges) => void;
+  updating?: boolean;
+}
+
+/**
+ * One research source with its scores and the author's curation controls:
+ * exclude, require, and which outline sections it supports
+ */
+export function SourceItem({ source, outline, onChange, updating = false }: SourceItemProps) {
+  const sections: number[] = source.sectionMapping || [];
+
+  const toggleSection = (sectionNumber: number) => {
+    onChange({
+      sectionMapping: sections.includes(sectionNumber)
+        ? sections.filter((n) => n !== sectionNumber)
+        : [...sections, sectionNumber],
+    });
+  };
+
+  return (
+    <div className={`p-4 border rounded-lg ${source.excluded ? "opacity-60" : ""}`}>
+      <div className="flex items-start justify-between mb-2">
+        <div className="flex-1">
+          <div className="font-medium">
+            {source.title}
+            {source.required && (
+              <span className="ml-2 rounded bg-primary/10 px-1.5 py-0.5 text-xs font-normal text-primary">Required</span>
+            )}
+            {source.excluded && (
+              <span className="ml-2 rounded bg-muted px-1.5 py-0.5 text-xs font-normal text-muted-foreground">Excluded</span>
+            )}
+          </div>
+          <a 
+            href={source.url} 
+            target="_blank" 
+            rel="noopener noreferrer"
+            className="text-sm text-secondary hover:underline"
+          >
+            {source.url}
+          </a>
+        </div>
+        <div className="text-sm text-right">
+          {source.manual ? (
+            <div className="font-medium">Added by you</div>
+          ) : (
+            <div className="font-medium">Quality: {source.qualityScore}/5</div>
+          )}
+          {source.authority !== undefined && (
+            <div className="text-xs text-muted-foreground">
+              Authority {source.authority} · Relevance {source.relevance} · Recency {source.recency} · Credibility {source.credibility}
+            </div>
+          )}
+          {(source.paywalled || source.duplicateOf) && (
+            <div className="text-xs text-amber-700">
+              {[source.paywalled && "Paywall", source.duplicateOf && `Duplicate of ${source.duplicateOf}`]
+                .filter(Boolean)
+                .join(" · ")}
+            </div>
+          )}
+        </div>
+      </div>
+      <div className="text-xs text-muted-foreground mt-2">
+        {source.notes || source.qualityRationale}
+      </div>
+      {source.excerpts?.[0] && (
+        <blockquote className="text-sm text-muted-foreground mt-2 border-l-2 pl-3 italic">
+          {source.excerpts[0]}
+        </blockquote>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ excluded: !source.excluded })}
+          disabled={updating}
+        >
+          {source.excluded ? "Include" : "Exclude"}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ required: !source.required })}
+          disabled={updating || source.excluded}
+        >
+          {source.required ? "Not required" : "Must cite"}
+        </Button>
+        {outline.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 pl-2">
+            <span className="text-muted-foreground">Sections:</span>
+            {outline.map((section: any) => (
+              <label key={section.sectionNumber} className="flex items-center gap-1" title={section.title}>
+                <input
+                  type="checkbox"
+                  checked={sections.includes(section.sectionNumber)}
+                  onChange={() => toggleSection(section.sectionNumber)}
+                  disabled={updating}
+                />
+                {section.sectionNumber}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ARTIFACT_LABELS, ArtifactStaleness, WorkflowArtifact } from "@/lib/workflow/dependencies";
+
+interface StaleBannerProps {
+  artifact: WorkflowArtifact;
+  staleness?: ArtifactStaleness | null;
+  onRegenerate: () => void;
+  regenerating?: boolean;
+}
+
+/**
+ * Warns that a step's output was built from upstream work that has since changed
+ */
+export function StaleBanner({
+  artifact,
+  staleness,
+  onRegenerate,
+  regenerating = false,
+}: StaleBannerProps) {
+  if (!staleness?.stale) {
+    return null;
+  }
+
+  const cause = staleness.changedUpstream
+    ? `The ${ARTIFACT_LABELS[staleness.changedUpstream]} changed after this ${ARTIFACT_LABELS[artifact]} was generated.`
+    : `This ${ARTIFACT_LABELS[artifact]} is out of date.`;
+
+  return (
+    <div
+      role="status"
+      className="mb-6 flex items-center justify-between gap-4 rounded-md border border-amber-300 bg-amber-50 p-4 text-amber-900"
+    >
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="mt-0.5 h-5 w-5 flex-shrink-0" />
+        <p className="text-sm">
+          <span className="font-semibold">Stale — regenerate?</span> {cause}
+        </p>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={onRegenerate}
+        disabled={regenerating}
+      >
+        {regenerating ? "Regenerating..." : "Regenerate"}
+      </Button>
+    </div>
+  );
+}
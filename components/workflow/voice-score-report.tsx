@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+type VoiceDimension = "writingStyle" | "formality" | "emotionalPosture" | "rules" | "metrics";
+
+export interface VoiceScore {
+  scoredAt: string;
+  voiceName: string;
+  overall: number;
+  dimensions: { dimension: VoiceDimension; score: number; notes: string }[];
+  comparisons: { metric: string; actual: number; target: number; score: number }[] | null;
+  flaggedPassages: { excerpt: string; dimension: VoiceDimension; issue: string; suggestion?: string }[];
+}
+
+interface VoiceScoreReportProps {
+  blogPostId: string;
+  version: number;
+  score: VoiceScore | null;
+  onScored: (score: VoiceScore) => void;
+}
+
+const DIMENSION_LABELS: Record<VoiceDimension, string> = {
+  writingStyle: "Writing style",
+  formality: "Formality",
+  emotionalPosture: "Emotional posture",
+  rules: "Do / don't rules",
+  metrics: "Measured metrics",
+};
+
+const METRIC_LABELS: Record<string, string> = {
+  avgSentenceLength: "Avg sentence length",
+  readingGrade: "Reading grade",
+  firstPersonRate: "First person / 100 words",
+  secondPersonRate: "Second person / 100 words",
+  contractionRate: "Contractions / 100 words",
+  questionRate: "Question share",
+};
+
+function scoreClassName(score: number) {
+  return score >= 80 ? "text-green-700" : score >= 60 ? "text-amber-700" : "text-red-700";
+}
+
+/**
+ * How closely a draft version matches the selected voice, with the passages
+ * where it drifts
+ */
+export function VoiceScoreReport({ blogPostId, version, score, onScored }: VoiceScoreReportProps) {
+  const [profiles, setProfiles] = useState<{ id: string; name: string }[]>([]);
+  // "" scores against the post's selected voice/tone
+  const [voiceProfileId, setVoiceProfileId] = useState("");
+  const [scoring, setScoring] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/voice-profiles")
+      .then((response) => response.ok ? response.json() : { profiles: [] })
+      .then((data) => setProfiles(data.profiles || []))
+      .catch((error) => console.error("Error loading voice profiles:", error));
+  }, []);
+
+  const handleScore = async () => {
+    setScoring(true);
+
+    try {
+      const response = await fetch(`/api/workflow/${blogPostId}/drafts/${version}/voice-score`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(voiceProfileId ? { voiceProfileId } : {}),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        onScored(data.voiceScore);
+      } else {
+        alert(data.error?.message || "Failed to check the draft's voice");
+      }
+    } catch (error) {
+      console.error("Error scoring draft voice:", error);
+      alert("Failed to check the draft's voice. Please try again.");
+    } finally {
+      setScoring(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Voice Check</CardTitle>
+            <CardDescription>
+              {score
+                ? `Version ${version} against "${score.voiceName}" · ${new Date(score.scoredAt).toLocaleString()}`
+                : "See where this draft drifts from the voice you chose"}
+            </CardDescription>
+          </div>
+          {score && (
+            <div className={`text-3xl font-bold ${scoreClassName(score.overall)}`}>{score.overall}</div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {profiles.length > 0 && (
+            <select
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+              value={voiceProfileId}
+              onChange={(e) => setVoiceProfileId(e.target.value)}
+              aria-label="Voice to check against"
+              disabled={scoring}
+            >
+              <option value="">Selected voice</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+          )}
+          <Button variant="outline" size="sm" onClick={handleScore} disabled={scoring}>
+            {scoring ? "Checking..." : score ? "Check Again" : "Check Voice"}
+          </Button>
+        </div>
+
+        {score && (
+          <>
+            <div className="space-y-2">
+              {score.dimensions.map((dimension) => (
+                <div key={dimension.dimension} className="text-sm">
+                  <div className="flex justify-between font-medium">
+                    <span>{DIMENSION_LABELS[dimension.dimension]}</span>
+                    <span className={scoreClassName(dimension.score)}>{dimension.score}</span>
+                  </div>
+                  <p className="text-muted-foreground">{dimension.notes}</p>
+                </div>
+              ))}
+            </div>
+
+            {score.comparisons && (
+              <table className="w-full text-xs">
+                <thead className="text-muted-foreground">
+                  <tr>
+                    <th className="text-left font-normal">Metric</th>
+                    <th className="text-right font-normal">Draft</th>
+                    <th className="text-right font-normal">Your voice</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {score.comparisons.map((comparison) => (
+                    <tr key={comparison.metric} className={comparison.score < 50 ? "text-red-700" : undefined}>
+                      <td>{METRIC_LABELS[comparison.metric] || comparison.metric}</td>
+                      <td className="text-right">{comparison.actual}</td>
+                      <td className="text-right">{comparison.target}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {score.flaggedPassages.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="text-sm font-medium">Where the voice drifts</h4>
+                {score.flaggedPassages.map((passage, index) => (
+                  <div key={index} className="rounded-lg border p-3 text-sm">
+                    <div className="text-xs text-muted-foreground">{DIMENSION_LABELS[passage.dimension]}</div>
+                    <blockquote className="mt-1 border-l-2 pl-3 italic">{passage.excerpt}</blockquote>
+                    <p className="mt-1">{passage.issue}</p>
+                    {passage.suggestion && (
+                      <p className="mt-1 text-xs text-muted-foreground">Suggestion: {passage.suggestion}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 /**
  * @deprecated This agent is deprecated. Voice/tone options are now pre-defined in lib/data/voice-tone-presets.ts
- * and returned instantly without LLM calls. This class is kept for potential future "custom voice" features.
+ * and returned instantly without LLM calls. Custom voices learned from writing samples live in the worker's
+ * VoiceToneAgent (ai-worker/src/agents/voice-tone-agent.ts).
  */
 import { BaseAgent, AgentConfig } from "./base";
 import { z } from "zod";
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { blogPosts, users } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { isUuid } from "@/lib/utils/uuid";
+
+/**
+ * Shared guards for routes that act on a user's blog posts. Each guard returns
+ * either the resolved records or a ready-made error response:
+ *
+ *   const access = await requireOwnedBlogPost(params.blogPostId);
+ *   if ("error" in access) return access.error;
+ *
+ * Posts owned by someone else are reported as not found so post IDs can't be probed.
+ */
+
+export type User = typeof users.$inferSelect;
+export type BlogPost = typeof blogPosts.$inferSelect;
+
+type Guarded<T> = T | { error: NextResponse };
+
+function blogPostNotFound() {
+  return NextResponse.json(
+    { error: { code: "BLOG_POST_NOT_FOUND", message: "Blog post not found" } },
+    { status: 404 }
+  );
+}
+
+/**
+ * Resolve the Clerk session to the local user record
+ */
+export async function requireUser(): Promise<Guarded<{ user: User }>> {
+  const { userId: clerkUserId } = await auth();
+
+  if (!clerkUserId) {
+    return {
+      error: NextResponse.json(
+        { error: { code: "AUTH_REQUIRED", message: "Authentication required" } },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const [user] = await db.select()
+    .from(users)
+    .where(eq(users.clerkUserId, clerkUserId))
+    .limit(1);
+
+  if (!user) {
+    return {
+      error: NextResponse.json(
+        { error: { code: "USER_NOT_FOUND", message: "User not found" } },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { user };
+}
+
+/**
+ * Load a blog post scoped to the given owner
+ */
+export async function getOwnedBlogPost(userId: string, blogPostId: string): Promise<BlogPost | null> {
+  if (!isUuid(blogPostId)) return null;
+
+  const [blogPost] = await db.select()
+    .from(blogPosts)
+    .where(and(
+      eq(blogPosts.id, blogPostId),
+      eq(blogPosts.userId, userId)
+    ))
+    .limit(1);
+
+  return blogPost || null;
+}
+
+/**
+ * Require a signed-in user who owns the blog post
+ */
+export async function requireOwnedBlogPost(
+  blogPostId: string
+): Promise<Guarded<{ user: User; blogPost: BlogPost }>> {
+  const access = await requireUser();
+  if ("error" in access) return access;
+
+  const blogPost = await getOwnedBlogPost(access.user.id, blogPostId);
+
+  if (!blogPost) {
+    return { error: blogPostNotFound() };
+  }
+
+  return { user: access.user, blogPost };
+}
@@ -6,7 +6,14 @@ export interface VoiceToneOption {
     writingStyle: string;
     formality: string;
     emotionalPosture: string;
+    // Free-form rules, only set by user voice profiles
+    do?: string[];
+    dont?: string[];
+    // Measured from writing samples, only set by learned voice profiles
+    metrics?: Record<string, number>;
   };
+  // Set for options built from the user's own voice profiles
+  custom?: boolean;
 }
 
 export const VOICE_TONE_PRESETS: Record<string, VoiceToneOption[]> = {
@@ -30,6 +30,26 @@ export const stepNameEnum = pgEnum("step_name", [
   "editorial",
 ]);
 
+export const jobTypeEnum = pgEnum("job_type", [
+  "research",
+  "draft",
+  "editorial",
+  "revision",
+  "section",
+]);
+
+export const jobStatusEnum = pgEnum("job_status", [
+  "queued",
+  "running",
+  "succeeded",
+  "failed",
+]);
+
+export const draftAuthorEnum = pgEnum("draft_author", [
+  "agent",
+  "user",
+]);
+
 export const providerEnum = pgEnum("provider", [
   "openai",
   "anthropic",
@@ -37,6 +57,20 @@ export const providerEnum = pgEnum("provider", [
   "exa",
 ]);
 
+export const searchProviderEnum = pgEnum("search_provider", [
+  "perplexity",
+  "exa",
+  "fixture",
+]);
+
+export const citationStyleEnum = pgEnum("citation_style", [
+  "inline",
+  "footnotes",
+  "apa",
+  "mla",
+  "chicago",
+]);
+
 // Tables
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -56,6 +90,7 @@ export const blogPosts = pgTable("blog_posts", {
   title: varchar("title", { length: 500 }),
   blogType: blogTypeEnum("blog_type").notNull(),
   status: blogStatusEnum("status").notNull().default("draft"),
+  templateId: uuid("template_id").references(() => templates.id, { onDelete: "set null" }), // Template the post was started from
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
@@ -109,6 +144,7 @@ export const researchSources = pgTable("research_sources", {
   blogPostId: uuid("blog_post_id").notNull().references(() => blogPosts.id, { onDelete: "cascade" }),
   sources: jsonb("sources").notNull(),
   sectionMapping: jsonb("section_mapping").notNull(),
+  version: integer("version").notNull().default(0), // Bumped on every write so concurrent edits aren't lost
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
@@ -122,10 +158,28 @@ export const blogDrafts = pgTable("blog_drafts", {
   content: text("content").notNull(),
   wordCount: integer("word_count").notNull(),
   version: integer("version").notNull().default(1), // Track draft versions
+  author: draftAuthorEnum("author").notNull().default("agent"), // Who wrote this version
+  voiceScore: jsonb("voice_score"), // Conformance to the selected voice, see /voice-tone/score; cleared when the content changes
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
   blogPostIdIdx: index("idx_blog_drafts_blog_post_id").on(table.blogPostId),
+  blogPostIdVersionUnique: unique("blog_drafts_blog_post_id_version_unique").on(table.blogPostId, table.version),
+}));
+
+// Feedback-driven revisions: which version was revised, what was asked for,
+// and which version the revision produced
+export const draftRevisions = pgTable("draft_revisions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  blogPostId: uuid("blog_post_id").notNull().references(() => blogPosts.id, { onDelete: "cascade" }),
+  fromVersion: integer("from_version").notNull(),
+  toVersion: integer("to_version"), // Set once the revision has been written
+  feedback: text("feedback").notNull().default(""),
+  sectionNotes: jsonb("section_notes").notNull().default([]), // [{ sectionNumber, note }]
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  blogPostIdIdx: index("idx_draft_revisions_blog_post_id").on(table.blogPostId),
 }));
 
 export const finalPosts = pgTable("final_posts", {
@@ -135,6 +189,7 @@ export const finalPosts = pgTable("final_posts", {
   seoMetadata: jsonb("seo_metadata").notNull(),
   socialPosts: jsonb("social_posts").notNull(),
   citations: jsonb("citations").notNull(),
+  citationReport: jsonb("citation_report"), // Link verification against research sources, see /editorial/verify
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
@@ -142,6 +197,44 @@ export const finalPosts = pgTable("final_posts", {
   blogPostIdUnique: unique("final_posts_blog_post_id_unique").on(table.blogPostId),
 }));
 
+export const jobs = pgTable("jobs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  blogPostId: uuid("blog_post_id").notNull().references(() => blogPosts.id, { onDelete: "cascade" }),
+  type: jobTypeEnum("type").notNull(),
+  status: jobStatusEnum("status").notNull().default("queued"),
+  payload: jsonb("payload"),
+  result: jsonb("result"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  startedAt: timestamp("started_at", { withTimezone: true }), // Lease start for the current attempt
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  blogPostIdIdx: index("idx_jobs_blog_post_id").on(table.blogPostId),
+  statusIdx: index("idx_jobs_status").on(table.status),
+  createdAtIdx: index("idx_jobs_created_at").on(table.createdAt),
+}));
+
+export const voiceProfiles = pgTable("voice_profiles", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  writingStyle: text("writing_style").notNull(),
+  formality: text("formality").notNull(),
+  emotionalPosture: text("emotional_posture").notNull(),
+  doRules: jsonb("do_rules").notNull().default([]), // string[]
+  dontRules: jsonb("dont_rules").notNull().default([]), // string[]
+  metrics: jsonb("metrics"), // TextMetrics, set when the profile was learned from writing samples
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index("idx_voice_profiles_user_id").on(table.userId),
+  userIdNameUnique: unique("voice_profiles_user_name_unique").on(table.userId, table.name),
+}));
+
 export const templates = pgTable("templates", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
@@ -170,6 +263,17 @@ export const apiKeys = pgTable("api_keys", {
   providerIdx: index("idx_api_keys_provider").on(table.provider),
 }));
 
+export const userSettings = pgTable("user_settings", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }).unique(),
+  searchProvider: searchProviderEnum("search_provider"), // null = server default (SEARCH_PROVIDER)
+  citationStyle: citationStyleEnum("citation_style"), // null = inline links
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index("idx_user_settings_user_id").on(table.userId),
+}));
+
 export const accessRequests = pgTable("access_requests", {
   id: uuid("id").primaryKey().defaultRandom(),
   email: varchar("email", { length: 255 }).notNull().unique(),
@@ -182,10 +286,12 @@ export const accessRequests = pgTable("access_requests", {
 }));
 
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   blogPosts: many(blogPosts),
   templates: many(templates),
+  voiceProfiles: many(voiceProfiles),
   apiKeys: many(apiKeys),
+  settings: one(userSettings),
 }));
 
 export const blogPostsRelations = relations(blogPosts, ({ one, many }) => ({
@@ -199,5 +305,47 @@ export const blogPostsRelations = relations(blogPosts, ({ one, many }) => ({
   researchSources: one(researchSources),
   draft: one(blogDrafts),
   finalPost: one(finalPosts),
+  jobs: many(jobs),
+  draftRevisions: many(draftRevisions),
+  template: one(templates, {
+    fields: [blogPosts.templateId],
+    references: [templates.id],
+  }),
+}));
+
+export const jobsRelations = relations(jobs, ({ one }) => ({
+  blogPost: one(blogPosts, {
+    fields: [jobs.blogPostId],
+    references: [blogPosts.id],
+  }),
 }));
 
+
+export const draftRevisionsRelations = relations(draftRevisions, ({ one }) => ({
+  blogPost: one(blogPosts, {
+    fields: [draftRevisions.blogPostId],
+    references: [blogPosts.id],
+  }),
+}));
+
+export const voiceProfilesRelations = relations(voiceProfiles, ({ one }) => ({
+  user: one(users, {
+    fields: [voiceProfiles.userId],
+    references: [users.id],
+  }),
+}));
+
+export const templatesRelations = relations(templates, ({ one, many }) => ({
+  user: one(users, {
+    fields: [templates.userId],
+    references: [users.id],
+  }),
+  blogPosts: many(blogPosts),
+}));
+
+export const userSettingsRelations = relations(userSettings, ({ one }) => ({
+  user: one(users, {
+    fields: [userSettings.userId],
+    references: [users.id],
+  }),
+}));
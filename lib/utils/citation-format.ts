@@ -0,0 +1,228 @@
+import { normalizeUrl } from "@/lib/workflow/research";
+
+/**
+ * Render a final post's citations (finalPosts.citations) in a publication's
+ * house style. The editorial step writes citations as inline markdown links;
+ * every style starts from those links.
+ */
+
+export const CITATION_STYLES = ["inline", "footnotes", "apa", "mla", "chicago"] as const;
+
+export type CitationStyle = typeof CITATION_STYLES[number];
+
+export const CITATION_STYLE_LABELS: Record<CitationStyle, string> = {
+  inline: "Inline links",
+  footnotes: "Numbered footnotes",
+  apa: "APA",
+  mla: "MLA",
+  chicago: "Chicago",
+};
+
+export const DEFAULT_CITATION_STYLE: CitationStyle = "inline";
+
+export interface Citation {
+  id: string;
+  url: string;
+  title?: string;
+  author?: string;
+  publishedDate?: string | null;
+  accessedAt?: string | null;
+}
+
+export function isCitationStyle(value: any): value is CitationStyle {
+  return CITATION_STYLES.includes(value);
+}
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+// MLA abbreviates every month longer than four letters
+const MLA_MONTHS = [
+  "Jan.", "Feb.", "Mar.", "Apr.", "May", "June",
+  "July", "Aug.", "Sept.", "Oct.", "Nov.", "Dec.",
+];
+
+function parseDate(value?: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function siteName(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+function title(citation: Citation): string {
+  return citation.title?.trim() || siteName(citation.url);
+}
+
+// Markdown emphasis marks inside a title would break the italics around it
+function italic(text: string): string {
+  return `*${text.replace(/\*/g, "")}*`;
+}
+
+function withPeriod(text: string): string {
+  return /[.?!]$/.test(text) ? text : `${text}.`;
+}
+
+/**
+ * APA 7 webpage reference:
+ * Author. (2024, March 5). *Title*. Site. https://...
+ */
+export function formatApa(citation: Citation): string {
+  const date = parseDate(citation.publishedDate);
+  const when = date
+    ? `(${date.getUTCFullYear()}, ${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()})`
+    : "(n.d.)";
+  const site = siteName(citation.url);
+
+  // Without an author the title moves into the author position
+  return citation.author
+    ? `${withPeriod(citation.author)} ${when}. ${italic(title(citation))}. ${site}. ${citation.url}`
+    : `${italic(title(citation))}. ${when}. ${site}. ${citation.url}`;
+}
+
+/**
+ * MLA 9 works-cited entry:
+ * Author. "Title." *Site*, 5 Mar. 2024, https://...
+ */
+export function formatMla(citation: Citation): string {
+  const date = parseDate(citation.publishedDate);
+  const accessed = parseDate(citation.accessedAt);
+  const mlaDate = (d: Date) => `${d.getUTCDate()} ${MLA_MONTHS[d.getUTCMonth()]} ${d.getUTCFullYear()}`;
+
+  const parts = [`"${withPeriod(title(citation))}"`, `${italic(siteName(citation.url))},`];
+  if (date) parts.push(`${mlaDate(date)},`);
+  parts.push(`${citation.url}.`);
+  // MLA asks for an access date when the page has no publication date
+  if (!date && accessed) parts.push(`Accessed ${mlaDate(accessed)}.`);
+
+  return [citation.author ? withPeriod(citation.author) : "", ...parts].filter(Boolean).join(" ");
+}
+
+function chicagoDate(citation: Citation): string {
+  const date = parseDate(citation.publishedDate);
+  if (date) return `${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()}, ${date.getUTCFullYear()}`;
+
+  const accessed = parseDate(citation.accessedAt);
+  return accessed
+    ? `Accessed ${MONTHS[accessed.getUTCMonth()]} ${accessed.getUTCDate()}, ${accessed.getUTCFullYear()}`
+    : "";
+}
+
+/**
+ * Chicago (notes and bibliography) bibliography entry:
+ * Author. "Title." Site. March 5, 2024. https://...
+ */
+export function formatChicago(citation: Citation): string {
+  return [
+    citation.author ? withPeriod(citation.author) : "",
+    `"${withPeriod(title(citation))}"`,
+    withPeriod(siteName(citation.url)),
+    chicagoDate(citation) ? withPeriod(chicagoDate(citation)) : "",
+    withPeriod(citation.url),
+  ].filter(Boolean).join(" ");
+}
+
+/**
+ * Chicago footnote: Author, "Title," Site, March 5, 2024, https://...
+ */
+function formatChicagoNote(citation: Citation): string {
+  const rest = [siteName(citation.url), chicagoDate(citation), citation.url].filter(Boolean).join(", ");
+  return `${citation.author ? `${citation.author}, ` : ""}"${title(citation)}," ${rest}.`;
+}
+
+// APA and MLA in-text citations name the author, or a short title without one
+function inTextName(citation: Citation): string {
+  if (citation.author) return citation.author.split(/[,&]| and /)[0].trim();
+  const words = title(citation).split(/\s+/);
+  return words.length > 4 ? `${words.slice(0, 4).join(" ")}...` : words.join(" ");
+}
+
+function inTextCitation(citation: Citation, style: "apa" | "mla"): string {
+  const name = citation.author ? inTextName(citation) : `"${inTextName(citation)}"`;
+  if (style === "mla") return `(${name})`;
+
+  const date = parseDate(citation.publishedDate);
+  return `(${name}, ${date ? date.getUTCFullYear() : "n.d."})`;
+}
+
+// Markdown links, with or without a "title"; images (![alt](url)) are left alone
+const LINK_PATTERN = /(?<!!)\[([^\]]+)\]\(\s*<?(https?:\/\/[^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+/**
+ * Rewrite the post's markdown for a citation style. Links to URLs that are not
+ * among the citations are left alone. The reference list is appended under a
+ * heading that matches the style.
+ */
+export function formatCitations(content: string, citations: Citation[], style: CitationStyle): string {
+  const byUrl = new Map<string, Citation>();
+  for (const citation of citations || []) {
+    if (citation.url) byUrl.set(normalizeUrl(citation.url), citation);
+  }
+
+  // Number citations in the order they first appear in the post
+  const cited: Citation[] = [];
+  const numberOf = (citation: Citation): number => {
+    const index = cited.indexOf(citation);
+    if (index !== -1) return index + 1;
+    cited.push(citation);
+    return cited.length;
+  };
+
+  const body = content.replace(LINK_PATTERN, (match, text: string, url: string) => {
+    const citation = byUrl.get(normalizeUrl(url));
+    if (!citation) return match;
+
+    switch (style) {
+      case "inline":
+        numberOf(citation);
+        return match;
+      case "footnotes":
+      case "chicago":
+        return `${text}[^${numberOf(citation)}]`;
+      case "apa":
+      case "mla":
+        numberOf(citation);
+        return `${text} ${inTextCitation(citation, style)}`;
+    }
+  });
+
+  if (cited.length === 0) return body.trimEnd();
+
+  let references: string;
+  switch (style) {
+    case "inline":
+      references = `## Sources\n\n${cited.map((c) => `- [${title(c)}](${c.url})`).join("\n")}`;
+      break;
+    case "footnotes":
+      references = cited.map((c, i) => `[^${i + 1}]: ${withPeriod(title(c))} ${c.url}`).join("\n");
+      break;
+    case "apa":
+      references = `## References\n\n${sortedEntries(cited, formatApa)}`;
+      break;
+    case "mla":
+      references = `## Works Cited\n\n${sortedEntries(cited, formatMla)}`;
+      break;
+    case "chicago":
+      references = `${cited.map((c, i) => `[^${i + 1}]: ${formatChicagoNote(c)}`).join("\n")}\n\n` +
+        `## Bibliography\n\n${sortedEntries(cited, formatChicago)}`;
+      break;
+  }
+
+  return `${body.trimEnd()}\n\n${references}`;
+}
+
+// Bibliography styles list entries alphabetically, one paragraph each
+function sortedEntries(citations: Citation[], format: (citation: Citation) => string): string {
+  return citations
+    .map(format)
+    .sort((a, b) => a.replace(/^["*]/, "").localeCompare(b.replace(/^["*]/, "")))
+    .join("\n\n");
+}
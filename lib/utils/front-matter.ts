@@ -0,0 +1,128 @@
+/**
+ * Front matter for static site generators. Values are escaped for the target
+ * syntax, so titles with colons, quotes or newlines stay valid.
+ */
+
+export const FRONT_MATTER_PROFILES = ["default", "hugo", "jekyll", "astro", "eleventy"] as const;
+
+export type FrontMatterProfile = typeof FRONT_MATTER_PROFILES[number];
+
+export const FRONT_MATTER_PROFILE_LABELS: Record<FrontMatterProfile, string> = {
+  default: "Generic YAML",
+  hugo: "Hugo (TOML)",
+  jekyll: "Jekyll",
+  astro: "Astro / Next.js MDX",
+  eleventy: "Eleventy",
+};
+
+export function isFrontMatterProfile(value: any): value is FrontMatterProfile {
+  return FRONT_MATTER_PROFILES.includes(value);
+}
+
+export interface FrontMatterFields {
+  title: string;
+  description: string;
+  date: Date;
+  slug: string;
+  tags: string[];
+  blogType: string;
+  canonicalUrl?: string | null;
+  draft: boolean;
+}
+
+type FrontMatterValue = string | boolean | Date | string[];
+
+// JSON string escapes are valid in both YAML double-quoted scalars and TOML basic strings
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
+
+// Dates are unquoted ISO 8601, which YAML reads as a timestamp and TOML as an offset date-time
+function formatValue(value: FrontMatterValue): string {
+  if (typeof value === "boolean") return String(value);
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return `[${value.map(quote).join(", ")}]`;
+  return quote(value);
+}
+
+function serialize(entries: [string, FrontMatterValue | null | undefined][], format: "yaml" | "toml"): string {
+  const fence = format === "yaml" ? "---" : "+++";
+  const lines = entries
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => format === "yaml"
+      ? `${key}: ${formatValue(value!)}`
+      : `${key} = ${formatValue(value!)}`);
+
+  return `${fence}\n${lines.join("\n")}\n${fence}\n`;
+}
+
+// Jekyll's documented date format: YYYY-MM-DD HH:MM:SS +/-TTTT
+function jekyllDate(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace("T", " ")} +0000`;
+}
+
+/**
+ * Build the front matter block, including its fences, for a profile
+ */
+export function buildFrontMatter(profile: FrontMatterProfile, fields: FrontMatterFields): string {
+  switch (profile) {
+    case "hugo":
+      return serialize([
+        ["title", fields.title],
+        ["description", fields.description],
+        ["date", fields.date],
+        ["slug", fields.slug],
+        ["tags", fields.tags],
+        ["categories", [fields.blogType]],
+        ["canonicalURL", fields.canonicalUrl],
+        ["draft", fields.draft],
+      ], "toml");
+    case "jekyll":
+      return serialize([
+        ["layout", "post"],
+        ["title", fields.title],
+        ["description", fields.description],
+        ["date", jekyllDate(fields.date)],
+        ["slug", fields.slug],
+        ["tags", fields.tags],
+        ["categories", [fields.blogType]],
+        // jekyll-seo-tag's key
+        ["canonical_url", fields.canonicalUrl],
+        // Jekyll hides unpublished posts rather than reading a draft flag
+        ["published", !fields.draft],
+      ], "yaml");
+    case "astro":
+      return serialize([
+        ["title", fields.title],
+        ["description", fields.description],
+        ["pubDate", fields.date],
+        ["slug", fields.slug],
+        ["tags", fields.tags],
+        ["blogType", fields.blogType],
+        ["canonicalUrl", fields.canonicalUrl],
+        ["draft", fields.draft],
+      ], "yaml");
+    case "eleventy":
+      return serialize([
+        ["title", fields.title],
+        ["description", fields.description],
+        ["date", fields.date],
+        ["permalink", `/${fields.slug}/`],
+        ["tags", fields.tags],
+        ["blogType", fields.blogType],
+        ["canonicalUrl", fields.canonicalUrl],
+        ["draft", fields.draft],
+      ], "yaml");
+    case "default":
+      return serialize([
+        ["title", fields.title],
+        ["description", fields.description],
+        ["date", fields.date],
+        ["slug", fields.slug],
+        ["tags", fields.tags],
+        ["blogType", fields.blogType],
+        ["canonicalUrl", fields.canonicalUrl],
+        ["draft", fields.draft],
+      ], "yaml");
+  }
+}
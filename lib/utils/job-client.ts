@@ -0,0 +1,47 @@
+/**
+ * Client-side helper to wait for a background job via GET /api/jobs/:id
+ */
+export interface PollJobOptions {
+  intervalMs?: number;
+  signal?: AbortSignal;
+  onUpdate?: (job: any) => void;
+}
+
+export function isJobPending(job: any): boolean {
+  return job?.status === "queued" || job?.status === "running";
+}
+
+export async function pollJob(
+  jobId: string,
+  { intervalMs = 2000, signal, onUpdate }: PollJobOptions = {}
+): Promise<any> {
+  while (true) {
+    if (signal?.aborted) {
+      throw new DOMException("Polling aborted", "AbortError");
+    }
+
+    const response = await fetch(`/api/jobs/${jobId}`, { signal });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({
+        error: { message: `Job request failed: ${response.status}` },
+      }));
+      throw new Error(error.error?.message || `Job request failed: ${response.status}`);
+    }
+
+    const job = await response.json();
+    onUpdate?.(job);
+
+    if (!isJobPending(job)) {
+      return job;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(resolve, intervalMs);
+      signal?.addEventListener("abort", () => {
+        clearTimeout(timeout);
+        reject(new DOMException("Polling aborted", "AbortError"));
+      }, { once: true });
+    });
+  }
+}
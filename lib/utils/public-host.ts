@@ -0,0 +1,107 @@
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+/**
+ * Checks that a URL points at the public internet before it is fetched, so a
+ * source URL can't reach loopback, private networks or cloud metadata endpoints.
+ * Kept in sync with ai-worker/src/utils/public-host.ts.
+ */
+
+// IPv4 ranges that aren't publicly routable, as [network, prefix length]
+const NON_PUBLIC_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, including metadata endpoints
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // protocol assignments
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 3], // multicast, reserved and broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split(".").reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isPublicIPv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return !NON_PUBLIC_IPV4_RANGES.some(([network, prefix]) => {
+    const start = ipv4ToNumber(network);
+    return value >= start && value < start + 2 ** (32 - prefix);
+  });
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, with an embedded dotted IPv4
+ * tail converted to its two groups
+ */
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().split("%")[0];
+
+  const ipv4Tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (ipv4Tail) {
+    const value = ipv4ToNumber(ipv4Tail[1]);
+    text = text.slice(0, -ipv4Tail[1].length) + `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail] = text.split("::");
+  const parse = (part?: string) => (part ? part.split(":").map((group) => parseInt(group, 16)) : []);
+  const headGroups = parse(head);
+  const tailGroups = parse(tail);
+  const fill = tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill(0);
+
+  return [...headGroups, ...fill, ...tailGroups];
+}
+
+function groupsToIPv4(high: number, low: number): string {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+function isPublicIPv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  const [first] = groups;
+
+  // IPv4-compatible (including :: and ::1) and IPv4-mapped addresses
+  if (groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return isPublicIPv4(groupsToIPv4(groups[6], groups[7]));
+  }
+  // NAT64 and 6to4 carry an IPv4 address too
+  if (first === 0x64 && groups[1] === 0xff9b) {
+    return isPublicIPv4(groupsToIPv4(groups[6], groups[7]));
+  }
+  if (first === 0x2002) {
+    return isPublicIPv4(groupsToIPv4(groups[1], groups[2]));
+  }
+
+  return (first & 0xfe00) !== 0xfc00 // unique-local fc00::/7
+    && (first & 0xffc0) !== 0xfe80 // link-local fe80::/10
+    && (first & 0xffc0) !== 0xfec0 // site-local fec0::/10
+    && (first & 0xff00) !== 0xff00; // multicast
+}
+
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPublicIPv4(address);
+  if (version === 6) return isPublicIPv6(address);
+  return false;
+}
+
+/**
+ * Throw unless the URL is http(s) and every address its host resolves to is public
+ */
+export async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Unsupported protocol: ${url.protocol}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(`Not a public host: ${url.hostname}`);
+  }
+}
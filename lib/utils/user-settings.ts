@@ -0,0 +1,17 @@
+import { db } from "@/lib/db";
+import { userSettings } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { CitationStyle, DEFAULT_CITATION_STYLE } from "@/lib/utils/citation-format";
+
+/**
+ * Get the user's default citation style, falling back to inline links
+ */
+export async function getUserCitationStyle(userId: string): Promise<CitationStyle> {
+  const [settings] = await db
+    .select()
+    .from(userSettings)
+    .where(eq(userSettings.userId, userId))
+    .limit(1);
+
+  return settings?.citationStyle || DEFAULT_CITATION_STYLE;
+}
@@ -0,0 +1,88 @@
+export type DiffOp = "equal" | "added" | "removed";
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+// Words keep their trailing whitespace so joining the parts reproduces the text
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\S+\s*/g) || [];
+}
+
+function pushPart(parts: DiffPart[], op: DiffOp, text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    parts.push({ op, text });
+  }
+}
+
+/**
+ * Word-level diff of two texts (longest common subsequence over words).
+ * Common leading and trailing words are skipped before building the table.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  if (start > 0) {
+    pushPart(parts, "equal", a.slice(0, start).join(""));
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+
+  // lcs[i * (m + 1) + j] = LCS length of a[start + i..endA) and b[start + j..endB)
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[start + i] === b[start + j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      pushPart(parts, "equal", a[start + i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      pushPart(parts, "removed", a[start + i]);
+      i++;
+    } else {
+      pushPart(parts, "added", b[start + j]);
+      j++;
+    }
+  }
+  while (i < n) {
+    pushPart(parts, "removed", a[start + i++]);
+  }
+  while (j < m) {
+    pushPart(parts, "added", b[start + j++]);
+  }
+
+  if (endA < a.length) {
+    pushPart(parts, "equal", a.slice(endA).join(""));
+  }
+
+  return parts;
+}
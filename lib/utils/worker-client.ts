@@ -34,3 +34,42 @@ export async function callWorker(
   return response.json();
 }
 
+
+/**
+ * Call a streaming AI worker endpoint. Returns the raw response so the caller
+ * can consume its Server-Sent Events body.
+ */
+export async function streamWorker(
+  endpoint: string,
+  body: any,
+  signal?: AbortSignal
+): Promise<Response> {
+  const workerUrl = process.env.AI_WORKER_URL;
+  const workerSecret = process.env.WORKER_API_SECRET;
+
+  if (!workerUrl || !workerSecret) {
+    throw new Error(
+      "AI_WORKER_URL and WORKER_API_SECRET must be configured"
+    );
+  }
+
+  const response = await fetch(`${workerUrl}${endpoint}`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${workerSecret}`,
+      "Content-Type": "application/json",
+      "Accept": "text/event-stream",
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => ({
+      error: { code: "WORKER_ERROR", message: `Worker returned ${response.status}` },
+    }));
+    throw new Error(error.error?.message || `Worker request failed: ${response.status}`);
+  }
+
+  return response;
+}
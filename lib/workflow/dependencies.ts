@@ -0,0 +1,68 @@
+/**
+ * Dependency graph between workflow artifacts. Each artifact is generated from
+ * the one before it, so an artifact is stale when anything upstream changed after
+ * it was produced, or when the artifact it was built from is itself stale.
+ *
+ *   voiceTone -> thesis -> research -> draft -> editorial
+ */
+
+export type WorkflowArtifact = "voiceTone" | "thesis" | "research" | "draft" | "editorial";
+
+export const ARTIFACT_ORDER: WorkflowArtifact[] = ["voiceTone", "thesis", "research", "draft", "editorial"];
+
+export const ARTIFACT_LABELS: Record<WorkflowArtifact, string> = {
+  voiceTone: "voice and tone",
+  thesis: "thesis and outline",
+  research: "research",
+  draft: "draft",
+  editorial: "final post",
+};
+
+export interface ArtifactStaleness {
+  stale: boolean;
+  // The upstream artifact whose change made this one stale
+  changedUpstream: WorkflowArtifact | null;
+}
+
+export type WorkflowStaleness = Record<WorkflowArtifact, ArtifactStaleness>;
+
+/**
+ * Compute staleness from the time each artifact was last produced.
+ * Missing artifacts (null) are never stale - there is nothing to regenerate yet.
+ */
+export function computeStaleness(
+  producedAt: Record<WorkflowArtifact, Date | string | null | undefined>
+): WorkflowStaleness {
+  const staleness = {} as WorkflowStaleness;
+
+  // Most recent upstream change seen so far while walking down the chain
+  let latestUpstream: { artifact: WorkflowArtifact; time: number } | null = null;
+  let parentStale: ArtifactStaleness | null = null;
+
+  for (const artifact of ARTIFACT_ORDER) {
+    const value = producedAt[artifact];
+    const time = value ? new Date(value).getTime() : null;
+
+    if (time === null) {
+      staleness[artifact] = { stale: false, changedUpstream: null };
+      // Without this artifact nothing below can have been built from it
+      parentStale = null;
+      continue;
+    }
+
+    if (parentStale?.stale) {
+      staleness[artifact] = { stale: true, changedUpstream: parentStale.changedUpstream };
+    } else if (latestUpstream && latestUpstream.time > time) {
+      staleness[artifact] = { stale: true, changedUpstream: latestUpstream.artifact };
+    } else {
+      staleness[artifact] = { stale: false, changedUpstream: null };
+    }
+
+    if (!latestUpstream || time >= latestUpstream.time) {
+      latestUpstream = { artifact, time };
+    }
+    parentStale = staleness[artifact];
+  }
+
+  return staleness;
+}
@@ -0,0 +1,137 @@
+/**
+ * Split a markdown draft into sections aligned with the thesis outline, so a
+ * single section can be replaced while every other byte stays unchanged.
+ * Pure functions only - safe to use in client components.
+ */
+
+export interface DraftSection {
+  sectionNumber: number;
+  title: string;
+  // The heading line exactly as written in the draft, including its newline
+  heading: string;
+  // Offsets into the draft: [start, end) covers heading and body
+  start: number;
+  end: number;
+  bodyStart: number;
+}
+
+interface Heading {
+  level: number;
+  text: string;
+  start: number;
+  lineEnd: number;
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[*_`#]/g, "")
+    .replace(/^\s*(section\s+)?\d+[.):-]?\s*/, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function titlesMatch(heading: string, title: string): boolean {
+  const a = normalize(heading);
+  const b = normalize(title);
+  return a.length > 0 && b.length > 0 && (a === b || a.includes(b) || b.includes(a));
+}
+
+// ATX headings outside fenced code blocks
+function findHeadings(markdown: string): Heading[] {
+  const headings: Heading[] = [];
+  const linePattern = /[^\n]*(\n|$)/g;
+  let inFence = false;
+  let match: RegExpExecArray | null;
+
+  while ((match = linePattern.exec(markdown)) !== null && match[0].length > 0) {
+    const line = match[0];
+    const start = match.index;
+
+    if (/^\s{0,3}(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      const heading = /^ {0,3}(#{1,6})[ \t]+(.*?)[ \t#]*\r?\n?$/.exec(line);
+      if (heading) {
+        headings.push({
+          level: heading[1].length,
+          text: heading[2],
+          start,
+          lineEnd: start + line.length,
+        });
+      }
+    }
+  }
+
+  return headings;
+}
+
+/**
+ * Locate each outline section in the draft. Sections whose heading can't be
+ * found are left out of the result.
+ */
+export function parseDraftSections(markdown: string, outline: any[]): DraftSection[] {
+  const headings = findHeadings(markdown);
+  if (headings.length === 0 || !Array.isArray(outline) || outline.length === 0) {
+    return [];
+  }
+
+  // Sections use whichever heading level matches the most outline titles
+  const levelVotes = new Map<number, number>();
+  for (const heading of headings) {
+    if (outline.some((section) => titlesMatch(heading.text, section.title || ""))) {
+      levelVotes.set(heading.level, (levelVotes.get(heading.level) || 0) + 1);
+    }
+  }
+  const sectionLevel = levelVotes.size > 0
+    ? Array.from(levelVotes.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0])[0][0]
+    : 2;
+
+  // Headings at or above the section level bound a section
+  const boundaries = headings.filter((heading) => heading.level <= sectionLevel);
+  const candidates = headings.filter((heading) => heading.level === sectionLevel);
+
+  const sections: DraftSection[] = [];
+  let searchFrom = 0;
+
+  for (const section of outline) {
+    const index = candidates.findIndex(
+      (heading, i) => i >= searchFrom && titlesMatch(heading.text, section.title || "")
+    );
+    if (index === -1) continue;
+
+    const heading = candidates[index];
+    const next = boundaries.find((boundary) => boundary.start > heading.start);
+
+    sections.push({
+      sectionNumber: section.sectionNumber,
+      title: section.title,
+      heading: markdown.slice(heading.start, heading.lineEnd),
+      start: heading.start,
+      end: next ? next.start : markdown.length,
+      bodyStart: heading.lineEnd,
+    });
+    searchFrom = index + 1;
+  }
+
+  return sections;
+}
+
+/**
+ * Replace a section's body, keeping its heading line and the original trailing
+ * whitespace so the text around it is untouched.
+ */
+export function replaceSectionBody(markdown: string, section: DraftSection, body: string): string {
+  const original = markdown.slice(section.bodyStart, section.end);
+  const leading = original.match(/^\s*/)?.[0] || "";
+  const trailing = original.match(/\s*$/)?.[0] || "";
+
+  // Drop a heading the writer may have repeated at the top of the new body
+  let newBody = body.trim();
+  const firstLine = newBody.split("\n", 1)[0];
+  if (/^#{1,6}\s/.test(firstLine) && titlesMatch(firstLine, section.title)) {
+    newBody = newBody.slice(firstLine.length).trim();
+  }
+
+  return markdown.slice(0, section.bodyStart) + leading + newBody + trailing + markdown.slice(section.end);
+}
@@ -0,0 +1,337 @@
+import { db } from "@/lib/db";
+import { blogPosts, thesisOutlines, researchSources, voiceToneSelections, blogDrafts, draftRevisions } from "@/lib/db/schema";
+import { eq, and, desc, sql, SQL } from "drizzle-orm";
+import { assertTransition, BlogStatus, WorkflowTransitionError } from "./state-machine";
+import { countWords } from "@/lib/utils/word-count";
+import { callWorker } from "@/lib/utils/worker-client";
+import { activeSources, findUncitedRequiredSources } from "./research";
+
+export type DraftAuthor = typeof blogDrafts.$inferSelect["author"];
+
+// Autosaves within this window of the previous user save update that version
+// instead of adding a new one, so history isn't flooded while typing
+const USER_EDIT_COALESCE_MS = 10 * 60 * 1000;
+
+/**
+ * Draft persistence shared by the background draft job and the streaming route
+ */
+
+/**
+ * An earlier step the draft depends on hasn't been completed
+ */
+export class DraftPrerequisiteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DraftPrerequisiteError";
+  }
+}
+
+/**
+ * Load the worker request body for draft generation. Throws a
+ * DraftPrerequisiteError if the thesis or research step has not been completed.
+ */
+export async function buildDraftRequest(blogPostId: string): Promise<any> {
+  const [blogPost] = await db.select()
+    .from(blogPosts)
+    .where(eq(blogPosts.id, blogPostId))
+    .limit(1);
+
+  if (!blogPost) {
+    throw new Error("Blog post not found");
+  }
+
+  // Fail before generating if the post can't accept a new draft
+  assertTransition(blogPost.status, "editorial_pending");
+
+  const [thesisOutline] = await db.select()
+    .from(thesisOutlines)
+    .where(eq(thesisOutlines.blogPostId, blogPostId))
+    .limit(1);
+
+  if (!thesisOutline) {
+    throw new DraftPrerequisiteError("Thesis outline not found. Please complete the thesis step first.");
+  }
+
+  const [research] = await db.select()
+    .from(researchSources)
+    .where(eq(researchSources.blogPostId, blogPostId))
+    .limit(1);
+
+  if (!research) {
+    throw new DraftPrerequisiteError("Research not found. Please complete the research step first.");
+  }
+
+  const [voiceTone] = await db.select()
+    .from(voiceToneSelections)
+    .where(eq(voiceToneSelections.blogPostId, blogPostId))
+    .limit(1);
+
+  return {
+    userId: blogPost.userId,
+    blogType: blogPost.blogType,
+    thesis: thesisOutline.thesisStatement,
+    outline: thesisOutline.outline,
+    // Excluded sources never reach the writer
+    sources: activeSources((research.sources as any[]) || []),
+    voiceTone: voiceTone?.selectedOptionName || "",
+    styleGuidelines: voiceTone?.styleGuidelines || null,
+  };
+}
+
+/**
+ * Make sure every source the user marked as required is cited. If the writer
+ * skipped any, one revision pass asks it to work them in. `request` is the
+ * body from buildDraftRequest.
+ */
+export async function citeRequiredSources(
+  request: any,
+  content: string
+): Promise<{ content: string; wordCount: number; uncited: any[] }> {
+  const missing = findUncitedRequiredSources(content, request.sources);
+
+  if (missing.length === 0) {
+    return { content, wordCount: countWords(content), uncited: [] };
+  }
+
+  console.log(`[Draft] Revising to cite ${missing.length} required source(s)`);
+  const result = await callWorker("/draft/revise", {
+    userId: request.userId,
+    draft: content,
+    feedback: "Cite each of these required sources at least once, with a markdown link to its URL, "
+      + "where it best supports the argument:\n"
+      + missing.map((source: any) => `- ${source.title || source.url} (${source.url})`).join("\n"),
+    sectionNotes: [],
+    outline: request.outline,
+    sources: request.sources,
+    voiceTone: request.voiceTone,
+    styleGuidelines: request.styleGuidelines,
+  });
+
+  return {
+    content: result.content,
+    wordCount: result.wordCount ?? countWords(result.content),
+    uncited: findUncitedRequiredSources(result.content, request.sources),
+  };
+}
+
+// Attempts at claiming the next version number when another save takes it first
+const MAX_VERSION_ATTEMPTS = 3;
+
+// Postgres unique_violation, raised when two saves pick the same version number
+function isVersionConflict(error: any): boolean {
+  return error?.code === "23505";
+}
+
+/**
+ * Check that the post may move to editorial and return its current status
+ */
+async function assertCanSaveDraft(blogPostId: string): Promise<BlogStatus> {
+  const [blogPost] = await db.select({ status: blogPosts.status })
+    .from(blogPosts)
+    .where(eq(blogPosts.id, blogPostId))
+    .limit(1);
+
+  if (!blogPost) {
+    throw new Error("Blog post not found");
+  }
+
+  // Also rejects saving a draft before the post has reached the draft step
+  assertTransition(blogPost.status, "editorial_pending");
+  return blogPost.status;
+}
+
+/**
+ * Run a draft write as a single statement together with moving the post from
+ * `from` to editorial, so one never lands without the other. `write` reads the
+ * updated post from the `post` CTE and returns the draft's version; it writes
+ * nothing if the post left `from` in the meantime.
+ */
+async function writeDraftWithTransition(blogPostId: string, from: BlogStatus, write: SQL): Promise<number> {
+  const result = await db.execute<{ version: number }>(sql`
+    WITH post AS (
+      UPDATE blog_posts
+      SET status = 'editorial_pending', updated_at = now()
+      WHERE id = ${blogPostId} AND status = ${from}
+      RETURNING id
+    )
+    ${write}
+  `);
+
+  const [row] = result.rows;
+  if (!row) {
+    throw new WorkflowTransitionError(
+      "ILLEGAL_TRANSITION",
+      `Blog post status changed while moving from ${from} to editorial_pending`,
+      from,
+      "editorial_pending"
+    );
+  }
+
+  return row.version;
+}
+
+/**
+ * Store content as the next draft version and advance the post to editorial.
+ * Returns the new version number. With `basedOn`, the content is an edit of
+ * that version and is refused if any other version was saved after it.
+ */
+export async function saveDraftVersion(
+  blogPostId: string,
+  content: string,
+  wordCount: number,
+  author: DraftAuthor = "agent",
+  basedOn?: number
+): Promise<number> {
+  const from = await assertCanSaveDraft(blogPostId);
+
+  // Claiming exactly the version after `basedOn` lets the unique version
+  // number reject the save when that version is already taken
+  const version = basedOn === undefined
+    ? sql`COALESCE((SELECT MAX(version) FROM blog_drafts WHERE blog_post_id = post.id), 0) + 1`
+    : sql`${basedOn + 1}::integer`;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await writeDraftWithTransition(blogPostId, from, sql`
+        INSERT INTO blog_drafts (blog_post_id, content, word_count, version, author)
+        SELECT post.id, ${content}, ${wordCount}::integer, ${version}, ${author}::draft_author
+        FROM post
+        RETURNING version
+      `);
+    } catch (error) {
+      // Another save took this version number; the whole statement rolled back
+      if (!isVersionConflict(error)) throw error;
+      if (basedOn !== undefined) {
+        throw new Error(`The draft changed after version ${basedOn}; please try again on the latest version`);
+      }
+      if (attempt >= MAX_VERSION_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * Save a manual edit from the draft page. Returns the version that holds the edit.
+ */
+export async function saveUserEdit(
+  blogPostId: string,
+  content: string
+): Promise<{ version: number; wordCount: number }> {
+  const from = await assertCanSaveDraft(blogPostId);
+  const wordCount = countWords(content);
+
+  const [latest] = await db.select()
+    .from(blogDrafts)
+    .where(eq(blogDrafts.blogPostId, blogPostId))
+    .orderBy(desc(blogDrafts.version))
+    .limit(1);
+
+  if (latest?.content === content) {
+    return { version: latest.version, wordCount: latest.wordCount };
+  }
+
+  if (
+    latest?.author === "user" &&
+    latest.updatedAt.getTime() > Date.now() - USER_EDIT_COALESCE_MS
+  ) {
+    // Editing a post that already went through editorial sends it back.
+    // The old voice score no longer describes this content.
+    const version = await writeDraftWithTransition(blogPostId, from, sql`
+      UPDATE blog_drafts
+      SET content = ${content}, word_count = ${wordCount}, voice_score = NULL, updated_at = now()
+      FROM post
+      WHERE blog_drafts.id = ${latest.id}
+      RETURNING blog_drafts.version
+    `);
+
+    return { version, wordCount };
+  }
+
+  const version = await saveDraftVersion(blogPostId, content, wordCount, "user");
+  return { version, wordCount };
+}
+
+/**
+ * List every draft version for a post, newest first, without the content.
+ * Versions produced by a revision request carry the feedback that caused them.
+ */
+export async function listDraftVersions(blogPostId: string) {
+  const drafts = await db.select({
+    version: blogDrafts.version,
+    wordCount: blogDrafts.wordCount,
+    author: blogDrafts.author,
+    voiceScore: blogDrafts.voiceScore,
+    createdAt: blogDrafts.createdAt,
+    updatedAt: blogDrafts.updatedAt,
+  })
+    .from(blogDrafts)
+    .where(eq(blogDrafts.blogPostId, blogPostId))
+    .orderBy(desc(blogDrafts.version));
+
+  const revisions = await db.select()
+    .from(draftRevisions)
+    .where(eq(draftRevisions.blogPostId, blogPostId));
+
+  return drafts.map((draft) => {
+    const revision = revisions.find((r) => r.toVersion === draft.version);
+    return {
+      ...draft,
+      voiceScore: (draft.voiceScore as any)?.overall ?? null,
+      revision: revision
+        ? {
+          fromVersion: revision.fromVersion,
+          feedback: revision.feedback,
+          sectionNotes: revision.sectionNotes,
+        }
+        : null,
+    };
+  });
+}
+
+// Largest value of the integer version column
+const MAX_DRAFT_VERSION = 2 ** 31 - 1;
+
+/**
+ * Parse a draft version from a route parameter. Returns null unless it is a
+ * positive integer the version column can hold.
+ */
+export function parseDraftVersion(value: string): number | null {
+  const version = Number(value);
+  return /^\d+$/.test(value) && version > 0 && version <= MAX_DRAFT_VERSION ? version : null;
+}
+
+export async function getDraftVersion(blogPostId: string, version: number) {
+  const [draft] = await db.select()
+    .from(blogDrafts)
+    .where(and(
+      eq(blogDrafts.blogPostId, blogPostId),
+      eq(blogDrafts.version, version)
+    ))
+    .limit(1);
+
+  return draft || null;
+}
+
+/**
+ * Score a draft version against a voice and store the result on the version.
+ * `voice` is the selected voice/tone or a voice profile option.
+ */
+export async function scoreDraftVoice(
+  draft: typeof blogDrafts.$inferSelect,
+  userId: string,
+  voice: { name: string; styleGuidelines: any }
+) {
+  const result = await callWorker("/voice-tone/score", {
+    userId,
+    content: draft.content,
+    voiceTone: voice.name,
+    styleGuidelines: voice.styleGuidelines,
+  });
+
+  const voiceScore = { ...result, voiceName: voice.name };
+
+  await db.update(blogDrafts)
+    .set({ voiceScore })
+    .where(eq(blogDrafts.id, draft.id));
+
+  return voiceScore;
+}
@@ -0,0 +1,278 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkRehype from "remark-rehype";
+import rehypeStringify from "rehype-stringify";
+import { strToU8, zipSync, Zippable } from "fflate";
+import { finalPosts } from "@/lib/db/schema";
+import type { BlogPost } from "@/lib/auth/ownership";
+import { CitationStyle, formatCitations } from "@/lib/utils/citation-format";
+import { countWords } from "@/lib/utils/word-count";
+import { buildFrontMatter, FrontMatterProfile } from "@/lib/utils/front-matter";
+
+/**
+ * Builders for the files offered by /api/workflow/[blogPostId]/export and the
+ * bulk /api/posts/export archive
+ */
+
+export type FinalPost = typeof finalPosts.$inferSelect;
+
+export const EXPORT_FORMATS = ["markdown", "html"] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export function isExportFormat(value: any): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value);
+}
+
+/**
+ * File name (without extension) from the post's title, idea, or a default
+ */
+export function exportBasename(blogPost: BlogPost): string {
+  let filename = "blog-post";
+  if (blogPost.title) {
+    filename = blogPost.title.toLowerCase().replace(/\s+/g, "-").replace(/[^a-z0-9-]/g, "");
+  } else if (blogPost.idea) {
+    // Use first 50 chars of idea for filename
+    filename = blogPost.idea.substring(0, 50).toLowerCase().replace(/\s+/g, "-").replace(/[^a-z0-9-]/g, "");
+  }
+  return filename || "blog-post";
+}
+
+export interface MarkdownExportOptions {
+  profile: FrontMatterProfile;
+  tags?: string[];
+  canonicalUrl?: string | null;
+  draft?: boolean;
+  includeSocialPosts?: boolean;
+}
+
+/**
+ * Markdown export with front matter for the chosen site generator. The generic
+ * profile repeats the title as an H1; generator layouts render it from the
+ * front matter instead.
+ */
+export function buildMarkdownExport(
+  blogPost: BlogPost,
+  finalPost: FinalPost,
+  citationStyle: CitationStyle,
+  options: MarkdownExportOptions = { profile: "default" }
+): string {
+  const seoMetadata = finalPost.seoMetadata as any;
+  const socialPosts = finalPost.socialPosts as any;
+  const citations = finalPost.citations as any[];
+  const title = seoMetadata.title || blogPost.title || "";
+
+  let markdown = buildFrontMatter(options.profile, {
+    title,
+    description: seoMetadata.metaDescription || "",
+    date: finalPost.createdAt,
+    slug: exportBasename(blogPost),
+    tags: options.tags || [],
+    blogType: blogPost.blogType,
+    canonicalUrl: options.canonicalUrl,
+    draft: options.draft ?? false,
+  });
+  markdown += `\n`;
+  if (options.profile === "default") {
+    markdown += `# ${title.replace(/\s+/g, " ")}\n\n`;
+  }
+  markdown += `${formatCitations(finalPost.content, citations || [], citationStyle)}\n`;
+
+  if (options.includeSocialPosts ?? true) {
+    markdown += `\n---\n\n## Social Posts\n\n`;
+    markdown += `### Twitter/X\n`;
+    markdown += `${socialPosts.twitter}\n\n`;
+    markdown += `### LinkedIn\n`;
+    markdown += `${socialPosts.linkedin}\n`;
+  }
+
+  return markdown;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Render markdown with the same GFM features MarkdownViewer uses (tables,
+ * footnotes, task lists, strikethrough). Raw HTML in the markdown is dropped.
+ */
+export function renderMarkdownToHtml(markdown: string): string {
+  return String(
+    unified()
+      .use(remarkParse)
+      .use(remarkGfm)
+      .use(remarkRehype)
+      .use(rehypeStringify)
+      .processSync(markdown)
+  );
+}
+
+// schema.org BlogPosting; "<" is escaped so the content can't close the script tag
+function buildJsonLd(finalPost: FinalPost, content: string): string {
+  const seoMetadata = finalPost.seoMetadata as any;
+  const citations = (finalPost.citations as any[]) || [];
+
+  const data = {
+    "@context": "https://schema.org",
+    "@type": "BlogPosting",
+    headline: seoMetadata.title,
+    description: seoMetadata.metaDescription,
+    datePublished: finalPost.createdAt.toISOString(),
+    dateModified: finalPost.updatedAt.toISOString(),
+    wordCount: countWords(content),
+    ...(citations.length > 0
+      ? {
+          citation: citations.map((citation) => ({
+            "@type": "CreativeWork",
+            name: citation.title || citation.url,
+            url: citation.url,
+          })),
+        }
+      : {}),
+  };
+
+  return JSON.stringify(data, null, 2).replace(/</g, "\\u003c");
+}
+
+/**
+ * HTML export. A fragment is just the <article> for pasting into a CMS; the
+ * standalone document adds <head> with the title, meta description, Open Graph
+ * and Twitter card tags, and JSON-LD structured data.
+ */
+export function buildHtmlExport(
+  finalPost: FinalPost,
+  citationStyle: CitationStyle,
+  options: { fragment?: boolean } = {}
+): string {
+  const seoMetadata = finalPost.seoMetadata as any;
+  const title = escapeHtml(seoMetadata.title || "");
+  const description = escapeHtml(seoMetadata.metaDescription || "");
+  const content = formatCitations(finalPost.content, (finalPost.citations as any[]) || [], citationStyle);
+
+  const article = [
+    `<article>`,
+    `<header>`,
+    `<h1>${title}</h1>`,
+    `</header>`,
+    renderMarkdownToHtml(content),
+    `</article>`,
+  ].join("\n");
+
+  if (options.fragment) {
+    return `${article}\n`;
+  }
+
+  return [
+    `<!DOCTYPE html>`,
+    `<html lang="en">`,
+    `<head>`,
+    `<meta charset="utf-8">`,
+    `<meta name="viewport" content="width=device-width, initial-scale=1">`,
+    `<title>${title}</title>`,
+    `<meta name="description" content="${description}">`,
+    `<meta property="og:type" content="article">`,
+    `<meta property="og:title" content="${title}">`,
+    `<meta property="og:description" content="${description}">`,
+    `<meta property="article:published_time" content="${finalPost.createdAt.toISOString()}">`,
+    `<meta property="article:modified_time" content="${finalPost.updatedAt.toISOString()}">`,
+    `<meta name="twitter:card" content="summary">`,
+    `<meta name="twitter:title" content="${title}">`,
+    `<meta name="twitter:description" content="${description}">`,
+    `<script type="application/ld+json">`,
+    buildJsonLd(finalPost, content),
+    `</script>`,
+    `</head>`,
+    `<body>`,
+    `<main>`,
+    article,
+    `</main>`,
+    `</body>`,
+    `</html>`,
+    ``,
+  ].join("\n");
+}
+
+export interface ArchivePost {
+  blogPost: BlogPost;
+  finalPost: FinalPost;
+  sources: any[];
+}
+
+export interface ArchiveOptions {
+  format: ExportFormat;
+  citationStyle: CitationStyle;
+  profile: FrontMatterProfile;
+}
+
+function json(value: any): Uint8Array {
+  return strToU8(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+/**
+ * Zip archive with one folder per post:
+ *   <slug>/post.md|post.html, <slug>/sources.json, <slug>/social/twitter.txt, <slug>/social/linkedin.txt
+ * and a manifest.json listing every post and its files.
+ */
+export function buildPostsArchive(posts: ArchivePost[], options: ArchiveOptions, exportedAt = new Date()): Uint8Array {
+  const files: Zippable = {};
+  const folders = new Set<string>();
+  const manifestPosts: any[] = [];
+
+  for (const { blogPost, finalPost, sources } of posts) {
+    // Posts with the same title still get their own folder
+    const basename = exportBasename(blogPost);
+    let folder = basename;
+    for (let n = 2; folders.has(folder); n++) {
+      folder = `${basename}-${n}`;
+    }
+    folders.add(folder);
+
+    const socialPosts = (finalPost.socialPosts as any) || {};
+    const postFile = options.format === "html" ? "post.html" : "post.md";
+    const postFiles: Record<string, Uint8Array> = {
+      [postFile]: strToU8(
+        options.format === "html"
+          ? buildHtmlExport(finalPost, options.citationStyle)
+          : buildMarkdownExport(blogPost, finalPost, options.citationStyle, {
+              profile: options.profile,
+              includeSocialPosts: false,
+            })
+      ),
+      "sources.json": json(sources),
+      "social/twitter.txt": strToU8(`${socialPosts.twitter || ""}\n`),
+      "social/linkedin.txt": strToU8(`${socialPosts.linkedin || ""}\n`),
+    };
+
+    for (const [name, data] of Object.entries(postFiles)) {
+      files[`${folder}/${name}`] = data;
+    }
+
+    manifestPosts.push({
+      id: blogPost.id,
+      title: (finalPost.seoMetadata as any)?.title || blogPost.title || "",
+      blogType: blogPost.blogType,
+      createdAt: blogPost.createdAt.toISOString(),
+      updatedAt: finalPost.updatedAt.toISOString(),
+      wordCount: countWords(finalPost.content),
+      folder,
+      files: Object.keys(postFiles).map((name) => `${folder}/${name}`),
+    });
+  }
+
+  files["manifest.json"] = json({
+    exportedAt: exportedAt.toISOString(),
+    format: options.format,
+    citationStyle: options.citationStyle,
+    profile: options.format === "markdown" ? options.profile : null,
+    posts: manifestPosts,
+  });
+
+  return zipSync(files);
+}
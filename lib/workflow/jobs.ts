@@ -0,0 +1,222 @@
+import { db } from "@/lib/db";
+import { jobs } from "@/lib/db/schema";
+import { eq, and, or, lt, desc, inArray, sql } from "drizzle-orm";
+import { flushOpikTraces } from "@/lib/utils/opik";
+import { isUuid } from "@/lib/utils/uuid";
+import { runResearchStep, runDraftStep, runRevisionStep, runSectionStep, runEditorialStep } from "./steps";
+import { WorkflowTransitionError } from "./state-machine";
+
+export type Job = typeof jobs.$inferSelect;
+export type JobType = Job["type"];
+
+// A running job whose lease has expired is assumed to have been lost with a
+// recycled function instance and may be claimed again.
+const JOB_LEASE_MS = 5 * 60 * 1000;
+
+// Error recorded on jobs replaced by a newer job for changed input
+const SUPERSEDED_ERROR = "Superseded by a newer job";
+
+const JOB_HANDLERS: Record<JobType, (job: Job) => Promise<any>> = {
+  research: (job) => runResearchStep(job.blogPostId, (job.payload as any) || {}, job.id),
+  draft: (job) => runDraftStep(job.blogPostId, job.id),
+  revision: (job) => runRevisionStep(job.blogPostId, job.payload as any, job.id),
+  section: (job) => runSectionStep(job.blogPostId, job.payload as any, job.id),
+  editorial: (job) => runEditorialStep(job.blogPostId),
+};
+
+function isLeaseExpired(job: Job): boolean {
+  return job.status === "running"
+    && (!job.startedAt || job.startedAt.getTime() < Date.now() - JOB_LEASE_MS);
+}
+
+export function isJobActive(job: Job): boolean {
+  return job.status === "queued" || (job.status === "running" && !isLeaseExpired(job));
+}
+
+export async function getJob(jobId: string): Promise<Job | null> {
+  if (!isUuid(jobId)) return null;
+
+  const [job] = await db.select()
+    .from(jobs)
+    .where(eq(jobs.id, jobId))
+    .limit(1);
+
+  return job || null;
+}
+
+/**
+ * Get the most recent job of each type for a blog post
+ */
+export async function getLatestJobs(blogPostId: string): Promise<Partial<Record<JobType, Job>>> {
+  const rows = await db.select()
+    .from(jobs)
+    .where(eq(jobs.blogPostId, blogPostId))
+    .orderBy(desc(jobs.createdAt));
+
+  const latest: Partial<Record<JobType, Job>> = {};
+  for (const job of rows) {
+    if (!latest[job.type]) {
+      latest[job.type] = job;
+    }
+  }
+  return latest;
+}
+
+function samePayload(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Fail every queued or running job of a type for a post, for when the input
+ * behind them changed. Their runners see the status change and discard their results.
+ */
+export async function supersedeJobs(blogPostId: string, type: JobType): Promise<void> {
+  await db.update(jobs)
+    .set({
+      status: "failed",
+      error: SUPERSEDED_ERROR,
+      completedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(jobs.blogPostId, blogPostId),
+      eq(jobs.type, type),
+      inArray(jobs.status, ["queued", "running"])
+    ));
+}
+
+/**
+ * Queue a job for a blog post step. If an identical job (same type and
+ * payload) is already queued or running for the post, that job is returned
+ * instead; a job with a different payload is queued alongside it.
+ */
+export async function enqueueJob(blogPostId: string, type: JobType, payload?: any): Promise<Job> {
+  const active = await db.select()
+    .from(jobs)
+    .where(and(
+      eq(jobs.blogPostId, blogPostId),
+      eq(jobs.type, type),
+      inArray(jobs.status, ["queued", "running"])
+    ))
+    .orderBy(desc(jobs.createdAt));
+
+  const duplicate = active.find((job) => isJobActive(job) && samePayload(job.payload, payload));
+  if (duplicate) {
+    return duplicate;
+  }
+
+  const [job] = await db.insert(jobs).values({
+    blogPostId,
+    type,
+    payload: payload ?? null,
+  }).returning();
+
+  return job;
+}
+
+/**
+ * Atomically take ownership of a job. Only queued jobs and running jobs whose
+ * lease has expired can be claimed, so concurrent runners never double-execute.
+ */
+async function claimJob(jobId: string): Promise<Job | null> {
+  const now = new Date();
+  const leaseExpiredBefore = new Date(now.getTime() - JOB_LEASE_MS);
+
+  const [job] = await db.update(jobs)
+    .set({
+      status: "running",
+      attempts: sql`${jobs.attempts} + 1`,
+      startedAt: now,
+      updatedAt: now,
+    })
+    .where(and(
+      eq(jobs.id, jobId),
+      or(
+        eq(jobs.status, "queued"),
+        and(eq(jobs.status, "running"), lt(jobs.startedAt, leaseExpiredBefore))
+      )
+    ))
+    .returning();
+
+  return job || null;
+}
+
+/**
+ * Claim and execute a job, retrying failed attempts until maxAttempts is reached.
+ * Returns null if the job could not be claimed (e.g. another runner owns it).
+ */
+export async function runJob(jobId: string): Promise<Job | null> {
+  let job = await claimJob(jobId);
+
+  try {
+    while (job) {
+      console.log(`[Jobs] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+      try {
+        const result = await JOB_HANDLERS[job.type](job);
+
+        // Only a job that is still ours may record a result; a superseded one keeps its status
+        const [succeeded] = await db.update(jobs)
+          .set({
+            status: "succeeded",
+            result: result ?? null,
+            error: null,
+            completedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(and(eq(jobs.id, job.id), eq(jobs.status, "running")))
+          .returning();
+
+        return succeeded || await getJob(job.id);
+      } catch (error: any) {
+        const message = error?.message || "Unknown error";
+        // Retrying can't fix an illegal status change, so fail straight away
+        const exhausted = job.attempts >= job.maxAttempts || error instanceof WorkflowTransitionError;
+        console.error(`[Jobs] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, message);
+
+        const [updated] = await db.update(jobs)
+          .set({
+            status: exhausted ? "failed" : "queued",
+            error: message,
+            completedAt: exhausted ? new Date() : null,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(jobs.id, job.id), eq(jobs.status, "running")))
+          .returning();
+
+        if (!updated) {
+          // Superseded while running
+          return getJob(job.id);
+        }
+        if (exhausted) {
+          return updated;
+        }
+
+        job = await claimJob(jobId);
+      }
+    }
+
+    return null;
+  } finally {
+    await flushOpikTraces();
+  }
+}
+
+/**
+ * Fire-and-forget: run a job without blocking the caller. If the process is
+ * recycled mid-run, the job is picked up again by resumeJob once its lease expires.
+ */
+export function startJob(jobId: string): void {
+  runJob(jobId).catch(err => {
+    console.error(`[Jobs] Runner error for job ${jobId} (non-blocking):`, err);
+  });
+}
+
+/**
+ * Restart a job that is waiting to run or whose runner disappeared.
+ */
+export function resumeJob(job: Job): void {
+  if (job.status === "queued" || isLeaseExpired(job)) {
+    startJob(job.id);
+  }
+}
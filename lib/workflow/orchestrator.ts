@@ -9,6 +9,11 @@ import { AgentConfig } from "@/lib/agents/base";
 import { decrypt } from "@/lib/utils/encryption";
 import { countWords } from "@/lib/utils/word-count";
 import { getVoiceToneOptionsForBlogType } from "@/lib/data/voice-tone-presets";
+import { getLatestJobs } from "@/lib/workflow/jobs";
+import { saveDraftVersion } from "@/lib/workflow/drafts";
+import { updateResearchSources } from "@/lib/workflow/research-store";
+import { transitionStatus } from "@/lib/workflow/state-machine";
+import { computeStaleness } from "@/lib/workflow/dependencies";
 
 export class WorkflowOrchestrator {
   private blogPostId: string;
@@ -122,7 +127,15 @@ export class WorkflowOrchestrator {
       .where(eq(voiceToneSelections.blogPostId, this.blogPostId))
       .limit(1);
 
-    if (existing) {
+    // Re-selecting the same option must not bump updatedAt, or everything
+    // downstream would be reported as stale
+    const changed = existing && (
+      existing.selectedOptionId !== optionId ||
+      existing.selectedOptionName !== optionName ||
+      JSON.stringify(existing.styleGuidelines ?? null) !== JSON.stringify(styleGuidelines ?? null)
+    );
+
+    if (changed) {
       await db.update(voiceToneSelections)
         .set({
           selectedOptionId: optionId,
@@ -131,7 +144,7 @@ export class WorkflowOrchestrator {
           updatedAt: new Date(),
         })
         .where(eq(voiceToneSelections.blogPostId, this.blogPostId));
-    } else {
+    } else if (!existing) {
       await db.insert(voiceToneSelections).values({
         blogPostId: this.blogPostId,
         selectedOptionId: optionId,
@@ -140,9 +153,7 @@ export class WorkflowOrchestrator {
       });
     }
 
-    await db.update(blogPosts)
-      .set({ status: "thesis_pending", updatedAt: new Date() })
-      .where(eq(blogPosts.id, this.blogPostId));
+    await transitionStatus(this.blogPostId, "thesis_pending");
   }
 
   async generateThesisOptions(idea: string, blogType: string, voiceTone: string): Promise<any> {
@@ -201,9 +212,7 @@ export class WorkflowOrchestrator {
       });
     }
 
-    await db.update(blogPosts)
-      .set({ status: "research_pending", updatedAt: new Date() })
-      .where(eq(blogPosts.id, this.blogPostId));
+    await transitionStatus(this.blogPostId, "research_pending");
     
     return result;
   }
@@ -282,32 +291,11 @@ export class WorkflowOrchestrator {
       const sources = Array.isArray(result.sources) ? result.sources : [];
       const sectionMapping = result.sectionMapping || {};
 
-      const [existingResearch] = await db.select()
-        .from(researchSources)
-        .where(eq(researchSources.blogPostId, this.blogPostId))
-        .limit(1);
-
-      if (existingResearch) {
-        await db.update(researchSources)
-          .set({
-            sources: sources as any,
-            sectionMapping: sectionMapping as any,
-            updatedAt: new Date(),
-          })
-          .where(eq(researchSources.blogPostId, this.blogPostId));
-      } else {
-        await db.insert(researchSources).values({
-          blogPostId: this.blogPostId,
-          sources: sources as any,
-          sectionMapping: sectionMapping as any,
-        });
-      }
+      await updateResearchSources(this.blogPostId, () => ({ sources, sectionMapping }));
 
       console.log(`[Research] Saving ${sources.length} sources to database`);
       
-      await db.update(blogPosts)
-        .set({ status: "draft_pending", updatedAt: new Date() })
-        .where(eq(blogPosts.id, this.blogPostId));
+      await transitionStatus(this.blogPostId, "draft_pending");
       
       console.log(`[Research] Research completed successfully`);
       
@@ -393,28 +381,7 @@ export class WorkflowOrchestrator {
 
     const wordCount = countWords(content);
 
-    // Get the latest version to create a new one
-    const existingDrafts = await db.select()
-      .from(blogDrafts)
-      .where(eq(blogDrafts.blogPostId, this.blogPostId))
-      .orderBy(desc(blogDrafts.version))
-      .limit(1);
-
-    const latestVersion = existingDrafts.length > 0 && existingDrafts[0].version
-      ? existingDrafts[0].version
-      : 0;
-
-    // Always create a new version instead of updating
-    await db.insert(blogDrafts).values({
-      blogPostId: this.blogPostId,
-      content,
-      wordCount,
-      version: latestVersion + 1,
-    });
-
-    await db.update(blogPosts)
-      .set({ status: "editorial_pending", updatedAt: new Date() })
-      .where(eq(blogPosts.id, this.blogPostId));
+    await saveDraftVersion(this.blogPostId, content, wordCount);
     
     return content;
   }
@@ -479,9 +446,7 @@ export class WorkflowOrchestrator {
       });
     }
 
-    await db.update(blogPosts)
-      .set({ status: "completed", updatedAt: new Date() })
-      .where(eq(blogPosts.id, this.blogPostId));
+    await transitionStatus(this.blogPostId, "completed");
     
     return result;
   }
@@ -525,6 +490,16 @@ export class WorkflowOrchestrator {
       .where(eq(finalPosts.blogPostId, this.blogPostId))
       .limit(1);
 
+    const jobs = await getLatestJobs(this.blogPostId);
+
+    const staleness = computeStaleness({
+      voiceTone: voiceTone?.updatedAt,
+      thesis: thesisOutline?.updatedAt,
+      research: research?.updatedAt,
+      draft: draft?.updatedAt,
+      editorial: finalPost?.updatedAt,
+    });
+
     return {
       ...blogPost,
       voiceToneSelection: voiceTone || null,
@@ -532,6 +507,8 @@ export class WorkflowOrchestrator {
       researchSources: research || null,
       draft: draft || null,
       finalPost: finalPost || null,
+      jobs,
+      staleness,
     };
   }
 }
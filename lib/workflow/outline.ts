@@ -0,0 +1,204 @@
+/**
+ * Structural edits to a thesis outline, and keeping evidenceExpectations in
+ * step with the section numbers afterwards.
+ * Pure functions only - safe to use in client components.
+ */
+
+export const EVIDENCE_TYPES = ["research", "examples", "expert_quotes", "data_points", "analogies"] as const;
+
+export const MAX_OUTLINE_SECTIONS = 20;
+
+export interface OutlineSection {
+  sectionNumber: number;
+  title: string;
+  purpose: string;
+  evidenceType: string;
+  evidenceGuidance?: string;
+}
+
+/**
+ * A section being edited. `origins` are the saved section numbers its content
+ * came from: one for an untouched, moved or split section, several for a
+ * merge, none for a new section.
+ */
+export interface EditableOutlineSection extends OutlineSection {
+  origins: number[];
+}
+
+export interface EvidenceExpectation {
+  sectionNumber: number;
+  evidenceType: string;
+  searchQueries: string[];
+  sourceTypes: string[];
+  keyDataPoints: string[];
+  description: string;
+}
+
+const unique = (values: string[]) => Array.from(new Set(values.filter(Boolean)));
+
+function renumber<T extends OutlineSection>(sections: T[]): T[] {
+  return sections.map((section, index) => ({ ...section, sectionNumber: index + 1 }));
+}
+
+export function toEditableOutline(outline: OutlineSection[]): EditableOutlineSection[] {
+  return outline.map((section) => ({ ...section, origins: [section.sectionNumber] }));
+}
+
+export function addSection(sections: EditableOutlineSection[], afterIndex: number): EditableOutlineSection[] {
+  const section: EditableOutlineSection = {
+    sectionNumber: 0,
+    title: "New section",
+    purpose: "",
+    evidenceType: "examples",
+    evidenceGuidance: "",
+    origins: [],
+  };
+  return renumber([...sections.slice(0, afterIndex + 1), section, ...sections.slice(afterIndex + 1)]);
+}
+
+export function deleteSection(sections: EditableOutlineSection[], index: number): EditableOutlineSection[] {
+  return renumber(sections.filter((_, i) => i !== index));
+}
+
+export function moveSection(sections: EditableOutlineSection[], index: number, offset: -1 | 1): EditableOutlineSection[] {
+  const target = index + offset;
+  if (target < 0 || target >= sections.length) return sections;
+
+  const moved = [...sections];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return renumber(moved);
+}
+
+/**
+ * Merge a section into the one after it. Text fields are joined so nothing
+ * the author wrote is lost; the first section's evidence type wins.
+ */
+export function mergeWithNext(sections: EditableOutlineSection[], index: number): EditableOutlineSection[] {
+  if (index < 0 || index >= sections.length - 1) return sections;
+
+  const [first, second] = [sections[index], sections[index + 1]];
+  const join = (a?: string, b?: string) => [a, b].map((text) => text?.trim()).filter(Boolean).join(" ");
+  const merged: EditableOutlineSection = {
+    sectionNumber: first.sectionNumber,
+    title: `${first.title} & ${second.title}`,
+    purpose: join(first.purpose, second.purpose),
+    evidenceType: first.evidenceType,
+    evidenceGuidance: join(first.evidenceGuidance, second.evidenceGuidance),
+    origins: Array.from(new Set([...first.origins, ...second.origins])),
+  };
+
+  return renumber([...sections.slice(0, index), merged, ...sections.slice(index + 2)]);
+}
+
+/**
+ * Split a section in two. Both halves keep its origins, so each starts with
+ * the original evidence expectations.
+ */
+export function splitSection(sections: EditableOutlineSection[], index: number): EditableOutlineSection[] {
+  const section = sections[index];
+  if (!section) return sections;
+
+  return renumber([
+    ...sections.slice(0, index),
+    { ...section, title: `${section.title} (part 1)` },
+    { ...section, title: `${section.title} (part 2)` },
+    ...sections.slice(index + 1),
+  ]);
+}
+
+/**
+ * Validate an outline sent by the client and renumber it from 1. Sections
+ * without `origins` are taken to be unchanged saved sections.
+ */
+export function parseEditedOutline(value: any): { value: EditableOutlineSection[] } | { error: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: "outline must be a non-empty array of sections" };
+  }
+  if (value.length > MAX_OUTLINE_SECTIONS) {
+    return { error: `An outline can have at most ${MAX_OUTLINE_SECTIONS} sections` };
+  }
+
+  const text = (field: any) => (typeof field === "string" ? field.trim() : "");
+  const sections: EditableOutlineSection[] = [];
+
+  for (const section of value) {
+    const title = text(section?.title);
+    if (!title) {
+      return { error: "Every outline section needs a title" };
+    }
+
+    const origins = Array.isArray(section.origins)
+      ? section.origins.filter((origin: any) => Number.isInteger(origin))
+      : Number.isInteger(section.sectionNumber) ? [section.sectionNumber] : [];
+
+    sections.push({
+      sectionNumber: 0,
+      title,
+      purpose: text(section.purpose),
+      evidenceType: text(section.evidenceType) || "examples",
+      evidenceGuidance: text(section.evidenceGuidance),
+      origins,
+    });
+  }
+
+  return { value: renumber(sections) };
+}
+
+/**
+ * The outline as stored, without edit bookkeeping
+ */
+export function toStoredOutline(sections: EditableOutlineSection[]): OutlineSection[] {
+  return sections.map(({ origins, ...section }) => section);
+}
+
+/**
+ * Compare outlines field by field, treating a missing evidenceGuidance as empty,
+ * so an untouched outline never counts as edited
+ */
+export function outlinesEqual(a: OutlineSection[], b: OutlineSection[]): boolean {
+  return a.length === b.length && a.every((section, index) => {
+    const other = b[index];
+    return section.sectionNumber === other.sectionNumber
+      && section.title === other.title
+      && (section.purpose || "") === (other.purpose || "")
+      && section.evidenceType === other.evidenceType
+      && (section.evidenceGuidance || "") === (other.evidenceGuidance || "");
+  });
+}
+
+/**
+ * Rebuild evidence expectations for an edited outline: each section takes the
+ * expectations of the sections it came from, merged when there are several,
+ * under its new number and evidence type. New sections get a starting
+ * expectation from their own title and guidance.
+ */
+export function remapEvidenceExpectations(
+  expectations: EvidenceExpectation[],
+  sections: EditableOutlineSection[]
+): EvidenceExpectation[] {
+  return sections.map((section) => {
+    const sources = section.origins
+      .map((origin) => expectations.find((expectation) => expectation.sectionNumber === origin))
+      .filter((expectation): expectation is EvidenceExpectation => Boolean(expectation));
+
+    if (sources.length === 0) {
+      return {
+        sectionNumber: section.sectionNumber,
+        evidenceType: section.evidenceType,
+        searchQueries: [section.title],
+        sourceTypes: [],
+        keyDataPoints: [],
+        description: section.evidenceGuidance || section.purpose,
+      };
+    }
+
+    return {
+      sectionNumber: section.sectionNumber,
+      evidenceType: section.evidenceType,
+      searchQueries: unique(sources.flatMap((source) => source.searchQueries || [])),
+      sourceTypes: unique(sources.flatMap((source) => source.sourceTypes || [])),
+      keyDataPoints: unique(sources.flatMap((source) => source.keyDataPoints || [])),
+      description: unique(sources.map((source) => source.description)).join(" "),
+    };
+  });
+}
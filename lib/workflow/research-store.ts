@@ -0,0 +1,85 @@
+import { db } from "@/lib/db";
+import { researchSources } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+
+/**
+ * Writes to a post's stored research. Research jobs and source curation can
+ * overlap, so every write goes through updateResearchSources and is applied to
+ * the latest stored research rather than to a copy read earlier.
+ */
+
+export interface StoredResearch {
+  sources: any[];
+  sectionMapping: any;
+}
+
+// Re-reads before giving up when other writes keep landing first
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * A research update that can't be applied, with the HTTP status to report it under
+ */
+export class ResearchUpdateError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "ResearchUpdateError";
+  }
+}
+
+/**
+ * Read the post's research, apply `update` and write the result only if no
+ * other write happened in between (researchSources.version), otherwise read
+ * again and re-apply. `update` gets null when there is no research yet. It may
+ * run more than once and can throw to abort without writing.
+ */
+export async function updateResearchSources(
+  blogPostId: string,
+  update: (current: StoredResearch | null) => StoredResearch | Promise<StoredResearch>
+): Promise<StoredResearch> {
+  for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+    const [stored] = await db.select()
+      .from(researchSources)
+      .where(eq(researchSources.blogPostId, blogPostId))
+      .limit(1);
+
+    const next = await update(stored
+      ? { sources: (stored.sources as any[]) || [], sectionMapping: stored.sectionMapping || {} }
+      : null);
+
+    const written = stored
+      ? await db.update(researchSources)
+        .set({
+          sources: next.sources as any,
+          sectionMapping: next.sectionMapping as any,
+          version: stored.version + 1,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(researchSources.id, stored.id),
+          eq(researchSources.version, stored.version)
+        ))
+        .returning({ id: researchSources.id })
+      : await db.insert(researchSources)
+        .values({
+          blogPostId,
+          sources: next.sources as any,
+          sectionMapping: next.sectionMapping as any,
+        })
+        .onConflictDoNothing()
+        .returning({ id: researchSources.id });
+
+    if (written.length > 0) {
+      return next;
+    }
+  }
+
+  throw new ResearchUpdateError(
+    "RESEARCH_CONFLICT",
+    "The research sources kept changing while saving. Please try again.",
+    409
+  );
+}
@@ -0,0 +1,171 @@
+/**
+ * Helpers for working with stored research (researchSources.sources / sectionMapping)
+ */
+
+/**
+ * Sources relevant to one outline section, taken from sectionMapping
+ * ({ [sectionNumber]: sourceId[] }) or the source's own sectionMapping list.
+ * Falls back to every source when nothing is mapped to the section.
+ */
+export function getSectionSources(sources: any[], sectionMapping: any, sectionNumber: number): any[] {
+  const mappedIds: string[] = Array.isArray(sectionMapping?.[String(sectionNumber)])
+    ? sectionMapping[String(sectionNumber)]
+    : [];
+
+  const matched = sources.filter((source: any) =>
+    mappedIds.includes(source.id) ||
+    (Array.isArray(source.sectionMapping) && source.sectionMapping.includes(sectionNumber))
+  );
+
+  return matched.length > 0 ? matched : sources;
+}
+
+/**
+ * Canonical form of a source URL for de-duplication: lowercased host without
+ * "www.", no fragment, no tracking parameters, no trailing slash.
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    const params = new URLSearchParams(parsed.search);
+    Array.from(params.keys())
+      .filter((key) => key.startsWith("utm_") || key === "ref" || key === "fbclid" || key === "gclid")
+      .forEach((key) => params.delete(key));
+    params.sort();
+
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+    const path = parsed.pathname.replace(/\/+$/, "");
+    const query = params.toString();
+
+    return `${host}${path}${query ? `?${query}` : ""}`;
+  } catch {
+    return url.trim().toLowerCase().replace(/\/+$/, "");
+  }
+}
+
+/**
+ * Build the section -> source ids mapping from each source's sectionMapping list
+ */
+export function buildSectionMapping(sources: any[]): Record<string, string[]> {
+  const mapping: Record<string, string[]> = {};
+
+  for (const source of sources) {
+    for (const sectionNumber of Array.isArray(source.sectionMapping) ? source.sectionMapping : []) {
+      const key = String(sectionNumber);
+      mapping[key] = mapping[key] || [];
+      if (!mapping[key].includes(source.id)) {
+        mapping[key].push(source.id);
+      }
+    }
+  }
+
+  return mapping;
+}
+
+function nextSourceNumber(sources: any[]): number {
+  return sources.reduce((max, source) => {
+    const match = /^source-(\d+)$/.exec(source.id || "");
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0) + 1;
+}
+
+/**
+ * Id for a source appended to the list (e.g. one added by hand)
+ */
+export function nextSourceId(sources: any[]): string {
+  return `source-${nextSourceNumber(sources)}`;
+}
+
+/**
+ * Sources the writer may use: everything the user hasn't excluded
+ */
+export function activeSources(sources: any[]): any[] {
+  return sources.filter((source) => !source.excluded);
+}
+
+/**
+ * Required sources whose URL isn't linked anywhere in the content
+ */
+export function findUncitedRequiredSources(content: string, sources: any[]): any[] {
+  const linked = new Set(
+    Array.from(content.matchAll(/\]\(\s*<?(https?:\/\/[^)\s>]+)/g)).map((match) => normalizeUrl(match[1]))
+  );
+
+  return activeSources(sources).filter(
+    (source) => source.required && source.url && !linked.has(normalizeUrl(source.url))
+  );
+}
+
+/**
+ * Merge newly found sources into existing research. Sources whose normalized
+ * URL is already present are folded into the existing entry (their section
+ * mappings are combined); the rest are appended with fresh ids.
+ */
+export function mergeResearchSources(
+  existing: { sources: any[]; sectionMapping: any },
+  incoming: { sources: any[]; sectionMapping: any }
+): { sources: any[]; sectionMapping: Record<string, string[]>; added: number } {
+  const sources = existing.sources.map((source) => ({ ...source }));
+  const byUrl = new Map<string, any>();
+  for (const source of sources) {
+    if (source.url) byUrl.set(normalizeUrl(source.url), source);
+  }
+
+  let nextId = nextSourceNumber(sources);
+
+  // Incoming ids are only unique within the supplemental result
+  const idMap = new Map<string, string>();
+  const appended: any[] = [];
+
+  for (const source of incoming.sources) {
+    const key = source.url ? normalizeUrl(source.url) : null;
+    const match = key ? byUrl.get(key) : undefined;
+    const incomingSections: number[] = Array.isArray(source.sectionMapping) ? source.sectionMapping : [];
+
+    if (match) {
+      match.sectionMapping = Array.from(new Set([...(match.sectionMapping || []), ...incomingSections]));
+      idMap.set(source.id, match.id);
+      continue;
+    }
+
+    const merged = { ...source, id: `source-${nextId++}`, sectionMapping: incomingSections };
+    idMap.set(source.id, merged.id);
+    sources.push(merged);
+    appended.push(merged);
+    if (key) byUrl.set(key, merged);
+  }
+
+  // duplicateOf points at an id from the same batch; follow it to the stored id
+  for (const source of appended) {
+    if (source.duplicateOf === undefined) continue;
+    const original = idMap.get(String(source.duplicateOf));
+    if (original) {
+      source.duplicateOf = original;
+    } else {
+      delete source.duplicateOf;
+    }
+  }
+
+  // Fold the record-style mappings back onto the sources so both forms agree
+  const byId = new Map(sources.map((source) => [source.id, source]));
+  const applyMapping = (mapping: any, resolveId: (id: string) => string | undefined) => {
+    for (const [sectionKey, ids] of Object.entries(mapping || {})) {
+      const sectionNumber = Number(sectionKey);
+      if (!Number.isInteger(sectionNumber) || !Array.isArray(ids)) continue;
+      for (const id of ids) {
+        const source = byId.get(resolveId(String(id)) || "");
+        if (source && !(source.sectionMapping || []).includes(sectionNumber)) {
+          source.sectionMapping = [...(source.sectionMapping || []), sectionNumber];
+        }
+      }
+    }
+  };
+  applyMapping(existing.sectionMapping, (id) => id);
+  applyMapping(incoming.sectionMapping, (id) => idMap.get(id));
+
+  return {
+    sources,
+    sectionMapping: buildSectionMapping(sources),
+    added: appended.length,
+  };
+}
@@ -0,0 +1,192 @@
+import { db } from "@/lib/db";
+import { blogPosts, blogStatusEnum, voiceToneSelections, thesisOutlines, researchSources, blogDrafts, finalPosts } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+
+/**
+ * Workflow state machine for blogPosts.status. Every status change goes through
+ * transitionStatus so legal moves, prerequisites and invalidation live in one place.
+ *
+ * A post's status names the step waiting on the user. It may advance one step at a
+ * time, go back to any earlier step, stay where it is (re-running a step), or be
+ * archived from anywhere.
+ */
+
+export type BlogStatus = (typeof blogStatusEnum.enumValues)[number];
+
+export type WorkflowTransitionErrorCode = "ILLEGAL_TRANSITION" | "PREREQUISITE_MISSING";
+
+export class WorkflowTransitionError extends Error {
+  constructor(
+    public code: WorkflowTransitionErrorCode,
+    message: string,
+    public from: BlogStatus,
+    public to: BlogStatus
+  ) {
+    super(message);
+    this.name = "WorkflowTransitionError";
+  }
+}
+
+// Linear order of the workflow; "archived" sits outside it
+const WORKFLOW_ORDER: BlogStatus[] = [
+  "draft",
+  "voice_tone_pending",
+  "thesis_pending",
+  "research_pending",
+  "draft_pending",
+  "editorial_pending",
+  "final_pending",
+  "completed",
+];
+
+// Forward moves allowed from each status, in addition to going back
+const FORWARD_TRANSITIONS: Record<BlogStatus, BlogStatus[]> = {
+  draft: ["voice_tone_pending"],
+  voice_tone_pending: ["thesis_pending"],
+  thesis_pending: ["research_pending"],
+  research_pending: ["draft_pending"],
+  draft_pending: ["editorial_pending"],
+  // The editorial step writes the final post directly, so final review is optional
+  editorial_pending: ["final_pending", "completed"],
+  final_pending: ["completed"],
+  completed: [],
+  archived: [],
+};
+
+interface StatusRequirement {
+  check: (blogPostId: string) => Promise<boolean>;
+  message: string;
+}
+
+async function hasRow(table: typeof voiceToneSelections | typeof thesisOutlines | typeof researchSources | typeof blogDrafts | typeof finalPosts, blogPostId: string): Promise<boolean> {
+  const rows = await db.select({ id: table.id })
+    .from(table)
+    .where(eq(table.blogPostId, blogPostId))
+    .limit(1);
+
+  return rows.length > 0;
+}
+
+// What must already exist before a post may enter each status
+const PREREQUISITES: Partial<Record<BlogStatus, StatusRequirement>> = {
+  thesis_pending: {
+    check: (id) => hasRow(voiceToneSelections, id),
+    message: "Voice and tone must be selected first.",
+  },
+  research_pending: {
+    check: (id) => hasRow(thesisOutlines, id),
+    message: "Thesis outline not found. Please complete the thesis step first.",
+  },
+  draft_pending: {
+    check: (id) => hasRow(researchSources, id),
+    message: "Research not found. Please complete the research step first.",
+  },
+  editorial_pending: {
+    check: (id) => hasRow(blogDrafts, id),
+    message: "Draft not found. Please generate a draft first.",
+  },
+  final_pending: {
+    check: (id) => hasRow(finalPosts, id),
+    message: "Final post not found. Please generate it first.",
+  },
+  completed: {
+    check: (id) => hasRow(finalPosts, id),
+    message: "Final post not found. Please generate it first.",
+  },
+};
+
+// Output that becomes stale when a step is re-entered with changed input.
+// Only research is discarded; drafts and final posts keep their version history.
+const INVALIDATIONS: Partial<Record<BlogStatus, (blogPostId: string) => Promise<void>>> = {
+  research_pending: async (blogPostId) => {
+    await db.delete(researchSources)
+      .where(eq(researchSources.blogPostId, blogPostId));
+  },
+};
+
+export function canTransition(from: BlogStatus, to: BlogStatus): boolean {
+  if (from === "archived") return false;
+  if (to === "archived" || from === to) return true;
+
+  if (FORWARD_TRANSITIONS[from].includes(to)) return true;
+
+  // Going back to an earlier step is always allowed
+  const fromIndex = WORKFLOW_ORDER.indexOf(from);
+  const toIndex = WORKFLOW_ORDER.indexOf(to);
+  return toIndex > 0 && toIndex < fromIndex;
+}
+
+export function assertTransition(from: BlogStatus, to: BlogStatus): void {
+  if (!canTransition(from, to)) {
+    throw new WorkflowTransitionError(
+      "ILLEGAL_TRANSITION",
+      `Cannot move blog post from ${from} to ${to}`,
+      from,
+      to
+    );
+  }
+}
+
+/**
+ * Map a step name such as "thesis" to the status that waits on it
+ */
+export function statusForStep(step: string): BlogStatus | null {
+  const status = `${step}_pending` as BlogStatus;
+  return WORKFLOW_ORDER.includes(status) ? status : null;
+}
+
+export interface TransitionOptions {
+  // The step's input changed, so discard output derived from the old input
+  invalidate?: boolean;
+}
+
+/**
+ * Move a blog post to a new status after checking the transition and its
+ * prerequisites. Throws WorkflowTransitionError if either check fails.
+ */
+export async function transitionStatus(
+  blogPostId: string,
+  to: BlogStatus,
+  options: TransitionOptions = {}
+): Promise<BlogStatus> {
+  const [blogPost] = await db.select({ status: blogPosts.status })
+    .from(blogPosts)
+    .where(eq(blogPosts.id, blogPostId))
+    .limit(1);
+
+  if (!blogPost) {
+    throw new Error("Blog post not found");
+  }
+
+  const from = blogPost.status;
+  assertTransition(from, to);
+
+  const prerequisite = PREREQUISITES[to];
+  if (prerequisite && !(await prerequisite.check(blogPostId))) {
+    throw new WorkflowTransitionError("PREREQUISITE_MISSING", prerequisite.message, from, to);
+  }
+
+  if (options.invalidate) {
+    await INVALIDATIONS[to]?.(blogPostId);
+  }
+
+  // Only apply if nobody moved the post since we read it
+  const updated = await db.update(blogPosts)
+    .set({ status: to, updatedAt: new Date() })
+    .where(and(
+      eq(blogPosts.id, blogPostId),
+      eq(blogPosts.status, from)
+    ))
+    .returning({ id: blogPosts.id });
+
+  if (updated.length === 0) {
+    throw new WorkflowTransitionError(
+      "ILLEGAL_TRANSITION",
+      `Blog post status changed while moving from ${from} to ${to}`,
+      from,
+      to
+    );
+  }
+
+  return to;
+}
@@ -0,0 +1,335 @@
+import { db } from "@/lib/db";
+import { blogPosts, thesisOutlines, researchSources, blogDrafts, finalPosts, draftRevisions, jobs } from "@/lib/db/schema";
+import { eq, desc, and } from "drizzle-orm";
+import { callWorker } from "@/lib/utils/worker-client";
+import { buildDraftRequest, saveDraftVersion, getDraftVersion, citeRequiredSources } from "./drafts";
+import { assertTransition, transitionStatus } from "./state-machine";
+import { parseDraftSections, replaceSectionBody } from "./draft-sections";
+import { getSectionSources, mergeResearchSources, activeSources } from "./research";
+import { updateResearchSources, StoredResearch } from "./research-store";
+import { countWords } from "@/lib/utils/word-count";
+
+/**
+ * Step handlers executed by the job runner. Each handler calls the AI worker,
+ * persists the result and returns a JSON-serializable summary for the job record.
+ */
+
+async function getBlogPost(blogPostId: string) {
+  const [blogPost] = await db.select()
+    .from(blogPosts)
+    .where(eq(blogPosts.id, blogPostId))
+    .limit(1);
+
+  if (!blogPost) {
+    throw new Error("Blog post not found");
+  }
+
+  return blogPost;
+}
+
+/**
+ * Throw if the job running this step was superseded (e.g. the thesis changed
+ * while it ran), so results for stale input are never written
+ */
+async function assertJobRunning(jobId?: string): Promise<void> {
+  if (!jobId) return;
+
+  const [job] = await db.select({ id: jobs.id })
+    .from(jobs)
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "running")))
+    .limit(1);
+
+  if (!job) {
+    throw new Error("Job was superseded before its results were saved");
+  }
+}
+
+export async function runResearchStep(
+  blogPostId: string,
+  payload: { query?: string; sectionNumber?: number } = {},
+  jobId?: string
+): Promise<any> {
+  const blogPost = await getBlogPost(blogPostId);
+  assertTransition(blogPost.status, "draft_pending");
+
+  const [thesisOutline] = await db.select()
+    .from(thesisOutlines)
+    .where(eq(thesisOutlines.blogPostId, blogPostId))
+    .limit(1);
+
+  if (!thesisOutline) {
+    throw new Error("Thesis outline not found. Please complete the thesis step first.");
+  }
+
+  let research: StoredResearch;
+  let suggestedRevisions: any = {};
+  let added: number | undefined;
+
+  if (payload.query) {
+    // Research more: add to the existing sources instead of replacing them
+    console.log(`[Research Step] Supplemental research for ${blogPostId}: ${payload.query}`);
+    const result = await callWorker("/research/more", {
+      userId: blogPost.userId,
+      thesis: thesisOutline.thesisStatement,
+      outline: thesisOutline.outline,
+      query: payload.query,
+      sectionNumber: payload.sectionNumber,
+    });
+
+    const incoming = {
+      sources: Array.isArray(result.sources) ? result.sources : [],
+      sectionMapping: result.sectionMapping || {},
+    };
+
+    // Merge into the research as stored now, not as it was before the search,
+    // so sources curated in the meantime are kept
+    research = await updateResearchSources(blogPostId, async (current) => {
+      await assertJobRunning(jobId);
+      const merged = mergeResearchSources(current || { sources: [], sectionMapping: {} }, incoming);
+      added = merged.added;
+      return { sources: merged.sources, sectionMapping: merged.sectionMapping };
+    });
+  } else {
+    console.log(`[Research Step] Starting research for ${blogPostId}`);
+    const result = await callWorker("/research", {
+      userId: blogPost.userId,
+      thesis: thesisOutline.thesisStatement,
+      outline: thesisOutline.outline,
+      evidenceExpectations: thesisOutline.evidenceExpectations || [],
+      perplexityApiKey: undefined, // Can be passed from user settings if needed
+      exaApiKey: undefined,
+    });
+
+    const fresh = {
+      sources: Array.isArray(result.sources) ? result.sources : [],
+      sectionMapping: result.sectionMapping || {},
+    };
+    suggestedRevisions = result.suggestedRevisions || {};
+
+    // A full run replaces the research
+    research = await updateResearchSources(blogPostId, async () => {
+      await assertJobRunning(jobId);
+      return fresh;
+    });
+  }
+
+  await transitionStatus(blogPostId, "draft_pending");
+
+  const { sources, sectionMapping } = research;
+  console.log(`[Research Step] Completed for ${blogPostId}, sources: ${sources.length}`);
+
+  return {
+    sources,
+    sectionMapping,
+    suggestedRevisions,
+    added,
+    warning: sources.length === 0
+      ? "No research sources were found. This might be due to missing API keys (PERPLEXITY_API_KEY or EXA_API_KEY) or the research API failing."
+      : added === 0
+        ? "The additional search didn't find any new sources."
+        : undefined,
+  };
+}
+
+export async function runDraftStep(blogPostId: string, jobId?: string): Promise<any> {
+  const request = await buildDraftRequest(blogPostId);
+  const result = await callWorker("/draft", request);
+
+  const { content, wordCount, uncited } = await citeRequiredSources(request, result.content);
+  await assertJobRunning(jobId);
+  const version = await saveDraftVersion(blogPostId, content, wordCount);
+
+  return {
+    content,
+    wordCount,
+    version,
+    uncitedRequiredSources: uncited.map((source: any) => source.id),
+  };
+}
+
+export async function runRevisionStep(
+  blogPostId: string,
+  payload: { revisionId: string },
+  jobId?: string
+): Promise<any> {
+  const [revision] = await db.select()
+    .from(draftRevisions)
+    .where(eq(draftRevisions.id, payload.revisionId))
+    .limit(1);
+
+  if (!revision) {
+    throw new Error("Revision request not found");
+  }
+
+  const draft = await getDraftVersion(blogPostId, revision.fromVersion);
+
+  if (!draft) {
+    throw new Error(`Draft version ${revision.fromVersion} not found`);
+  }
+
+  const { userId, outline, sources, voiceTone, styleGuidelines } = await buildDraftRequest(blogPostId);
+
+  const result = await callWorker("/draft/revise", {
+    userId,
+    draft: draft.content,
+    feedback: revision.feedback,
+    sectionNotes: revision.sectionNotes,
+    outline,
+    sources,
+    voiceTone,
+    styleGuidelines,
+  });
+
+  await assertJobRunning(jobId);
+  // Refused if the draft moved past the version the feedback was given on
+  const version = await saveDraftVersion(blogPostId, result.content, result.wordCount, "agent", revision.fromVersion);
+
+  await db.update(draftRevisions)
+    .set({ toVersion: version, updatedAt: new Date() })
+    .where(eq(draftRevisions.id, revision.id));
+
+  return {
+    content: result.content,
+    wordCount: result.wordCount,
+    version,
+    revisionId: revision.id,
+  };
+}
+
+export async function runSectionStep(
+  blogPostId: string,
+  payload: { sectionNumber: number; fromVersion: number },
+  jobId?: string
+): Promise<any> {
+  const request = await buildDraftRequest(blogPostId);
+
+  // The version the section was requested on, which the save is checked against
+  const draft = await getDraftVersion(blogPostId, payload.fromVersion);
+
+  if (!draft) {
+    throw new Error(`Draft version ${payload.fromVersion} not found`);
+  }
+
+  const outlineSection = (request.outline as any[]).find(
+    (section: any) => section.sectionNumber === payload.sectionNumber
+  );
+  const section = parseDraftSections(draft.content, request.outline)
+    .find((s) => s.sectionNumber === payload.sectionNumber);
+
+  if (!outlineSection || !section) {
+    throw new Error(`Section ${payload.sectionNumber} could not be found in the draft`);
+  }
+
+  const [research] = await db.select()
+    .from(researchSources)
+    .where(eq(researchSources.blogPostId, blogPostId))
+    .limit(1);
+
+  const result = await callWorker("/draft/section", {
+    ...request,
+    section: outlineSection,
+    currentSection: draft.content.slice(section.bodyStart, section.end),
+    draft: draft.content,
+    sources: getSectionSources(request.sources, research?.sectionMapping, payload.sectionNumber),
+  });
+
+  const content = replaceSectionBody(draft.content, section, result.content);
+  const wordCount = countWords(content);
+  await assertJobRunning(jobId);
+  const version = await saveDraftVersion(blogPostId, content, wordCount, "agent", draft.version);
+
+  return {
+    content,
+    wordCount,
+    version,
+    sectionNumber: payload.sectionNumber,
+  };
+}
+
+export async function runEditorialStep(blogPostId: string): Promise<any> {
+  const blogPost = await getBlogPost(blogPostId);
+  assertTransition(blogPost.status, "completed");
+
+  const drafts = await db.select()
+    .from(blogDrafts)
+    .where(eq(blogDrafts.blogPostId, blogPostId))
+    .orderBy(desc(blogDrafts.version))
+    .limit(1);
+
+  const draft = drafts.length > 0 ? drafts[0] : null;
+
+  if (!draft) {
+    throw new Error("Draft not found. Please generate a draft first.");
+  }
+
+  const [research] = await db.select()
+    .from(researchSources)
+    .where(eq(researchSources.blogPostId, blogPostId))
+    .limit(1);
+
+  const sourcesArray = research?.sources && Array.isArray(research.sources) ? activeSources(research.sources) : [];
+
+  const result = await callWorker("/editorial", {
+    userId: blogPost.userId,
+    draft: draft.content,
+    sources: sourcesArray,
+  });
+
+  // Build citations from sources, keeping what the citation styles need for reference entries
+  const citations: any[] = sourcesArray.map((source: any, index: number) => ({
+    id: String(index + 1),
+    url: source.url || "",
+    title: source.title || "",
+    ...(source.author ? { author: source.author } : {}),
+    publishedDate: source.publishedDate || null,
+    accessedAt: source.contentFetchedAt || null,
+  }));
+
+  // Verification problems shouldn't lose the editorial result; the report is just left empty
+  let citationReport: any = null;
+  try {
+    citationReport = await callWorker("/editorial/verify", {
+      content: result.finalContent,
+      sources: sourcesArray,
+    });
+  } catch (error) {
+    console.error(`[Editorial Step] Citation verification failed for ${blogPostId}:`, error);
+  }
+
+  const [existingFinal] = await db.select()
+    .from(finalPosts)
+    .where(eq(finalPosts.blogPostId, blogPostId))
+    .limit(1);
+
+  if (existingFinal) {
+    await db.update(finalPosts)
+      .set({
+        content: result.finalContent,
+        seoMetadata: result.seoMetadata as any,
+        socialPosts: result.socialPosts as any,
+        citations: citations as any,
+        citationReport,
+        updatedAt: new Date(),
+      })
+      .where(eq(finalPosts.blogPostId, blogPostId));
+  } else {
+    await db.insert(finalPosts).values({
+      blogPostId,
+      content: result.finalContent,
+      seoMetadata: result.seoMetadata as any,
+      socialPosts: result.socialPosts as any,
+      citations: citations as any,
+      citationReport,
+    });
+  }
+
+  await transitionStatus(blogPostId, "completed");
+
+  return {
+    finalContent: result.finalContent,
+    seoMetadata: result.seoMetadata,
+    socialPosts: result.socialPosts,
+    citations,
+    citationReport,
+  };
+}
@@ -0,0 +1,121 @@
+import { db } from "@/lib/db";
+import { templates, voiceToneSelections, thesisOutlines } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { isUuid } from "@/lib/utils/uuid";
+
+export type Template = typeof templates.$inferSelect;
+
+/**
+ * templates.voiceTone: the voice/tone selection a post made
+ */
+export interface TemplateVoiceTone {
+  selectedOptionId: string;
+  selectedOptionName: string;
+  styleGuidelines: any;
+}
+
+/**
+ * templates.savedState: everything else a new post is seeded with. The outline
+ * keeps only its structure; titles and purposes guide the thesis step rather
+ * than being copied verbatim.
+ */
+export interface TemplateState {
+  outline: {
+    sectionNumber: number;
+    title: string;
+    purpose: string;
+    evidenceType: string;
+  }[];
+  sourceTypes: string[];
+}
+
+export async function getOwnedTemplate(userId: string, templateId: string): Promise<Template | null> {
+  // Also covers a templateId sent in a request body
+  if (!isUuid(templateId)) return null;
+
+  const [template] = await db.select()
+    .from(templates)
+    .where(and(eq(templates.id, templateId), eq(templates.userId, userId)))
+    .limit(1);
+
+  return template || null;
+}
+
+/**
+ * The template's voice/tone as a voice-tone step option, so a selection that
+ * isn't among the blog type's presets can still be offered
+ */
+export function templateVoiceToneOption(template: Template): any | null {
+  const voiceTone = template.voiceTone as TemplateVoiceTone | null;
+  if (!voiceTone?.selectedOptionId) return null;
+
+  return {
+    id: voiceTone.selectedOptionId,
+    name: voiceTone.selectedOptionName,
+    description: `Saved in the "${template.name}" template`,
+    style: voiceTone.styleGuidelines || {},
+  };
+}
+
+/**
+ * Capture a post's configuration so far. Either step may still be missing for
+ * an in-progress post; the template then simply leaves it unset.
+ */
+export async function buildTemplateFromPost(blogPostId: string): Promise<{ voiceTone: TemplateVoiceTone | null; savedState: TemplateState }> {
+  const [voiceTone] = await db.select()
+    .from(voiceToneSelections)
+    .where(eq(voiceToneSelections.blogPostId, blogPostId))
+    .limit(1);
+
+  const [thesisOutline] = await db.select()
+    .from(thesisOutlines)
+    .where(eq(thesisOutlines.blogPostId, blogPostId))
+    .limit(1);
+
+  const outline = Array.isArray(thesisOutline?.outline) ? (thesisOutline.outline as any[]) : [];
+  const expectations = Array.isArray(thesisOutline?.evidenceExpectations)
+    ? (thesisOutline.evidenceExpectations as any[])
+    : [];
+
+  const sourceTypes = Array.from(new Set(
+    expectations.flatMap((expectation: any) =>
+      Array.isArray(expectation.sourceTypes) ? expectation.sourceTypes.map((type: string) => type.trim()) : []
+    ).filter(Boolean)
+  ));
+
+  return {
+    voiceTone: voiceTone
+      ? {
+          selectedOptionId: voiceTone.selectedOptionId,
+          selectedOptionName: voiceTone.selectedOptionName,
+          styleGuidelines: voiceTone.styleGuidelines,
+        }
+      : null,
+    savedState: {
+      outline: outline.map((section: any) => ({
+        sectionNumber: section.sectionNumber,
+        title: section.title || "",
+        purpose: section.purpose || "",
+        evidenceType: section.evidenceType || "",
+      })),
+      sourceTypes,
+    },
+  };
+}
+
+/**
+ * Put the template's preferred source types first in every section's
+ * evidence expectations, so research leans on them
+ */
+export function applyPreferredSourceTypes(evidenceExpectations: any[], sourceTypes: string[]): any[] {
+  if (sourceTypes.length === 0) return evidenceExpectations;
+
+  const preferred = new Set(sourceTypes.map((type) => type.toLowerCase()));
+  return evidenceExpectations.map((expectation: any) => {
+    const existing: string[] = Array.isArray(expectation.sourceTypes) ? expectation.sourceTypes : [];
+    return {
+      ...expectation,
+      sourceTypes: [...sourceTypes, ...existing.filter((type) => !preferred.has(type.toLowerCase()))],
+    };
+  });
+}
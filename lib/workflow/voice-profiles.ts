@@ -0,0 +1,116 @@
+import { db } from "@/lib/db";
+import { voiceProfiles } from "@/lib/db/schema";
+import { and, asc, eq } from "drizzle-orm";
+import type { VoiceToneOption } from "@/lib/data/voice-tone-presets";
+import { isUuid } from "@/lib/utils/uuid";
+
+export type VoiceProfile = typeof voiceProfiles.$inferSelect;
+
+/**
+ * Voice-tone option ids for profiles are prefixed so they can't collide with preset ids
+ */
+export const VOICE_PROFILE_OPTION_PREFIX = "profile-";
+
+const MAX_RULES = 20;
+
+export interface VoiceProfileInput {
+  name: string;
+  description: string | null;
+  writingStyle: string;
+  formality: string;
+  emotionalPosture: string;
+  doRules: string[];
+  dontRules: string[];
+}
+
+export async function getUserVoiceProfiles(userId: string): Promise<VoiceProfile[]> {
+  return db.select()
+    .from(voiceProfiles)
+    .where(eq(voiceProfiles.userId, userId))
+    .orderBy(asc(voiceProfiles.name));
+}
+
+export async function getOwnedVoiceProfile(userId: string, profileId: string): Promise<VoiceProfile | null> {
+  if (!isUuid(profileId)) return null;
+
+  const [profile] = await db.select()
+    .from(voiceProfiles)
+    .where(and(eq(voiceProfiles.id, profileId), eq(voiceProfiles.userId, userId)))
+    .limit(1);
+
+  return profile || null;
+}
+
+/**
+ * A profile as a voice-tone step option. Its style becomes the post's
+ * styleGuidelines, so the writer sees the do/don't rules and any learned
+ * metrics alongside the presets' fields.
+ */
+export function voiceProfileOption(profile: VoiceProfile): VoiceToneOption {
+  return {
+    id: `${VOICE_PROFILE_OPTION_PREFIX}${profile.id}`,
+    name: profile.name,
+    description: profile.description || "Your voice profile",
+    style: {
+      writingStyle: profile.writingStyle,
+      formality: profile.formality,
+      emotionalPosture: profile.emotionalPosture,
+      do: (profile.doRules as string[]) || [],
+      dont: (profile.dontRules as string[]) || [],
+      ...(profile.metrics ? { metrics: profile.metrics as Record<string, number> } : {}),
+    },
+    custom: true,
+  };
+}
+
+function cleanRules(value: any): string[] | null {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((rule) => typeof rule !== "string")) return null;
+  return value.map((rule: string) => rule.trim()).filter(Boolean);
+}
+
+/**
+ * Validate a create/update body. Returns an error message instead of throwing
+ * so routes can answer with a 400.
+ */
+export function parseVoiceProfileInput(body: any): { value: VoiceProfileInput } | { error: string } {
+  const text = (value: any) => (typeof value === "string" ? value.trim() : "");
+
+  const name = text(body?.name);
+  const writingStyle = text(body?.writingStyle);
+  const formality = text(body?.formality);
+  const emotionalPosture = text(body?.emotionalPosture);
+
+  if (!name || !writingStyle || !formality || !emotionalPosture) {
+    return { error: "name, writingStyle, formality and emotionalPosture are required" };
+  }
+  if (name.length > 255) {
+    return { error: "name must be at most 255 characters" };
+  }
+
+  const doRules = cleanRules(body?.doRules);
+  const dontRules = cleanRules(body?.dontRules);
+  if (!doRules || !dontRules) {
+    return { error: "doRules and dontRules must be arrays of strings" };
+  }
+  if (doRules.length > MAX_RULES || dontRules.length > MAX_RULES) {
+    return { error: `At most ${MAX_RULES} do and ${MAX_RULES} don't rules are allowed` };
+  }
+
+  return {
+    value: {
+      name,
+      description: text(body?.description) || null,
+      writingStyle,
+      formality,
+      emotionalPosture,
+      doRules,
+      dontRules,
+    },
+  };
+}
+
+// Postgres unique_violation, raised for a duplicate profile name
+export function isDuplicateNameError(error: any): boolean {
+  return error?.code === "23505";
+}
@@ -0,0 +1,237 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import * as schema from "@/lib/db/schema";
+
+/**
+ * Every route that acts on a blog post, template or voice profile must treat
+ * another user's record as missing, and must not touch the database or the
+ * worker before saying so. The records below all exist and belong to someone
+ * else, so a query that drops its owner filter finds them and the test fails.
+ */
+
+const SIGNED_IN_USER_ID = "3c6f0b8e-1d2a-4f5b-9c7e-8a9b0c1d2e00";
+const OTHER_USER_ID = "9e8d7c6b-5a49-4382-9170-6f5e4d3c2b00";
+const OWN_POST_ID = "5d4c3b2a-1908-4f7e-8d6c-5b4a39281700";
+const OTHER_USERS_POST_ID = "0b5f3e1c-8d43-4c55-9a55-0d7f9c3f1a01";
+const OTHER_USERS_JOB_ID = "6a1e2f0d-2c1b-4c9f-8e43-5b8f0e6d7c02";
+const OTHER_USERS_TEMPLATE_ID = "7f2a9c4e-3b1d-4e8f-a6c5-2d9e0f1b3a03";
+const OTHER_USERS_PROFILE_ID = "2e9b4d7a-6c3f-4a1e-b8d2-9f0c5e7a1b04";
+
+const mocks = vi.hoisted(() => ({
+  rows: new Map<unknown, Record<string, unknown>[]>(),
+  writes: [] as string[],
+  callWorker: vi.fn(),
+}));
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: () => ({ userId: "clerk_signed_in_user" }),
+}));
+
+vi.mock("@/lib/utils/worker-client", () => ({
+  callWorker: mocks.callWorker,
+  streamWorker: mocks.callWorker,
+}));
+
+// Conditions become row predicates so the mocked reads filter like the database.
+// Operators not listed here match every row.
+vi.mock("drizzle-orm", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("drizzle-orm")>();
+  type Row = Record<string, unknown>;
+
+  const field = (column: any) =>
+    Object.entries(actual.getTableColumns(column.table)).find(([, c]) => c === column)?.[0] as string;
+  const matches = (condition: unknown, row: Row) =>
+    typeof condition === "function" ? condition(row) : true;
+
+  return {
+    ...actual,
+    eq: (column: any, value: unknown) => (row: Row) =>
+      value instanceof actual.Column || row[field(column)] === value,
+    inArray: (column: any, values: unknown[]) => (row: Row) => values.includes(row[field(column)]),
+    and: (...conditions: unknown[]) => (row: Row) => conditions.every((c) => matches(c, row)),
+    or: (...conditions: unknown[]) => (row: Row) => conditions.some((c) => matches(c, row)),
+  };
+});
+
+// Reads resolve to the registered rows of the queried table that match the
+// where condition; writes are recorded
+vi.mock("@/lib/db", () => {
+  const select = () => {
+    let rows: Record<string, unknown>[] = [];
+    let condition: unknown;
+    const query: any = {
+      from: (table: unknown) => {
+        rows = mocks.rows.get(table) || [];
+        return query;
+      },
+      where: (where: unknown) => {
+        condition = where;
+        return query;
+      },
+      then: (resolve: (rows: unknown[]) => unknown, reject?: (error: unknown) => unknown) =>
+        Promise.resolve(rows.filter((row) => typeof condition !== "function" || condition(row)))
+          .then(resolve, reject),
+    };
+    for (const method of ["limit", "orderBy", "innerJoin", "leftJoin"]) {
+      query[method] = () => query;
+    }
+    return query;
+  };
+  const write = (kind: string) => () => {
+    mocks.writes.push(kind);
+    throw new Error(`Unexpected ${kind}`);
+  };
+
+  return {
+    db: {
+      select,
+      insert: write("insert"),
+      update: write("update"),
+      delete: write("delete"),
+      execute: write("execute"),
+    },
+  };
+});
+
+function request(method: string, body?: unknown) {
+  return new NextRequest("http://localhost/api", {
+    method,
+    ...(body !== undefined && {
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+  });
+}
+
+type Handler = (request: NextRequest, context: { params: any }) => Promise<Response>;
+type RouteCase = [
+  name: string,
+  load: () => Promise<Record<string, Handler>>,
+  method: string,
+  body?: unknown,
+  params?: Record<string, string>,
+];
+
+const postRoutes: RouteCase[] = [
+  ["thesis POST", () => import("@/app/api/workflow/[blogPostId]/thesis/route"), "POST", { thesis: "A thesis" }],
+  ["thesis PUT", () => import("@/app/api/workflow/[blogPostId]/thesis/route"), "PUT", { thesis: "A thesis" }],
+  ["research POST", () => import("@/app/api/workflow/[blogPostId]/research/route"), "POST", {}],
+  ["research PUT", () => import("@/app/api/workflow/[blogPostId]/research/route"), "PUT", { requestAdditionalResearch: true }],
+  ["research/sources POST", () => import("@/app/api/workflow/[blogPostId]/research/sources/route"), "POST",
+    { url: "https://example.com/article" }],
+  ["research/sources/[sourceId] PATCH", () => import("@/app/api/workflow/[blogPostId]/research/sources/[sourceId]/route"),
+    "PATCH", { excluded: true }, { sourceId: "1" }],
+  ["voice-tone POST", () => import("@/app/api/workflow/[blogPostId]/voice-tone/route"), "POST", {}],
+  ["voice-tone PUT", () => import("@/app/api/workflow/[blogPostId]/voice-tone/route"), "PUT", { selectedOptionId: "conversational" }],
+  ["draft POST", () => import("@/app/api/workflow/[blogPostId]/draft/route"), "POST", {}],
+  ["draft PUT", () => import("@/app/api/workflow/[blogPostId]/draft/route"), "PUT", { content: "Edited" }],
+  ["draft/stream POST", () => import("@/app/api/workflow/[blogPostId]/draft/stream/route"), "POST", {}],
+  ["draft/revisions POST", () => import("@/app/api/workflow/[blogPostId]/draft/revisions/route"), "POST",
+    { feedback: "Tighten the intro" }],
+  ["draft/sections/[sectionNumber] POST", () => import("@/app/api/workflow/[blogPostId]/draft/sections/[sectionNumber]/route"),
+    "POST", {}, { sectionNumber: "1" }],
+  ["drafts GET", () => import("@/app/api/workflow/[blogPostId]/drafts/route"), "GET"],
+  ["drafts/[version] GET", () => import("@/app/api/workflow/[blogPostId]/drafts/[version]/route"), "GET", undefined,
+    { version: "1" }],
+  ["drafts/[version]/restore POST", () => import("@/app/api/workflow/[blogPostId]/drafts/[version]/restore/route"),
+    "POST", undefined, { version: "1" }],
+  ["drafts/[version]/voice-score POST", () => import("@/app/api/workflow/[blogPostId]/drafts/[version]/voice-score/route"),
+    "POST", {}, { version: "1" }],
+  ["editorial POST", () => import("@/app/api/workflow/[blogPostId]/editorial/route"), "POST", {}],
+  ["editorial PUT", () => import("@/app/api/workflow/[blogPostId]/editorial/route"), "PUT", { content: "Edited" }],
+  ["state GET", () => import("@/app/api/workflow/[blogPostId]/state/route"), "GET"],
+  ["export GET", () => import("@/app/api/workflow/[blogPostId]/export/route"), "GET"],
+  ["templates POST", () => import("@/app/api/templates/route"), "POST",
+    { blogPostId: OTHER_USERS_POST_ID, name: "Copied settings" }],
+];
+
+const voiceProfileBody = {
+  name: "Borrowed voice",
+  writingStyle: "Plain",
+  formality: "Casual",
+  emotionalPosture: "Warm",
+  doRules: [],
+  dontRules: [],
+};
+
+const templateAndProfileRoutes: [...RouteCase, code: string, message: string][] = [
+  ["templates/[templateId] PATCH", () => import("@/app/api/templates/[templateId]/route"), "PATCH",
+    { name: "Renamed" }, { templateId: OTHER_USERS_TEMPLATE_ID }, "TEMPLATE_NOT_FOUND", "Template not found"],
+  ["templates/[templateId] DELETE", () => import("@/app/api/templates/[templateId]/route"), "DELETE",
+    undefined, { templateId: OTHER_USERS_TEMPLATE_ID }, "TEMPLATE_NOT_FOUND", "Template not found"],
+  ["initialize POST from a template", () => import("@/app/api/workflow/initialize/route"), "POST",
+    { idea: "An idea", templateId: OTHER_USERS_TEMPLATE_ID }, {}, "TEMPLATE_NOT_FOUND", "Template not found"],
+  ["voice-profiles/[profileId] PUT", () => import("@/app/api/voice-profiles/[profileId]/route"), "PUT",
+    voiceProfileBody, { profileId: OTHER_USERS_PROFILE_ID }, "VOICE_PROFILE_NOT_FOUND", "Voice profile not found"],
+  ["voice-profiles/[profileId] DELETE", () => import("@/app/api/voice-profiles/[profileId]/route"), "DELETE",
+    undefined, { profileId: OTHER_USERS_PROFILE_ID }, "VOICE_PROFILE_NOT_FOUND", "Voice profile not found"],
+  ["voice-score POST with a voice profile", () => import("@/app/api/workflow/[blogPostId]/drafts/[version]/voice-score/route"),
+    "POST", { voiceProfileId: OTHER_USERS_PROFILE_ID }, { blogPostId: OWN_POST_ID, version: "1" },
+    "VOICE_PROFILE_NOT_FOUND", "Voice profile not found"],
+];
+
+beforeEach(() => {
+  mocks.rows.clear();
+  mocks.writes.length = 0;
+  mocks.callWorker.mockReset();
+
+  mocks.rows.set(schema.users, [
+    { id: SIGNED_IN_USER_ID, clerkUserId: "clerk_signed_in_user" },
+    { id: OTHER_USER_ID, clerkUserId: "clerk_other_user" },
+  ]);
+  mocks.rows.set(schema.blogPosts, [
+    { id: OWN_POST_ID, userId: SIGNED_IN_USER_ID, blogType: "opinion", status: "editorial_pending" },
+    { id: OTHER_USERS_POST_ID, userId: OTHER_USER_ID, blogType: "opinion", status: "editorial_pending" },
+  ]);
+  mocks.rows.set(schema.blogDrafts, [
+    { id: "own-draft", blogPostId: OWN_POST_ID, version: 1, content: "Own draft", wordCount: 2, author: "agent" },
+    { id: "other-draft", blogPostId: OTHER_USERS_POST_ID, version: 1, content: "Their draft", wordCount: 2, author: "agent" },
+  ]);
+  mocks.rows.set(schema.jobs, [{
+    id: OTHER_USERS_JOB_ID,
+    blogPostId: OTHER_USERS_POST_ID,
+    type: "research",
+    status: "succeeded",
+  }]);
+  mocks.rows.set(schema.templates, [{ id: OTHER_USERS_TEMPLATE_ID, userId: OTHER_USER_ID, name: "Theirs", blogType: "opinion" }]);
+  mocks.rows.set(schema.voiceProfiles, [{ id: OTHER_USERS_PROFILE_ID, userId: OTHER_USER_ID, ...voiceProfileBody }]);
+});
+
+describe("routes on another user's blog post", () => {
+  it.each(postRoutes)("%s returns 404 BLOG_POST_NOT_FOUND", async (_name, load, method, body, params) => {
+    const route = await load();
+    const response = await route[method](request(method, body), {
+      params: { blogPostId: OTHER_USERS_POST_ID, ...params },
+    });
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      error: { code: "BLOG_POST_NOT_FOUND", message: "Blog post not found" },
+    });
+    expect(mocks.writes).toEqual([]);
+    expect(mocks.callWorker).not.toHaveBeenCalled();
+  });
+
+  it("jobs GET reports the post's job as not found", async () => {
+    const { GET } = await import("@/app/api/jobs/[jobId]/route");
+    const response = await GET(request("GET"), { params: { jobId: OTHER_USERS_JOB_ID } });
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      error: { code: "JOB_NOT_FOUND", message: "Job not found" },
+    });
+    expect(mocks.writes).toEqual([]);
+  });
+});
+
+describe("routes on another user's template or voice profile", () => {
+  it.each(templateAndProfileRoutes)("%s returns 404", async (_name, load, method, body, params, code, message) => {
+    const route = await load();
+    const response = await route[method](request(method, body), { params });
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: { code, message } });
+    expect(mocks.writes).toEqual([]);
+    expect(mocks.callWorker).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { Citation, formatApa, formatChicago, formatCitations, formatMla } from "@/lib/utils/citation-format";
+
+const report: Citation = {
+  id: "1",
+  url: "https://www.example.com/report",
+  title: "The State of Remote Work",
+  author: "Jane Doe",
+  publishedDate: "2024-03-05T00:00:00Z",
+};
+
+const untitled: Citation = {
+  id: "2",
+  url: "https://news.example.org/story",
+  accessedAt: "2024-06-01T00:00:00Z",
+};
+
+describe("formatCitations", () => {
+  it("leaves inline links as they are and lists the sources", () => {
+    expect(formatCitations("Remote work [is growing](https://example.com/report).", [report], "inline")).toBe(
+      "Remote work [is growing](https://example.com/report).\n\n" +
+      "## Sources\n\n- [The State of Remote Work](https://www.example.com/report)"
+    );
+  });
+
+  it("turns links into numbered footnotes in order of first use", () => {
+    const content = "[One](https://news.example.org/story) and [two](https://www.example.com/report), "
+      + "then [one again](https://news.example.org/story).";
+
+    expect(formatCitations(content, [report, untitled], "footnotes")).toBe(
+      "One[^1] and two[^2], then one again[^1].\n\n" +
+      "[^1]: news.example.org. https://news.example.org/story\n" +
+      "[^2]: The State of Remote Work. https://www.example.com/report"
+    );
+  });
+
+  it("formats links that have a title", () => {
+    const content = 'Remote work [is growing](https://example.com/report "The report").';
+
+    expect(formatCitations(content, [report], "apa")).toBe(
+      "Remote work is growing (Jane Doe, 2024).\n\n" +
+      "## References\n\n" +
+      "Jane Doe. (2024, March 5). *The State of Remote Work*. example.com. https://www.example.com/report"
+    );
+    expect(formatCitations(content, [report], "footnotes")).toBe(
+      "Remote work is growing[^1].\n\n[^1]: The State of Remote Work. https://www.example.com/report"
+    );
+  });
+
+  it("leaves images alone even when they point at a cited URL", () => {
+    const content = "![Chart](https://example.com/report)\n\nSee [the report](https://example.com/report).";
+
+    expect(formatCitations(content, [report], "mla")).toBe(
+      "![Chart](https://example.com/report)\n\nSee the report (Jane Doe).\n\n" +
+      "## Works Cited\n\n" +
+      'Jane Doe. "The State of Remote Work." *example.com*, 5 Mar. 2024, https://www.example.com/report.'
+    );
+  });
+
+  it("leaves links that aren't citations alone and adds no reference list without citations", () => {
+    const content = "Read [the docs](https://docs.example.net/guide).\n";
+
+    expect(formatCitations(content, [report], "chicago")).toBe("Read [the docs](https://docs.example.net/guide).");
+  });
+
+  it("adds Chicago notes and a bibliography sorted by entry", () => {
+    const content = "[A](https://www.example.com/report) and [B](https://news.example.org/story).";
+
+    expect(formatCitations(content, [report, untitled], "chicago")).toBe(
+      "A[^1] and B[^2].\n\n" +
+      '[^1]: Jane Doe, "The State of Remote Work," example.com, March 5, 2024, https://www.example.com/report.\n' +
+      '[^2]: "news.example.org," news.example.org, Accessed June 1, 2024, https://news.example.org/story.\n\n' +
+      "## Bibliography\n\n" +
+      'Jane Doe. "The State of Remote Work." example.com. March 5, 2024. https://www.example.com/report.\n\n' +
+      '"news.example.org." news.example.org. Accessed June 1, 2024. https://news.example.org/story.'
+    );
+  });
+});
+
+describe("reference entries", () => {
+  it("moves the title into the author position in APA when there is no author", () => {
+    expect(formatApa(untitled)).toBe("*news.example.org*. (n.d.). news.example.org. https://news.example.org/story");
+  });
+
+  it("gives MLA an access date only when the page has no publication date", () => {
+    expect(formatMla(untitled)).toBe('"news.example.org." *news.example.org*, https://news.example.org/story. Accessed 1 June 2024.');
+    expect(formatMla({ ...report, accessedAt: "2024-06-01T00:00:00Z" })).not.toContain("Accessed");
+  });
+
+  it("doesn't double the period after a title that ends a sentence", () => {
+    expect(formatChicago({ ...report, title: "Is Remote Work Here to Stay?" })).toBe(
+      'Jane Doe. "Is Remote Work Here to Stay?" example.com. March 5, 2024. https://www.example.com/report.'
+    );
+  });
+});
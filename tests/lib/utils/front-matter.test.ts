@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { buildFrontMatter, FRONT_MATTER_PROFILES, FrontMatterFields } from "@/lib/utils/front-matter";
+
+const fields: FrontMatterFields = {
+  title: 'Remote work: "here to stay"?',
+  description: "Two lines:\nthe second has a \\ backslash",
+  date: new Date("2024-03-05T09:30:00Z"),
+  slug: "remote-work",
+  tags: ["work: remote", 'the "office"'],
+  blogType: "opinion",
+  canonicalUrl: null,
+  draft: false,
+};
+
+// Escaped the same way in YAML double-quoted scalars and TOML basic strings
+const TITLE = String.raw`"Remote work: \"here to stay\"?"`;
+const DESCRIPTION = String.raw`"Two lines:\nthe second has a \\ backslash"`;
+const TAGS = String.raw`["work: remote", "the \"office\""]`;
+
+describe("buildFrontMatter", () => {
+  it.each(FRONT_MATTER_PROFILES)("escapes colons, quotes and newlines for %s", (profile) => {
+    const separator = profile === "hugo" ? " = " : ": ";
+    const lines = buildFrontMatter(profile, fields).split("\n");
+
+    expect(lines).toContain(`title${separator}${TITLE}`);
+    expect(lines).toContain(`description${separator}${DESCRIPTION}`);
+    expect(lines).toContain(`tags${separator}${TAGS}`);
+  });
+
+  it("writes Hugo front matter as TOML", () => {
+    expect(buildFrontMatter("hugo", { ...fields, canonicalUrl: "https://example.com/remote-work" })).toBe([
+      "+++",
+      `title = ${TITLE}`,
+      `description = ${DESCRIPTION}`,
+      "date = 2024-03-05T09:30:00.000Z",
+      'slug = "remote-work"',
+      `tags = ${TAGS}`,
+      'categories = ["opinion"]',
+      'canonicalURL = "https://example.com/remote-work"',
+      "draft = false",
+      "+++",
+      "",
+    ].join("\n"));
+  });
+
+  it("writes Jekyll's date format and publishes unless the post is a draft", () => {
+    expect(buildFrontMatter("jekyll", { ...fields, draft: true })).toBe([
+      "---",
+      'layout: "post"',
+      `title: ${TITLE}`,
+      `description: ${DESCRIPTION}`,
+      'date: "2024-03-05 09:30:00 +0000"',
+      'slug: "remote-work"',
+      `tags: ${TAGS}`,
+      'categories: ["opinion"]',
+      "published: false",
+      "---",
+      "",
+    ].join("\n"));
+  });
+
+  it("gives Eleventy a permalink and Astro a pubDate", () => {
+    expect(buildFrontMatter("eleventy", fields)).toContain('\npermalink: "/remote-work/"\n');
+    expect(buildFrontMatter("astro", fields)).toContain("\npubDate: 2024-03-05T09:30:00.000Z\n");
+  });
+
+  it("leaves out a missing canonical URL", () => {
+    for (const profile of FRONT_MATTER_PROFILES) {
+      expect(buildFrontMatter(profile, fields).toLowerCase()).not.toContain("canonical");
+    }
+  });
+});
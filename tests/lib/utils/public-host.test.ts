@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { assertPublicUrl, isPublicAddress } from "@/lib/utils/public-host";
+
+const mocks = vi.hoisted(() => ({ lookup: vi.fn() }));
+
+vi.mock("dns/promises", () => ({ lookup: mocks.lookup }));
+
+describe("isPublicAddress", () => {
+  it.each([
+    "8.8.8.8",
+    "1.1.1.1",
+    "172.32.0.1",
+    "100.128.0.1",
+    "2606:4700:4700::1111",
+    "::ffff:8.8.8.8",
+    "2002:0808:0808::1",
+  ])("accepts %s", (address) => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+
+  it.each([
+    ["0.0.0.0", "this network"],
+    ["10.1.2.3", "private"],
+    ["100.64.0.1", "carrier-grade NAT"],
+    ["127.0.0.1", "loopback"],
+    ["169.254.169.254", "cloud metadata"],
+    ["172.16.0.1", "private"],
+    ["172.31.255.255", "private"],
+    ["192.168.1.1", "private"],
+    ["198.18.0.1", "benchmarking"],
+    ["224.0.0.1", "multicast"],
+    ["255.255.255.255", "broadcast"],
+    ["::", "unspecified"],
+    ["::1", "IPv6 loopback"],
+    ["::ffff:127.0.0.1", "IPv4-mapped loopback"],
+    ["::ffff:a9fe:a9fe", "IPv4-mapped metadata in hex"],
+    ["64:ff9b::a00:1", "NAT64 of a private address"],
+    ["2002:c0a8:0101::1", "6to4 of a private address"],
+    ["fc00::1", "unique-local"],
+    ["fd12:3456::1", "unique-local"],
+    ["fe80::1%eth0", "link-local with a zone"],
+    ["fec0::1", "site-local"],
+    ["ff02::1", "multicast"],
+  ])("rejects %s (%s)", (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it("rejects anything that isn't an IP address", () => {
+    expect(isPublicAddress("example.com")).toBe(false);
+    expect(isPublicAddress("")).toBe(false);
+  });
+});
+
+describe("assertPublicUrl", () => {
+  beforeEach(() => {
+    mocks.lookup.mockReset();
+  });
+
+  it("passes a host that only resolves to public addresses", async () => {
+    mocks.lookup.mockResolvedValue([{ address: "93.184.216.34", family: 4 }, { address: "2606:2800:220:1::", family: 6 }]);
+
+    await expect(assertPublicUrl(new URL("https://example.com/article"))).resolves.toBeUndefined();
+    expect(mocks.lookup).toHaveBeenCalledWith("example.com", { all: true, verbatim: true });
+  });
+
+  it("rejects a host with any non-public address", async () => {
+    mocks.lookup.mockResolvedValue([{ address: "93.184.216.34", family: 4 }, { address: "10.0.0.5", family: 4 }]);
+
+    await expect(assertPublicUrl(new URL("https://mixed.example.com/"))).rejects.toThrow("Not a public host: mixed.example.com");
+  });
+
+  it("rejects a host that resolves to nothing", async () => {
+    mocks.lookup.mockResolvedValue([]);
+
+    await expect(assertPublicUrl(new URL("https://empty.example.com/"))).rejects.toThrow("Not a public host");
+  });
+
+  it("checks IP literals without a lookup, including bracketed and numeric forms", async () => {
+    await expect(assertPublicUrl(new URL("http://169.254.169.254/latest/meta-data"))).rejects.toThrow("Not a public host");
+    await expect(assertPublicUrl(new URL("http://[::1]:8080/"))).rejects.toThrow("Not a public host");
+    // The URL parser turns a decimal host into 127.0.0.1
+    await expect(assertPublicUrl(new URL("http://2130706433/"))).rejects.toThrow("Not a public host");
+    await expect(assertPublicUrl(new URL("https://8.8.8.8/"))).resolves.toBeUndefined();
+
+    expect(mocks.lookup).not.toHaveBeenCalled();
+  });
+
+  it("rejects protocols other than http and https", async () => {
+    await expect(assertPublicUrl(new URL("file:///etc/passwd"))).rejects.toThrow("Unsupported protocol: file:");
+    await expect(assertPublicUrl(new URL("ftp://example.com/"))).rejects.toThrow("Unsupported protocol: ftp:");
+  });
+});
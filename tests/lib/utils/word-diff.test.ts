@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { diffWords, DiffPart } from "@/lib/utils/word-diff";
+
+// The text on each side of the diff, rebuilt from its parts
+function sides(parts: DiffPart[]) {
+  return {
+    before: parts.filter((part) => part.op !== "added").map((part) => part.text).join(""),
+    after: parts.filter((part) => part.op !== "removed").map((part) => part.text).join(""),
+  };
+}
+
+describe("diffWords", () => {
+  it("returns one equal part for identical texts", () => {
+    expect(diffWords("The same words", "The same words")).toEqual([
+      { op: "equal", text: "The same words" },
+    ]);
+  });
+
+  it("returns nothing for two empty texts", () => {
+    expect(diffWords("", "")).toEqual([]);
+  });
+
+  it("treats everything as added or removed when one side is empty", () => {
+    expect(diffWords("", "New text")).toEqual([{ op: "added", text: "New text" }]);
+    expect(diffWords("Old text", "")).toEqual([{ op: "removed", text: "Old text" }]);
+  });
+
+  it("diffs a change at the start of the text", () => {
+    expect(diffWords("Old start of the post", "New start of the post")).toEqual([
+      { op: "removed", text: "Old " },
+      { op: "added", text: "New " },
+      { op: "equal", text: "start of the post" },
+    ]);
+  });
+
+  it("diffs a change at the end of the text", () => {
+    expect(diffWords("The post ends here", "The post ends there")).toEqual([
+      { op: "equal", text: "The post ends " },
+      { op: "removed", text: "here" },
+      { op: "added", text: "there" },
+    ]);
+  });
+
+  it("keeps the common prefix and suffix around a change in the middle", () => {
+    expect(diffWords("one two three four", "one two 3 four")).toEqual([
+      { op: "equal", text: "one two " },
+      { op: "removed", text: "three " },
+      { op: "added", text: "3 " },
+      { op: "equal", text: "four" },
+    ]);
+  });
+
+  it("merges neighbouring words with the same op into one part", () => {
+    expect(diffWords("a b", "a x y z b")).toEqual([
+      { op: "equal", text: "a " },
+      { op: "added", text: "x y z " },
+      { op: "equal", text: "b" },
+    ]);
+  });
+
+  it("counts a word that only lost its trailing space as changed", () => {
+    expect(diffWords("end ", "end")).toEqual([
+      { op: "removed", text: "end " },
+      { op: "added", text: "end" },
+    ]);
+  });
+
+  it("reproduces both texts, including their whitespace", () => {
+    const before = "  Leading spaces,\n\ttabs and\n\nparagraphs stay put.  ";
+    const after = "  Leading spaces,\n\tnew tabs and\n\nparagraphs move.  ";
+
+    expect(sides(diffWords(before, after))).toEqual({ before, after });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { computeStaleness, WorkflowArtifact } from "@/lib/workflow/dependencies";
+
+const at = (minute: number) => new Date(Date.UTC(2024, 2, 5, 9, minute));
+
+const fresh = { stale: false, changedUpstream: null };
+const staleFrom = (artifact: WorkflowArtifact) => ({ stale: true, changedUpstream: artifact });
+
+describe("computeStaleness", () => {
+  it("reports nothing stale when each artifact was built after the one before it", () => {
+    expect(computeStaleness({
+      voiceTone: at(1),
+      thesis: at(2),
+      research: at(3),
+      draft: at(4),
+      editorial: at(5),
+    })).toEqual({
+      voiceTone: fresh,
+      thesis: fresh,
+      research: fresh,
+      draft: fresh,
+      editorial: fresh,
+    });
+  });
+
+  it("marks everything below a changed artifact stale, naming the change", () => {
+    expect(computeStaleness({
+      voiceTone: at(1),
+      thesis: at(10),
+      research: at(3),
+      draft: at(4),
+      editorial: at(5),
+    })).toEqual({
+      voiceTone: fresh,
+      thesis: fresh,
+      research: staleFrom("thesis"),
+      draft: staleFrom("thesis"),
+      editorial: staleFrom("thesis"),
+    });
+  });
+
+  it("keeps an artifact stale after its parent was regenerated from stale input", () => {
+    // The draft was regenerated after the thesis change, but from the old research
+    const staleness = computeStaleness({
+      voiceTone: at(1),
+      thesis: at(10),
+      research: at(3),
+      draft: at(11),
+      editorial: at(12),
+    });
+
+    expect(staleness.research).toEqual(staleFrom("thesis"));
+    expect(staleness.draft).toEqual(staleFrom("thesis"));
+    expect(staleness.editorial).toEqual(staleFrom("thesis"));
+  });
+
+  it("names the latest upstream change when several happened", () => {
+    const staleness = computeStaleness({
+      voiceTone: at(8),
+      thesis: at(2),
+      research: at(9),
+      draft: at(4),
+      editorial: null,
+    });
+
+    expect(staleness.thesis).toEqual(staleFrom("voiceTone"));
+    expect(staleness.research).toEqual(staleFrom("voiceTone"));
+  });
+
+  it("never marks missing artifacts stale, but still compares past them", () => {
+    expect(computeStaleness({
+      voiceTone: at(1),
+      thesis: at(10),
+      research: null,
+      draft: undefined,
+      editorial: at(5),
+    })).toEqual({
+      voiceTone: fresh,
+      thesis: fresh,
+      research: fresh,
+      draft: fresh,
+      editorial: staleFrom("thesis"),
+    });
+  });
+
+  it("accepts timestamps as strings", () => {
+    const staleness = computeStaleness({
+      voiceTone: "2024-03-05T09:05:00.000Z",
+      thesis: "2024-03-05T09:01:00.000Z",
+      research: null,
+      draft: null,
+      editorial: null,
+    });
+
+    expect(staleness.thesis).toEqual(staleFrom("voiceTone"));
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { parseDraftSections, replaceSectionBody } from "@/lib/workflow/draft-sections";
+
+const outline = [
+  { sectionNumber: 1, title: "Why remote work stuck" },
+  { sectionNumber: 2, title: "What the data says" },
+  { sectionNumber: 3, title: "Where it goes next" },
+];
+
+const draft = [
+  "# Remote work is here to stay",
+  "",
+  "Intro paragraph.",
+  "",
+  "## 1. Why Remote Work Stuck",
+  "",
+  "Teams found they liked it.",
+  "",
+  "### A closer look",
+  "",
+  "Details.",
+  "",
+  "## What the **data** says",
+  "",
+  "```markdown",
+  "## Where it goes next",
+  "```",
+  "",
+  "Numbers.",
+  "",
+  "## Where it goes next ##",
+  "",
+  "Predictions.",
+  "",
+].join("\n");
+
+const bodyOf = (markdown: string, section: { bodyStart: number; end: number }) =>
+  markdown.slice(section.bodyStart, section.end);
+
+describe("parseDraftSections", () => {
+  it("finds each outline section under its heading", () => {
+    const sections = parseDraftSections(draft, outline);
+
+    expect(sections.map((s) => [s.sectionNumber, s.heading])).toEqual([
+      [1, "## 1. Why Remote Work Stuck\n"],
+      [2, "## What the **data** says\n"],
+      [3, "## Where it goes next ##\n"],
+    ]);
+  });
+
+  it("keeps subheadings inside their section and ignores headings in code blocks", () => {
+    const [first, second] = parseDraftSections(draft, outline);
+
+    expect(bodyOf(draft, first)).toBe("\nTeams found they liked it.\n\n### A closer look\n\nDetails.\n\n");
+    expect(bodyOf(draft, second)).toBe("\n```markdown\n## Where it goes next\n```\n\nNumbers.\n\n");
+  });
+
+  it("runs the last section to the end of the draft", () => {
+    const last = parseDraftSections(draft, outline)[2];
+    expect(last.end).toBe(draft.length);
+  });
+
+  it("uses the heading level that matches the most outline titles", () => {
+    const markdown = "## Post\n\n### Why remote work stuck\n\nA\n\n### What the data says\n\nB\n";
+    const sections = parseDraftSections(markdown, outline);
+
+    expect(sections.map((s) => s.heading)).toEqual(["### Why remote work stuck\n", "### What the data says\n"]);
+    expect(bodyOf(markdown, sections[1])).toBe("\nB\n");
+  });
+
+  it("leaves out sections whose heading isn't in the draft", () => {
+    const markdown = "## Why remote work stuck\n\nA\n\n## Where it goes next\n\nC";
+
+    expect(parseDraftSections(markdown, outline).map((s) => s.sectionNumber)).toEqual([1, 3]);
+  });
+
+  it("returns nothing without headings or an outline", () => {
+    expect(parseDraftSections("Just a paragraph.", outline)).toEqual([]);
+    expect(parseDraftSections(draft, [])).toEqual([]);
+  });
+});
+
+describe("replaceSectionBody", () => {
+  it("replaces only the section body, keeping its heading and surrounding whitespace", () => {
+    const section = parseDraftSections(draft, outline)[1];
+    const updated = replaceSectionBody(draft, section, "  New numbers.\n");
+
+    expect(updated).toBe(
+      draft.slice(0, section.bodyStart) + "\nNew numbers.\n\n" + draft.slice(section.end)
+    );
+    expect(parseDraftSections(updated, outline).map((s) => s.heading)).toEqual(
+      parseDraftSections(draft, outline).map((s) => s.heading)
+    );
+  });
+
+  it("drops a heading the writer repeated at the top of the body", () => {
+    const section = parseDraftSections(draft, outline)[2];
+
+    expect(replaceSectionBody(draft, section, "## Where it goes next\n\nBetter predictions.")).toBe(
+      draft.slice(0, section.bodyStart) + "\nBetter predictions.\n"
+    );
+  });
+
+  it("keeps a different heading at the top of the body", () => {
+    const section = parseDraftSections(draft, outline)[2];
+
+    expect(replaceSectionBody(draft, section, "### Short term\n\nSoon.")).toBe(
+      draft.slice(0, section.bodyStart) + "\n### Short term\n\nSoon.\n"
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import {
+  addSection,
+  deleteSection,
+  EvidenceExpectation,
+  mergeWithNext,
+  moveSection,
+  OutlineSection,
+  parseEditedOutline,
+  remapEvidenceExpectations,
+  splitSection,
+  toEditableOutline,
+  toStoredOutline,
+} from "@/lib/workflow/outline";
+
+const outline: OutlineSection[] = [
+  { sectionNumber: 1, title: "Hook", purpose: "Open with a story", evidenceType: "examples", evidenceGuidance: "A founder anecdote" },
+  { sectionNumber: 2, title: "Data", purpose: "Show the trend", evidenceType: "data_points", evidenceGuidance: "Survey numbers" },
+  { sectionNumber: 3, title: "Close", purpose: "Call to action", evidenceType: "expert_quotes", evidenceGuidance: "" },
+];
+
+function expectation(sectionNumber: number, overrides: Partial<EvidenceExpectation> = {}): EvidenceExpectation {
+  return {
+    sectionNumber,
+    evidenceType: "examples",
+    searchQueries: [`query ${sectionNumber}`],
+    sourceTypes: ["news"],
+    keyDataPoints: [`point ${sectionNumber}`],
+    description: `Evidence for section ${sectionNumber}`,
+    ...overrides,
+  };
+}
+
+const expectations = [expectation(1), expectation(2), expectation(3)];
+
+const numbersAndTitles = (sections: OutlineSection[]) => sections.map((s) => [s.sectionNumber, s.title]);
+
+describe("outline edits", () => {
+  it("merges a section into the next, joining its text and keeping both origins", () => {
+    const merged = mergeWithNext(toEditableOutline(outline), 0);
+
+    expect(merged).toEqual([
+      {
+        sectionNumber: 1,
+        title: "Hook & Data",
+        purpose: "Open with a story Show the trend",
+        evidenceType: "examples",
+        evidenceGuidance: "A founder anecdote Survey numbers",
+        origins: [1, 2],
+      },
+      { ...outline[2], sectionNumber: 2, origins: [3] },
+    ]);
+  });
+
+  it("doesn't merge the last section", () => {
+    const sections = toEditableOutline(outline);
+    expect(mergeWithNext(sections, 2)).toBe(sections);
+  });
+
+  it("splits a section into two halves with the same origin", () => {
+    const split = splitSection(toEditableOutline(outline), 1);
+
+    expect(numbersAndTitles(split)).toEqual([
+      [1, "Hook"],
+      [2, "Data (part 1)"],
+      [3, "Data (part 2)"],
+      [4, "Close"],
+    ]);
+    expect(split.map((s) => s.origins)).toEqual([[1], [2], [2], [3]]);
+  });
+
+  it("reorders sections and renumbers them", () => {
+    const moved = moveSection(toEditableOutline(outline), 2, -1);
+
+    expect(numbersAndTitles(moved)).toEqual([[1, "Hook"], [2, "Close"], [3, "Data"]]);
+    expect(moved.map((s) => s.origins)).toEqual([[1], [3], [2]]);
+  });
+
+  it("doesn't move a section past either end", () => {
+    const sections = toEditableOutline(outline);
+    expect(moveSection(sections, 0, -1)).toBe(sections);
+    expect(moveSection(sections, 2, 1)).toBe(sections);
+  });
+
+  it("adds and deletes sections", () => {
+    const added = addSection(toEditableOutline(outline), 0);
+    expect(numbersAndTitles(added)).toEqual([[1, "Hook"], [2, "New section"], [3, "Data"], [4, "Close"]]);
+    expect(added[1].origins).toEqual([]);
+
+    expect(numbersAndTitles(deleteSection(added, 0))).toEqual([[1, "New section"], [2, "Data"], [3, "Close"]]);
+  });
+
+  it("drops the edit bookkeeping when storing", () => {
+    expect(toStoredOutline(toEditableOutline(outline))).toEqual(outline);
+  });
+});
+
+describe("parseEditedOutline", () => {
+  it("treats sections without origins as the saved sections they number", () => {
+    const parsed = parseEditedOutline([outline[1], { ...outline[0], origins: [] }]);
+
+    expect(parsed).toEqual({
+      value: [
+        { ...outline[1], sectionNumber: 1, origins: [2] },
+        { ...outline[0], sectionNumber: 2, origins: [] },
+      ],
+    });
+  });
+
+  it("rejects empty outlines and untitled sections", () => {
+    expect(parseEditedOutline([])).toEqual({ error: "outline must be a non-empty array of sections" });
+    expect(parseEditedOutline([{ ...outline[0], title: "  " }])).toEqual({ error: "Every outline section needs a title" });
+  });
+});
+
+describe("remapEvidenceExpectations", () => {
+  it("keeps each section's expectations under its new number after a reorder", () => {
+    const remapped = remapEvidenceExpectations(expectations, moveSection(toEditableOutline(outline), 2, -1));
+
+    expect(remapped.map((e) => [e.sectionNumber, e.description])).toEqual([
+      [1, "Evidence for section 1"],
+      [2, "Evidence for section 3"],
+      [3, "Evidence for section 2"],
+    ]);
+    expect(remapped[1].evidenceType).toBe("expert_quotes");
+  });
+
+  it("combines the expectations of merged sections without duplicates", () => {
+    const withShared = [expectation(1, { sourceTypes: ["news", "academic"] }), expectation(2), expectation(3)];
+    const [merged] = remapEvidenceExpectations(withShared, mergeWithNext(toEditableOutline(outline), 0));
+
+    expect(merged).toEqual({
+      sectionNumber: 1,
+      evidenceType: "examples",
+      searchQueries: ["query 1", "query 2"],
+      sourceTypes: ["news", "academic"],
+      keyDataPoints: ["point 1", "point 2"],
+      description: "Evidence for section 1 Evidence for section 2",
+    });
+  });
+
+  it("gives both halves of a split the original expectations", () => {
+    const remapped = remapEvidenceExpectations(expectations, splitSection(toEditableOutline(outline), 0));
+
+    expect(remapped.slice(0, 2)).toEqual([expectation(1), expectation(1, { sectionNumber: 2 })]);
+    expect(remapped[2]).toEqual(expectation(2, { sectionNumber: 3, evidenceType: "data_points" }));
+  });
+
+  it("starts a new section from its own title and guidance", () => {
+    const sections = addSection(toEditableOutline(outline), 2);
+    sections[3] = { ...sections[3], title: "What's next", evidenceGuidance: "Upcoming launches" };
+
+    expect(remapEvidenceExpectations(expectations, sections)[3]).toEqual({
+      sectionNumber: 4,
+      evidenceType: "examples",
+      searchQueries: ["What's next"],
+      sourceTypes: [],
+      keyDataPoints: [],
+      description: "Upcoming launches",
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { mergeResearchSources, normalizeUrl } from "@/lib/workflow/research";
+
+const existing = {
+  sources: [
+    { id: "source-1", url: "https://www.example.com/report/", title: "Report", sectionMapping: [1] },
+    { id: "source-3", url: "https://example.org/study", title: "Study", sectionMapping: [2], required: true },
+  ],
+  sectionMapping: { "1": ["source-1"], "2": ["source-3"] },
+};
+
+describe("normalizeUrl", () => {
+  it("ignores www, case, trailing slashes, fragments and tracking parameters", () => {
+    expect(normalizeUrl("https://WWW.Example.com/report/?utm_source=x&b=2&a=1#top"))
+      .toBe(normalizeUrl("http://example.com/report?a=1&b=2"));
+  });
+});
+
+describe("mergeResearchSources", () => {
+  it("appends new sources with ids after the highest existing one", () => {
+    const result = mergeResearchSources(existing, {
+      sources: [{ id: "source-1", url: "https://news.example.net/story", title: "Story", sectionMapping: [3] }],
+      sectionMapping: { "3": ["source-1"] },
+    });
+
+    expect(result.added).toBe(1);
+    expect(result.sources.map((s) => s.id)).toEqual(["source-1", "source-3", "source-4"]);
+    expect(result.sources[2]).toEqual({
+      id: "source-4",
+      url: "https://news.example.net/story",
+      title: "Story",
+      sectionMapping: [3],
+    });
+    expect(result.sectionMapping).toEqual({ "1": ["source-1"], "2": ["source-3"], "3": ["source-4"] });
+  });
+
+  it("folds a source already in the research into the stored entry", () => {
+    const result = mergeResearchSources(existing, {
+      sources: [{ id: "source-1", url: "https://example.com/report?utm_medium=email", title: "Report again", sectionMapping: [3] }],
+      sectionMapping: { "3": ["source-1"] },
+    });
+
+    expect(result.added).toBe(0);
+    expect(result.sources).toHaveLength(2);
+    expect(result.sources[0]).toEqual({ ...existing.sources[0], sectionMapping: [1, 3] });
+    expect(result.sectionMapping).toEqual({ "1": ["source-1"], "2": ["source-3"], "3": ["source-1"] });
+  });
+
+  it("maps the incoming record-style mapping through the new ids", () => {
+    const result = mergeResearchSources(existing, {
+      sources: [
+        { id: "source-1", url: "https://example.org/study" },
+        { id: "source-2", url: "https://news.example.net/story" },
+      ],
+      sectionMapping: { "1": ["source-1", "source-2"] },
+    });
+
+    expect(result.sectionMapping).toEqual({ "1": ["source-1", "source-3", "source-4"], "2": ["source-3"] });
+    expect(result.sources.find((s) => s.id === "source-3").sectionMapping).toEqual([2, 1]);
+  });
+
+  it("points duplicateOf at the stored id, or drops it when the original is unknown", () => {
+    const result = mergeResearchSources(existing, {
+      sources: [
+        { id: "source-1", url: "https://example.org/study" },
+        { id: "source-2", url: "https://mirror.example.net/study", duplicateOf: "source-1" },
+        { id: "source-3", url: "https://other.example.net/page", duplicateOf: "source-9" },
+      ],
+      sectionMapping: {},
+    });
+
+    expect(result.sources.slice(2)).toEqual([
+      { id: "source-4", url: "https://mirror.example.net/study", duplicateOf: "source-3", sectionMapping: [] },
+      { id: "source-5", url: "https://other.example.net/page", sectionMapping: [] },
+    ]);
+  });
+
+  it("doesn't change the existing research it was given", () => {
+    const before = JSON.parse(JSON.stringify(existing));
+    mergeResearchSources(existing, {
+      sources: [{ id: "source-1", url: "https://example.com/report", sectionMapping: [2] }],
+      sectionMapping: {},
+    });
+
+    expect(existing).toEqual(before);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from "vitest";
+import { assertTransition, canTransition, statusForStep, WorkflowTransitionError } from "@/lib/workflow/state-machine";
+
+// Only transitionStatus touches the database
+vi.mock("@/lib/db", () => ({ db: {} }));
+
+describe("canTransition", () => {
+  it("advances one step at a time", () => {
+    expect(canTransition("draft", "voice_tone_pending")).toBe(true);
+    expect(canTransition("research_pending", "draft_pending")).toBe(true);
+    expect(canTransition("draft_pending", "editorial_pending")).toBe(true);
+  });
+
+  it("doesn't skip steps", () => {
+    expect(canTransition("voice_tone_pending", "research_pending")).toBe(false);
+    expect(canTransition("thesis_pending", "editorial_pending")).toBe(false);
+    expect(canTransition("draft", "completed")).toBe(false);
+  });
+
+  it("lets the editorial step complete the post without final review", () => {
+    expect(canTransition("editorial_pending", "final_pending")).toBe(true);
+    expect(canTransition("editorial_pending", "completed")).toBe(true);
+    expect(canTransition("final_pending", "completed")).toBe(true);
+  });
+
+  it("goes back to any earlier step except the initial draft status", () => {
+    expect(canTransition("completed", "thesis_pending")).toBe(true);
+    expect(canTransition("editorial_pending", "voice_tone_pending")).toBe(true);
+    expect(canTransition("completed", "draft")).toBe(false);
+  });
+
+  it("allows staying put to re-run a step", () => {
+    expect(canTransition("draft_pending", "draft_pending")).toBe(true);
+    expect(canTransition("completed", "completed")).toBe(true);
+  });
+
+  it("archives from anywhere and never leaves the archive", () => {
+    expect(canTransition("thesis_pending", "archived")).toBe(true);
+    expect(canTransition("completed", "archived")).toBe(true);
+    expect(canTransition("archived", "archived")).toBe(false);
+    expect(canTransition("archived", "draft_pending")).toBe(false);
+  });
+});
+
+describe("assertTransition", () => {
+  it("throws an ILLEGAL_TRANSITION error for a move canTransition rejects", () => {
+    let thrown: unknown;
+    try {
+      assertTransition("draft", "completed");
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(WorkflowTransitionError);
+    expect(thrown).toMatchObject({ code: "ILLEGAL_TRANSITION", from: "draft", to: "completed" });
+  });
+
+  it("passes for a legal move", () => {
+    expect(() => assertTransition("completed", "draft_pending")).not.toThrow();
+  });
+});
+
+describe("statusForStep", () => {
+  it("maps a step to the status that waits on it", () => {
+    expect(statusForStep("research")).toBe("research_pending");
+    expect(statusForStep("voice_tone")).toBe("voice_tone_pending");
+    expect(statusForStep("publish")).toBeNull();
+  });
+});